@@ -6,6 +6,7 @@ const ASSETS = [
   ["src/panel/panel.html", "dist/panel.html"],
   ["src/full/full.html", "dist/full.html"],
   ["src/options/options.html", "dist/options.html"],
+  ["src/offscreen/offscreen.html", "dist/offscreen.html"],
   ["src/assets/icon-16.png", "dist/assets/icon-16.png"],
   ["src/assets/icon-32.png", "dist/assets/icon-32.png"],
   ["src/assets/icon-128.png", "dist/assets/icon-128.png"]
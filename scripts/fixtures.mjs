@@ -0,0 +1,31 @@
+// Shared by the test-*.mjs scripts: one place to follow the commit record shape (lib/query
+// CommitRec, lifecycle fields included). Each script keeps its own short positional helper.
+
+export function commitRec(over = {}) {
+  return {
+    id: "1",
+    downloadId: 1,
+    sessionId: null,
+    sessionUrl: null,
+    capturedAt: "2026-02-10T03:00:00.000Z",
+    startTime: null,
+    endTime: null,
+    state: "complete",
+    filename: "x.zip",
+    url: null,
+    finalUrl: null,
+    referrer: null,
+    mime: null,
+    totalBytes: null,
+    urn: null,
+    urnSource: null,
+    error: null,
+    danger: null,
+    paused: null,
+    canResume: null,
+    bytesReceived: null,
+    exists: null,
+    erasedAt: null,
+    ...over
+  };
+}
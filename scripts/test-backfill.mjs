@@ -0,0 +1,95 @@
+import assert from "node:assert/strict";
+
+// NOTE: This script runs after `tsc`, so it imports from dist/.
+import { backfillSearchQuery, formatBackfillPreview, parseBackfillRange, planBackfill } from "../dist/lib/backfill.js";
+
+function test(name, fn) {
+  try {
+    fn();
+    console.log(`ok - ${name}`);
+  } catch (e) {
+    console.error(`FAIL - ${name}`);
+    console.error(e);
+    process.exitCode = 1;
+  }
+}
+
+const OPTS = { epoch: "pabcd1234", urnOnly: true, ownExtensionId: "ext", now: "2026-03-01T00:00:00.000Z" };
+
+function item(id, over = {}) {
+  return { id, startTime: `2026-02-0${id}T10:00:00.000Z`, state: "complete", filename: `/home/u/Downloads/urn__feat__f${id}.zip`, url: `https://files.example/${id}`, referrer: "https://chatgpt.com/c/abc#frag", mime: "application/zip", totalBytes: 10, ...over };
+}
+
+test("parseBackfillRange accepts 0-2 dates and rejects bad input", () => {
+  assert.deepEqual(parseBackfillRange([]).range, { from: null, to: null });
+  assert.deepEqual(parseBackfillRange(["2026-01-01", "2026-01-31"]).range, { from: "2026-01-01", to: "2026-01-31" });
+  assert.match(parseBackfillRange(["2026-02-31"]).error, /invalid date/);
+  assert.match(parseBackfillRange(["yesterday"]).error, /invalid date/);
+  assert.match(parseBackfillRange(["2026-02-01", "2026-01-01"]).error, /after to/);
+  assert.match(parseBackfillRange(["a", "b", "c"]).error, /usage/);
+});
+
+test("backfillSearchQuery covers whole local days and has no result limit", () => {
+  const q = backfillSearchQuery({ from: "2026-01-01", to: "2026-01-31" });
+  assert.equal(q.limit, 0);
+  assert.equal(Date.parse(q.startedAfter), new Date(2026, 0, 1).getTime() - 1);
+  assert.equal(Date.parse(q.startedBefore), new Date(2026, 1, 1).getTime());
+  assert.deepEqual(backfillSearchQuery({ from: null, to: null }), { limit: 0 });
+});
+
+test("planBackfill builds commits with referrer-based sessions", () => {
+  const plan = planBackfill([item(2), item(1, { referrer: "" })], [], OPTS);
+  assert.deepEqual(plan.add.map((c) => c.id), [`pabcd1234-1-${Date.parse("2026-02-01T10:00:00.000Z")}`, `pabcd1234-2-${Date.parse("2026-02-02T10:00:00.000Z")}`]);
+  const [c1, c2] = plan.add;
+  assert.equal(c1.sessionUrl, null);
+  assert.equal(c2.sessionUrl, "https://chatgpt.com/c/abc");
+  assert.equal(c2.urn, "urn:feat:f2");
+  assert.equal(c2.downloadId, 2);
+  assert.equal(c2.capturedAt, "2026-02-02T10:00:00.000Z");
+  assert.equal(c2.sessionId, null);
+});
+
+test("planBackfill skips recorded, own and (urn-only) unmatched downloads", () => {
+  const legacy = { id: `legacy-1-${Date.parse("2026-02-01T10:00:00.000Z")}`, downloadId: 1, startTime: "2026-02-01T10:00:00.000Z", capturedAt: "2026-02-01T10:00:00.000Z" };
+  const items = [
+    item(1),
+    item(2, { byExtensionId: "ext" }),
+    item(3, { filename: "/tmp/report.pdf" }),
+    // Same download id as 1 but a different download (history was cleared in between).
+    item(1, { startTime: "2026-02-05T10:00:00.000Z" })
+  ];
+  const plan = planBackfill(items, [legacy], OPTS);
+  assert.deepEqual(plan.skipped, { recorded: 1, noUrn: 1, own: 1 });
+  assert.equal(plan.add.length, 1);
+  assert.equal(plan.add[0].startTime, "2026-02-05T10:00:00.000Z");
+
+  const loose = planBackfill([item(3, { filename: "/tmp/report.pdf" })], [], { ...OPTS, urnOnly: false });
+  assert.equal(loose.add.length, 1);
+  assert.equal(loose.add[0].urn, null);
+});
+
+test("planBackfill honours the URN source chain", () => {
+  const it = item(4, { filename: "/tmp/download.zip", finalUrl: "https://files.example/get?name=urn%3Afeat%3Areports%3Aq1" });
+  assert.equal(planBackfill([it], [], OPTS).skipped.noUrn, 1);
+  const plan = planBackfill([it], [], { ...OPTS, urn: { sources: { filename: true, finalUrl: true, url: false, referrer: false, title: false } } });
+  assert.equal(plan.add[0].urn, "urn:feat:reports:q1");
+  assert.equal(plan.add[0].urnSource, "finalUrl:urn:");
+});
+
+test("planBackfill is idempotent against its own output", () => {
+  const first = planBackfill([item(1), item(2)], [], OPTS);
+  const again = planBackfill([item(1), item(2)], first.add, OPTS);
+  assert.equal(again.add.length, 0);
+  assert.equal(again.skipped.recorded, 2);
+});
+
+test("formatBackfillPreview lists additions and truncates long lists", () => {
+  const plan = planBackfill([1, 2, 3, 4].map((n) => item(n)), [], OPTS);
+  const text = formatBackfillPreview(plan, 2);
+  assert.match(text, /add: 4/);
+  assert.match(text, /\+ 2026-02-01 urn:feat:f1  urn__feat__f1\.zip/);
+  assert.match(text, /and 2 more/);
+});
+
+if (process.exitCode) process.exit(process.exitCode);
+console.log("All backfill unit tests passed.");
@@ -0,0 +1,198 @@
+import assert from "node:assert/strict";
+import { createHash } from "node:crypto";
+
+// NOTE: This script runs after `tsc`, so it imports from dist/.
+import { PBKDF2_MAX_ITERATIONS, PBKDF2_MIN_ITERATIONS, backupFilename, backupStateHash, buildBackupPayload, decryptBackup, encryptBackup, isEncryptedBackupText, parseBackupPayload, planRestore, verifyBackupHash } from "../dist/lib/backup.js";
+import { commitRec } from "./fixtures.mjs";
+
+function stableStringify(v) {
+  if (Array.isArray(v)) return `[${v.map(stableStringify).join(",")}]`;
+  if (v && typeof v === "object") return `{${Object.keys(v).filter((k) => v[k] !== undefined).sort().map((k) => `${JSON.stringify(k)}:${stableStringify(v[k])}`).join(",")}}`;
+  return JSON.stringify(v ?? null);
+}
+
+async function test(name, fn) {
+  try {
+    await fn();
+    console.log(`ok - ${name}`);
+  } catch (e) {
+    console.error(`FAIL - ${name}`);
+    console.error(e);
+    process.exitCode = 1;
+  }
+}
+
+function session(id, over = {}) {
+  return { id, url: `https://chatgpt.com/c/${id}`, title: id.toUpperCase(), createdAt: "2026-02-10T00:00:00.000Z", lastSeenAt: "2026-02-10T00:00:00.000Z", lastDownloadAt: null, downloadCount: 0, ...over };
+}
+
+function commit(n, sessionId, over = {}) {
+  return commitRec({ id: `pabcd1234-${n}-0`, downloadId: Number(n), sessionId, sessionUrl: `https://chatgpt.com/c/${sessionId}`, capturedAt: `2026-02-10T0${n}:00:00.000Z`, filename: `${n}.zip`, ...over });
+}
+
+await test("parseBackupPayload round-trips buildBackupPayload output", () => {
+  const payload = buildBackupPayload({ a: session("a") }, [commit("2", "a"), commit("1", "a")]);
+  const parsed = parseBackupPayload(JSON.stringify(payload));
+  assert.equal(parsed.error, null);
+  assert.deepEqual(parsed.payload.commits.map((c) => c.id), ["pabcd1234-1-0", "pabcd1234-2-0"]);
+  assert.deepEqual(Object.keys(parsed.payload.sessions), ["a"]);
+});
+
+await test("parseBackupPayload rejects unknown schema and malformed records", () => {
+  assert.match(parseBackupPayload("{").error, /JSON parse failed/);
+  assert.match(parseBackupPayload(JSON.stringify({ schema: "x", sessions: {}, commits: [] })).error, /unsupported schema/);
+
+  const badCommit = buildBackupPayload({}, [commit("1", "a", { totalBytes: "12" })]);
+  assert.match(parseBackupPayload(JSON.stringify(badCommit)).error, /commits\[0\]: totalBytes/);
+
+  const badSession = { ...buildBackupPayload({}, []), sessions: { a: session("b") } };
+  assert.match(parseBackupPayload(JSON.stringify(badSession)).error, /sessions\.a: id does not match/);
+});
+
+await test("planRestore merge dedupes by id and counts added/updated/skipped", () => {
+  const current = {
+    sessions: { a: session("a", { downloadCount: 2 }) },
+    commits: [commit("1", "a"), commit("2", "a", { mime: null })]
+  };
+  const payload = buildBackupPayload(
+    { a: session("a", { downloadCount: 1 }), b: session("b") },
+    [commit("1", "a"), commit("2", "a", { mime: "application/zip" }), commit("3", "b")]
+  );
+
+  const plan = planRestore(current, payload, "merge");
+  assert.deepEqual(plan.sessionCounts, { added: 1, updated: 0, skipped: 1, removed: 0 });
+  assert.deepEqual(plan.commitCounts, { added: 1, updated: 1, skipped: 1, removed: 0 });
+  assert.equal(plan.sessions.a.downloadCount, 2);
+  assert.equal(plan.commits.find((c) => c.downloadId === 2).mime, "application/zip");
+  assert.equal(plan.commits.length, 3);
+});
+
+await test("planRestore re-keys legacy commit ids from old backups", () => {
+  const current = { sessions: {}, commits: [commit("1", "a")] };
+  const legacy = commit("1", "a", { id: "1", startTime: "2026-01-01T00:00:00.000Z" });
+  delete legacy.downloadId;
+  const payload = parseBackupPayload(JSON.stringify(buildBackupPayload({}, [legacy]))).payload;
+
+  const plan = planRestore(current, payload, "merge");
+  assert.deepEqual(plan.commitCounts, { added: 1, updated: 0, skipped: 0, removed: 0 });
+  const restored = plan.commits.find((c) => c.id.startsWith("legacy-"));
+  assert.equal(restored.id, `legacy-1-${Date.parse("2026-01-01T00:00:00.000Z")}`);
+  assert.equal(restored.downloadId, 1);
+});
+
+await test("planRestore replace reports removed records", () => {
+  const current = { sessions: { a: session("a"), b: session("b") }, commits: [commit("1", "a"), commit("2", "b")] };
+  const payload = buildBackupPayload({ a: session("a") }, [commit("1", "a")]);
+
+  const plan = planRestore(current, payload, "replace");
+  assert.deepEqual(plan.sessionCounts, { added: 0, updated: 0, skipped: 1, removed: 1 });
+  assert.deepEqual(plan.commitCounts, { added: 0, updated: 0, skipped: 1, removed: 1 });
+  assert.deepEqual(Object.keys(plan.sessions), ["a"]);
+});
+
+await test("planRestore replace counts overlapping records against current data", () => {
+  const current = { sessions: { a: session("a"), b: session("b") }, commits: [commit("1", "a"), commit("2", "a"), commit("3", "b")] };
+  const payload = buildBackupPayload(
+    { a: session("a", { title: "Renamed" }), c: session("c") },
+    [commit("1", "a"), commit("2", "a", { filename: "edited.zip" }), commit("4", "c")]
+  );
+
+  const plan = planRestore(current, payload, "replace");
+  assert.deepEqual(plan.sessionCounts, { added: 1, updated: 1, skipped: 0, removed: 1 });
+  assert.deepEqual(plan.commitCounts, { added: 1, updated: 1, skipped: 1, removed: 1 });
+  assert.deepEqual(plan.commits.map((c) => c.id).sort(), ["pabcd1234-1-0", "pabcd1234-2-0", "pabcd1234-4-0"]);
+});
+
+await test("backupStateHash ignores record order and export time", async () => {
+  const a = await backupStateHash({ a: session("a"), b: session("b") }, [commit("1", "a"), commit("2", "b")]);
+  const b = await backupStateHash({ b: session("b"), a: session("a") }, [commit("2", "b"), commit("1", "a")]);
+  assert.equal(a, b);
+  assert.equal(a.length, 16);
+
+  const changed = await backupStateHash({ a: session("a"), b: session("b") }, [commit("1", "a")]);
+  assert.notEqual(a, changed);
+});
+
+await test("backupStateHash ignores lastSeenAt bumps but not title changes", async () => {
+  const commits = [commit("1", "a")];
+  const base = await backupStateHash({ a: session("a") }, commits);
+  assert.equal(await backupStateHash({ a: session("a", { lastSeenAt: "2026-02-11T09:30:00.000Z" }) }, commits), base);
+  assert.notEqual(await backupStateHash({ a: session("a", { title: "Renamed" }) }, commits), base);
+});
+
+await test("verifyBackupHash still accepts backups hashed over full session records", async () => {
+  const payload = buildBackupPayload({ a: session("a") }, [commit("1", "a")]);
+  // What older versions stored: the hash over whole session records.
+  payload.hash = createHash("sha256").update(stableStringify({ sessions: payload.sessions, commits: payload.commits })).digest("hex").slice(0, 16);
+  const parsed = parseBackupPayload(JSON.stringify(payload)).payload;
+  assert.equal(await verifyBackupHash(parsed), true);
+  parsed.sessions.a.lastSeenAt = "2026-02-11T00:00:00.000Z";
+  assert.equal(await verifyBackupHash(parsed), false);
+});
+
+await test("verifyBackupHash detects edited payloads", async () => {
+  const payload = buildBackupPayload({ a: session("a") }, [commit("1", "a")]);
+  payload.hash = await backupStateHash(payload.sessions, payload.commits);
+  const parsed = parseBackupPayload(JSON.stringify(payload)).payload;
+  assert.equal(await verifyBackupHash(parsed), true);
+
+  parsed.commits[0].filename = "edited.zip";
+  assert.equal(await verifyBackupHash(parsed), false);
+});
+
+await test("search history is only in a backup when asked for and does not change the hash", async () => {
+  const plain = buildBackupPayload({ a: session("a") }, [commit("1", "a")]);
+  assert.equal("searchHistory" in plain, false);
+  assert.equal(parseBackupPayload(JSON.stringify(plain)).payload.searchHistory, undefined);
+
+  const history = [{ query: "file:.zip", lastAt: "2026-02-10T00:00:00.000Z", uses: 3, hits: 12, pinned: true }];
+  const withHistory = buildBackupPayload({ a: session("a") }, [commit("1", "a")], { searchHistory: history });
+  withHistory.hash = await backupStateHash(withHistory.sessions, withHistory.commits);
+  const parsed = parseBackupPayload(JSON.stringify({ ...withHistory, searchHistory: [...history, { query: ">backup" }] })).payload;
+  assert.deepEqual(parsed.searchHistory, history);
+  assert.equal(await verifyBackupHash(parsed), true);
+  assert.equal(withHistory.hash, await backupStateHash(plain.sessions, plain.commits));
+});
+
+await test("backupFilename embeds timestamp and hash", () => {
+  assert.equal(backupFilename("session-download-commits/", "2026-02-10T01:02:03.456Z", "0123456789abcdef"), "session-download-commits/backup-20260210-010203-0123456789abcdef.json");
+});
+
+await test("encryptBackup/decryptBackup round-trip with integrity checks", async () => {
+  const payload = buildBackupPayload({ a: session("a") }, [commit("1", "a", { url: "https://example.com/signed?sig=secret" })]);
+  payload.hash = await backupStateHash(payload.sessions, payload.commits);
+
+  // The lowest accepted count keeps the test fast; the format stores it per file.
+  const env = await encryptBackup(payload, "correct horse", PBKDF2_MIN_ITERATIONS);
+  const text = JSON.stringify(env);
+  assert.equal(isEncryptedBackupText(text), true);
+  assert.equal(isEncryptedBackupText(JSON.stringify(payload)), false);
+  assert.equal(text.includes("secret"), false);
+
+  const ok = await decryptBackup(text, "correct horse");
+  assert.equal(ok.error, null);
+  assert.deepEqual(JSON.parse(ok.text), payload);
+
+  const wrong = await decryptBackup(text, "wrong");
+  assert.equal(wrong.text, null);
+  assert.match(wrong.error, /decryption failed/);
+
+  // Header fields are bound as additional data.
+  const swapped = await decryptBackup(JSON.stringify({ ...env, exportedAt: "2020-01-01T00:00:00.000Z" }), "correct horse");
+  assert.match(swapped.error, /decryption failed/);
+});
+
+await test("decryptBackup rejects iteration counts outside the accepted range", async () => {
+  const payload = buildBackupPayload({ a: session("a") }, [commit("1", "a")]);
+  const env = await encryptBackup(payload, "pw", PBKDF2_MIN_ITERATIONS);
+  assert.equal((await decryptBackup(JSON.stringify(env), "pw")).error, null);
+
+  for (const iterations of [PBKDF2_MIN_ITERATIONS - 1, PBKDF2_MAX_ITERATIONS + 1, 1e12, 1.5e5 + 0.5]) {
+    const res = await decryptBackup(JSON.stringify({ ...env, kdf: { ...env.kdf, iterations } }), "pw");
+    assert.equal(res.text, null);
+    assert.match(res.error, /kdf iterations out of range/);
+  }
+});
+
+if (process.exitCode) process.exit(process.exitCode);
+console.log("All backup unit tests passed.");
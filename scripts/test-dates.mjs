@@ -0,0 +1,83 @@
+import assert from "node:assert/strict";
+
+// NOTE: This script runs after `tsc`, so it imports from dist/.
+import { inDateRange, parseDateValue, resolveDateTerm } from "../dist/lib/dates.js";
+
+function test(name, fn) {
+  try {
+    fn();
+    console.log(`ok - ${name}`);
+  } catch (e) {
+    console.error(`FAIL - ${name}`);
+    console.error(e);
+    process.exitCode = 1;
+  }
+}
+
+// Wednesday 2026-02-11 15:30 local time. Expectations use local constructors so the
+// tests pass in any timezone.
+const NOW = new Date(2026, 1, 11, 15, 30).getTime();
+const at = (...args) => new Date(...args).getTime();
+
+function range(key, value) {
+  const r = resolveDateTerm(key, value, NOW);
+  assert.equal(r.error, null, `unexpected error for ${key}:${value}: ${r.error}`);
+  return r.range;
+}
+
+test("calendar values resolve to local days and months", () => {
+  assert.deepEqual(parseDateValue("2026-02-10", NOW), { start: at(2026, 1, 10), end: at(2026, 1, 11), exact: false });
+  assert.deepEqual(parseDateValue("today", NOW), { start: at(2026, 1, 11), end: at(2026, 1, 12), exact: false });
+  assert.deepEqual(parseDateValue("yesterday", NOW), { start: at(2026, 1, 10), end: at(2026, 1, 11), exact: false });
+  assert.deepEqual(parseDateValue("2026-12", NOW), { start: at(2026, 11, 1), end: at(2027, 0, 1), exact: false });
+});
+
+test("timestamps keep the precision they were written with", () => {
+  assert.deepEqual(parseDateValue("2026-02-10t14:00", NOW), { start: at(2026, 1, 10, 14), end: at(2026, 1, 10, 14, 1), exact: true });
+  assert.deepEqual(parseDateValue("2026-02-10 14", NOW), { start: at(2026, 1, 10, 14), end: at(2026, 1, 10, 15), exact: true });
+  assert.deepEqual(parseDateValue("2026-02-10T14:00:30", NOW), { start: at(2026, 1, 10, 14, 0, 30), end: at(2026, 1, 10, 14, 0, 31), exact: true });
+  assert.equal(parseDateValue("14:00", NOW)?.start, at(2026, 1, 11, 14));
+});
+
+test("relative durations count back from now", () => {
+  assert.equal(parseDateValue("12h", NOW)?.start, NOW - 12 * 3600_000);
+  assert.equal(parseDateValue("7d", NOW)?.start, NOW - 7 * 86400_000);
+  assert.equal(parseDateValue("2w", NOW)?.start, NOW - 14 * 86400_000);
+});
+
+test("invalid values are rejected", () => {
+  for (const v of ["2026-02-31", "2026-13", "2026-02-10t25:00", "24:00", "7x", "last week", "20260210"]) {
+    assert.equal(parseDateValue(v, NOW), null, v);
+  }
+  assert.match(resolveDateTerm("after", "soon", NOW).error, /invalid date for after: "soon" \(YYYY-MM-DD/);
+  assert.match(resolveDateTerm("on", "7d", NOW).error, /on: needs a date, not a duration/);
+  assert.match(resolveDateTerm("this", "decade", NOW).error, /invalid this: value "decade"/);
+});
+
+test("after: is inclusive, before: keeps calendar days but excludes instants", () => {
+  assert.deepEqual(range("after", "2026-02-10"), { from: at(2026, 1, 10), to: null });
+  assert.deepEqual(range("before", "2026-02-10"), { from: null, to: at(2026, 1, 11) });
+  assert.deepEqual(range("before", "2026-02-10t14:00"), { from: null, to: at(2026, 1, 10, 14) });
+  assert.deepEqual(range("before", "7d"), { from: null, to: NOW - 7 * 86400_000 });
+  assert.deepEqual(range("on", "2026-02-10t14:00"), { from: at(2026, 1, 10, 14), to: at(2026, 1, 10, 14, 1) });
+});
+
+test("this: covers the current day, week (from Monday), month and year", () => {
+  assert.deepEqual(range("this", "day"), { from: at(2026, 1, 11), to: at(2026, 1, 12) });
+  assert.deepEqual(range("this", "week"), { from: at(2026, 1, 9), to: at(2026, 1, 16) });
+  assert.deepEqual(range("this", "month"), { from: at(2026, 1, 1), to: at(2026, 2, 1) });
+  assert.deepEqual(range("this", "year"), { from: at(2026, 0, 1), to: at(2027, 0, 1) });
+  // A Sunday still belongs to the week that started on Monday.
+  assert.deepEqual(resolveDateTerm("this", "week", at(2026, 1, 15, 23)).range, { from: at(2026, 1, 9), to: at(2026, 1, 16) });
+});
+
+test("inDateRange is half-open and ignores unparsable timestamps", () => {
+  const r = { from: at(2026, 1, 10), to: at(2026, 1, 11) };
+  assert.equal(inDateRange(r, new Date(at(2026, 1, 10)).toISOString()), true);
+  assert.equal(inDateRange(r, new Date(at(2026, 1, 11) - 1).toISOString()), true);
+  assert.equal(inDateRange(r, new Date(at(2026, 1, 11)).toISOString()), false);
+  assert.equal(inDateRange({ from: null, to: null }, null), false);
+});
+
+if (process.exitCode) process.exit(process.exitCode);
+console.log("All dates unit tests passed.");
@@ -0,0 +1,101 @@
+import assert from "node:assert/strict";
+
+// NOTE: This script runs after `tsc`, so it imports from dist/.
+import { applyDownloadDelta, commitFlags, lifecycleFromItem, lifecycleLabels } from "../dist/lib/lifecycle.js";
+import { commitMatches, parseQuery } from "../dist/lib/query.js";
+import { buildUrnContainerTree } from "../dist/lib/tree.js";
+import { commitIdFor, downloadEventTarget } from "../dist/lib/identity.js";
+import { commitRec } from "./fixtures.mjs";
+
+function test(name, fn) {
+  try {
+    fn();
+    console.log(`ok - ${name}`);
+  } catch (e) {
+    console.error(`FAIL - ${name}`);
+    console.error(e);
+    process.exitCode = 1;
+  }
+}
+
+function commit(id, over = {}) {
+  return commitRec({ id, capturedAt: "2026-02-10T00:00:00.000Z", filename: `urn__feat__${id}.zip`, totalBytes: 2048, urn: `urn:feat:${id}`, urnSource: "filename:urn__", ...over });
+}
+
+test("lifecycleFromItem copies known fields and ignores junk", () => {
+  const lc = lifecycleFromItem({ error: "NETWORK_FAILED", danger: "safe", paused: false, canResume: true, bytesReceived: 10, exists: true, extra: 1 });
+  assert.deepEqual(lc, { error: "NETWORK_FAILED", danger: "safe", paused: false, canResume: true, bytesReceived: 10, exists: true, erasedAt: null });
+  assert.deepEqual(lifecycleFromItem({ error: "", paused: "yes", bytesReceived: -1 }).paused, null);
+});
+
+test("applyDownloadDelta tracks interruptions, resumes and removals", () => {
+  const started = commit("a", { state: "in_progress", totalBytes: 100, bytesReceived: 20 });
+  const failed = applyDownloadDelta(started, { id: 1, state: { current: "interrupted" }, error: { current: "NETWORK_FAILED" }, canResume: { current: true } });
+  assert.equal(failed.state, "interrupted");
+  assert.equal(failed.error, "NETWORK_FAILED");
+  assert.equal(started.error, null, "input is not mutated");
+
+  const resumed = applyDownloadDelta(failed, { id: 1, state: { current: "in_progress" } });
+  assert.equal(resumed.error, null);
+
+  const done = applyDownloadDelta(resumed, { id: 1, state: { current: "complete" }, endTime: { current: "2026-02-10T00:01:00.000Z" } });
+  assert.equal(done.bytesReceived, 100);
+
+  const gone = applyDownloadDelta(done, { id: 1, exists: { previous: true, current: false } });
+  assert.equal(gone.exists, false);
+
+  const moved = applyDownloadDelta(done, { id: 1, finalUrl: { current: "https://cdn.example/urn:feat:a.zip" } });
+  assert.equal(moved.finalUrl, "https://cdn.example/urn:feat:a.zip");
+});
+
+test("commitFlags and lifecycleLabels describe the download", () => {
+  assert.deepEqual(commitFlags(commit("ok")), []);
+  assert.deepEqual(commitFlags(commit("x", { state: "interrupted", error: "FILE_FAILED", erasedAt: "2026-02-11T00:00:00.000Z" })), ["failed", "erased"]);
+  assert.deepEqual(commitFlags(commit("x", { state: "in_progress", paused: true, danger: "file" })), ["paused", "dangerous"]);
+  assert.deepEqual(commitFlags(commit("x", { danger: "accepted", exists: false })), ["removed"]);
+
+  const labels = lifecycleLabels(commit("x", { state: "interrupted", error: "NETWORK_FAILED", canResume: true, bytesReceived: 1024 }));
+  assert.deepEqual(labels, ["error:NETWORK_FAILED", "resumable", "1.0KB/2.0KB"]);
+});
+
+test("query filters on state:, error: and is:<flag>", () => {
+  const failed = commit("f", { state: "interrupted", error: "NETWORK_FAILED" });
+  const ok = commit("ok");
+  const erased = commit("e", { erasedAt: "2026-02-11T00:00:00.000Z" });
+  const pick = (s) => [failed, ok, erased].filter((c) => commitMatches(parseQuery(s), c, null)).map((c) => c.id);
+
+  assert.deepEqual(pick("state:interrupted"), ["f"]);
+  assert.deepEqual(pick("error:network"), ["f"]);
+  assert.deepEqual(pick("error:disk"), []);
+  assert.deepEqual(pick("is:failed"), ["f"]);
+  assert.deepEqual(pick("is:erased"), ["e"]);
+  assert.deepEqual(pick("state:complete"), ["ok", "e"]);
+});
+
+test("buildUrnContainerTree counts failed/removed commits per node", () => {
+  const tree = buildUrnContainerTree([commit("a"), commit("a", { id: "a2", state: "interrupted" }), commit("b", { exists: false })], {});
+  const root = tree.byId.get("urn:feat");
+  assert.equal(root.commitCount, 3);
+  assert.equal(root.failedCount, 2);
+  assert.equal(tree.byId.get("urn:feat:a").failedCount, 1);
+});
+
+test("a reused download id goes to the pending download, not the old commit", () => {
+  // Chrome's history was cleared: download 7 is new and urn-only pending, while an older
+  // commit from the same profile epoch still carries download id 7.
+  const old = commit("old", { id: commitIdFor("pabcd1234", 7, "2026-02-01T00:00:00.000Z"), downloadId: 7 });
+  const pending = { 7: { downloadId: 7, startTime: "2026-02-10T00:00:00.000Z", state: "in_progress" } };
+  assert.equal(downloadEventTarget({ own: false, pending: !!pending["7"], commit: !!old }), "pending");
+
+  // With the pending record promoted (or gone), the live commit gets the deltas.
+  assert.equal(downloadEventTarget({ own: false, pending: false, commit: true }), "commit");
+  assert.equal(downloadEventTarget({ own: false, pending: false, commit: false }), "none");
+});
+
+test("deltas and erasures of the extension's own files never reach commits", () => {
+  assert.equal(downloadEventTarget({ own: true, pending: false, commit: true }), "own");
+  assert.equal(downloadEventTarget({ own: true, pending: true, commit: false }), "own");
+});
+
+if (process.exitCode) process.exit(process.exitCode);
+console.log("All lifecycle unit tests passed.");
@@ -0,0 +1,105 @@
+import assert from "node:assert/strict";
+
+// NOTE: This script runs after `tsc`, so it imports from dist/.
+import { buildNamingContract, DEFAULT_NAMING_TEMPLATES, namingContextFor, namingPrefixOf, namingTemplateFor, namingTemplateKey, normalizeNamingTemplates } from "../dist/lib/naming.js";
+import { buildUrnContainerTree } from "../dist/lib/tree.js";
+import { extractUrnFromFilename } from "../dist/lib/urn.js";
+import { commitRec } from "./fixtures.mjs";
+
+function test(name, fn) {
+  try {
+    fn();
+    console.log(`ok - ${name}`);
+  } catch (e) {
+    console.error(`FAIL - ${name}`);
+    console.error(e);
+    process.exitCode = 1;
+  }
+}
+
+function commit(id, urn) {
+  return commitRec({ id, urn });
+}
+
+const MODEL = buildUrnContainerTree([
+  commit("1", "urn:feat:sessions:chrome:a"),
+  commit("2", "urn:feat:sessions:firefox:b"),
+  commit("3", "urn:feat:sessions:firefox:c"),
+  commit("4", "urn:test:x")
+], {});
+
+test("namingPrefixOf accepts urn:, bare and slash forms", () => {
+  assert.equal(namingPrefixOf("urn:feat:sessions"), "urn:feat:sessions");
+  assert.equal(namingPrefixOf("feat:sessions"), "urn:feat:sessions");
+  assert.equal(namingPrefixOf("feat/Sessions"), "urn:feat:sessions");
+  assert.equal(namingPrefixOf("not a urn"), null);
+  assert.equal(namingPrefixOf(""), null);
+});
+
+test("context lists existing children, most used first", () => {
+  const ctx = namingContextFor(MODEL, "urn:feat:sessions", ["feat", "test"]);
+  assert.deepEqual(ctx.children, ["firefox", "chrome"]);
+  assert.deepEqual(namingContextFor(MODEL, "urn:feat:nothing").children, []);
+  assert.deepEqual(namingContextFor(null, "urn:feat:sessions").children, []);
+});
+
+test("contract uses the real prefix and its first child", () => {
+  const ctx = namingContextFor(MODEL, "urn:feat:sessions", ["feat", "test"]);
+  const text = buildNamingContract(DEFAULT_NAMING_TEMPLATES.en, ctx, "en");
+  assert.match(text, /Working container: urn:feat:sessions\n/);
+  assert.match(text, /Existing child segments: firefox, chrome\n/);
+  assert.match(text, /Under this container: urn__feat__sessions__<seg>/);
+  assert.match(text, /logical URN: urn:feat:sessions:firefox\n/);
+  assert.match(text, /filename: urn__feat__sessions__firefox\.zip$/);
+  assert.doesNotMatch(text, /\{\{/);
+});
+
+test("example filename round-trips through the extractor", () => {
+  for (const prefix of ["urn:feat:sessions", null]) {
+    const text = buildNamingContract("{{exampleUrn}}|{{exampleFile}}", namingContextFor(MODEL, prefix), "ja");
+    const [urn, file] = text.split("|");
+    assert.equal(extractUrnFromFilename(file).urn, urn);
+  }
+});
+
+test("token formats follow the configured namespaces", () => {
+  const text = buildNamingContract("{{tokenFormats}}", namingContextFor(null, null, ["docs", "feat"]), "en");
+  assert.equal(text, "   - docs: urn__docs__<seg1>__<seg2>__...__<leaf>\n   - feat: urn__feat__<seg1>__<seg2>__...__<leaf>");
+});
+
+test("no prefix falls back to language-specific placeholders and a generic example", () => {
+  const ctx = namingContextFor(MODEL, null);
+  const ja = buildNamingContract(DEFAULT_NAMING_TEMPLATES.ja, ctx, "ja");
+  assert.match(ja, /作業中のコンテナ: （指定なし）/);
+  assert.match(ja, /論理URN: urn:feat:sessions:chrome:download-commits/);
+  const en = buildNamingContract("{{prefix}} / {{children}}", ctx, "en");
+  assert.equal(en, "(none) / (none yet)");
+});
+
+test("unknown placeholders are left as typed", () => {
+  assert.equal(buildNamingContract("{{prefix}} {{nope}}", namingContextFor(null, "urn:feat:x"), "en"), "urn:feat:x {{nope}}");
+});
+
+test("templates keep overrides only", () => {
+  assert.deepEqual(normalizeNamingTemplates(null), {});
+  assert.deepEqual(normalizeNamingTemplates({ ja: DEFAULT_NAMING_TEMPLATES.ja, en: "  Hi {{prefix}}\r\n", fr: "x" }), { en: "Hi {{prefix}}" });
+  assert.deepEqual(normalizeNamingTemplates({ en: "   " }), {});
+  assert.equal(namingTemplateFor({}, "ja"), DEFAULT_NAMING_TEMPLATES.ja);
+  assert.equal(namingTemplateFor({ en: "Hi" }, "en"), "Hi");
+});
+
+test("templates are cut to fit their own sync item", () => {
+  const item = (lang, text) => Buffer.byteLength(namingTemplateKey(lang) + JSON.stringify(text));
+  // "namingTemplate:ja" + 2 quotes + 1 + 2724 * 3 bytes = exactly the 8192-byte per-item quota.
+  const atLimit = `a${"あ".repeat(2724)}`;
+  assert.equal(item("ja", atLimit), 8192);
+  assert.equal(normalizeNamingTemplates({ ja: atLimit }).ja, atLimit);
+  assert.equal(normalizeNamingTemplates({ ja: `${atLimit}b` }).ja, atLimit);
+  assert.equal(normalizeNamingTemplates({ ja: `${atLimit}あ` }).ja, atLimit);
+  // Escapes count too: each newline is two bytes in the stored JSON.
+  const lines = normalizeNamingTemplates({ en: "x\n".repeat(5000) }).en;
+  assert.ok(item("en", lines) <= 8192 && item("en", `${lines}\nx`) > 8192);
+});
+
+if (process.exitCode) process.exit(process.exitCode);
+console.log("All naming unit tests passed.");
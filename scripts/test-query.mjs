@@ -0,0 +1,353 @@
+import assert from "node:assert/strict";
+
+// NOTE: This script runs after `tsc`, so it imports from dist/.
+import { commitMatches, fileExtensions, parseQuery, parseSizeFilter, sessionMatchesWithoutCommits } from "../dist/lib/query.js";
+import { commitRec } from "./fixtures.mjs";
+
+function test(name, fn) {
+  try {
+    fn();
+    console.log(`ok - ${name}`);
+  } catch (e) {
+    console.error(`FAIL - ${name}`);
+    console.error(e);
+    process.exitCode = 1;
+  }
+}
+
+// Strips positions so expected trees stay readable.
+function shape(e) {
+  if (!e) return e;
+  if (e.kind === "term") return e.key ? `${e.key}:${e.value}` : e.quoted ? `"${e.value}"` : e.value;
+  if (e.kind === "not") return { not: shape(e.expr) };
+  return { [e.kind]: e.items.map(shape) };
+}
+
+function ast(s) {
+  const q = parseQuery(s);
+  assert.equal(q.error, null, `unexpected error for ${s}: ${q.error}`);
+  return shape(q.expr);
+}
+
+const SESSION = { id: "s", url: "https://chatgpt.com/c/abc", title: "Refactor tree", createdAt: "2026-02-10T00:00:00.000Z", lastSeenAt: "2026-02-10T00:00:00.000Z", lastDownloadAt: null, downloadCount: 3 };
+const OTHER = { ...SESSION, id: "o", url: "https://claude.ai/chat/1", title: "Notes" };
+
+function commit(id, filename, urn, over = {}) {
+  return commitRec({ id, sessionId: "s", sessionUrl: SESSION.url, filename, urn, ...over });
+}
+
+const COMMITS = [
+  commit("zip", "urn__feat__tree__a.zip", "urn:feat:tree:a"),
+  commit("pdf", "My Report (1).pdf", null),
+  commit("test", "urn__test__tree__b.zip", "urn:test:tree:b", { state: "interrupted", error: "NETWORK_FAILED" })
+];
+
+function pick(s, session = SESSION) {
+  const q = parseQuery(s);
+  return COMMITS.filter((c) => commitMatches(q, c, session)).map((c) => c.id);
+}
+
+// --- parsing ---
+
+test("empty input and commands have no expression", () => {
+  assert.deepEqual(parseQuery("   "), { raw: "", command: null, args: [], expr: null, error: null });
+  const cmd = parseQuery(">Backfill 2026-01-01 2026-01-31");
+  assert.equal(cmd.command, "backfill");
+  assert.deepEqual(cmd.args, ["2026-01-01", "2026-01-31"]);
+  assert.equal(cmd.expr, null);
+});
+
+test("adjacent terms are ANDed and keys are recognized case-insensitively", () => {
+  assert.deepEqual(ast("Foo FILE:.ZIP urn:feat"), { and: ["foo", "file:.zip", "urn:feat"] });
+  assert.deepEqual(ast("foo AND bar"), { and: ["foo", "bar"] });
+  assert.equal(ast("single"), "single");
+});
+
+test("unknown keys stay ordinary terms", () => {
+  assert.equal(ast("https://chatgpt.com/c/abc"), "https://chatgpt.com/c/abc");
+  assert.equal(ast("note:x"), "note:x");
+});
+
+test("OR binds looser than AND; lowercase or is a term", () => {
+  assert.deepEqual(ast("a b OR c"), { or: [{ and: ["a", "b"] }, "c"] });
+  assert.deepEqual(ast("a OR b OR c"), { or: ["a", "b", "c"] });
+  assert.deepEqual(ast("a or b"), { and: ["a", "or", "b"] });
+});
+
+test("parentheses group and nest", () => {
+  assert.deepEqual(ast("(a OR b) c"), { and: [{ or: ["a", "b"] }, "c"] });
+  assert.deepEqual(ast("((a))"), "a");
+  assert.deepEqual(ast("x (a OR (b c))"), { and: ["x", { or: ["a", { and: ["b", "c"] }] }] });
+});
+
+test("- negates terms, keys, phrases and groups", () => {
+  assert.deepEqual(ast("-urn:test"), { not: "urn:test" });
+  assert.deepEqual(ast("a -b"), { and: ["a", { not: "b" }] });
+  assert.deepEqual(ast('-"draft copy"'), { not: '"draft copy"' });
+  assert.deepEqual(ast("-(a OR b)"), { not: { or: ["a", "b"] } });
+  assert.deepEqual(ast("--a"), { not: { not: "a" } });
+  // A hyphen inside a word is not an operator.
+  assert.equal(ast("2026-02-10"), "2026-02-10");
+});
+
+test("quoted phrases keep spaces, operators and escapes", () => {
+  assert.equal(ast('"my report"'), '"my report"');
+  assert.equal(ast('file:"My Report (1).pdf"'), "file:my report (1).pdf");
+  assert.equal(ast('"a OR b"'), '"a or b"');
+  assert.equal(ast('"say \\"hi\\""'), '"say "hi""');
+});
+
+test("parentheses inside a word are part of the word", () => {
+  assert.equal(ast("file:report(1).pdf"), "file:report(1).pdf");
+  assert.deepEqual(ast("(file:report(1).pdf OR x)"), { or: ["file:report(1).pdf", "x"] });
+});
+
+test("empty key values are ignored while typing", () => {
+  assert.equal(ast("file:"), null);
+  assert.equal(ast("file: foo"), "foo");
+  assert.equal(ast("-urn:"), null);
+  assert.equal(ast('""'), null);
+});
+
+// --- errors ---
+
+test("malformed input produces positioned errors", () => {
+  const err = (s) => parseQuery(s).error;
+  assert.match(err("(a OR b"), /missing "\)" for this "\(" \(col 1\)/);
+  assert.match(err("a)"), /unexpected "\)" \(col 2\)/);
+  assert.match(err(")"), /unexpected "\)" \(col 1\)/);
+  assert.match(err("a ()"), /empty parentheses \(col 3\)/);
+  assert.match(err("OR a"), /"OR" needs a term on both sides \(col 1\)/);
+  assert.match(err("a OR"), /"OR" needs a term on both sides \(col 3\)/);
+  assert.match(err("a OR OR b"), /"OR" needs a term on both sides \(col 3\)/);
+  assert.match(err("a AND"), /"AND" needs a term on both sides/);
+  assert.match(err("a -"), /"-" must be followed by a term \(col 3\)/);
+  assert.match(err("(a -)"), /"-" must be followed by a term/);
+  assert.match(err('file:"abc'), /unterminated quote \(col 6\)/);
+  assert.match(err('"abc'), /unterminated quote \(col 1\)/);
+  assert.match(err("is:bogus"), /unknown is: value "bogus"/);
+});
+
+test("a query with an error matches nothing", () => {
+  assert.deepEqual(pick("(zip"), []);
+  assert.equal(sessionMatchesWithoutCommits(parseQuery("(refactor"), SESSION), false);
+});
+
+// --- matching ---
+
+test("terms under the same key are ANDed; OR gives the old either-or", () => {
+  assert.deepEqual(pick("file:.zip file:.pdf"), []);
+  assert.deepEqual(pick("file:.zip OR file:.pdf"), ["zip", "pdf", "test"]);
+  assert.deepEqual(pick("file:.zip"), ["zip", "test"]);
+});
+
+test("negation excludes matches", () => {
+  assert.deepEqual(pick("-urn:test"), ["zip", "pdf"]);
+  assert.deepEqual(pick("tree -urn:test"), ["zip", "pdf"]);
+  assert.deepEqual(pick("-(file:.zip OR file:.pdf)"), []);
+  assert.deepEqual(pick("-is:unknown"), ["zip", "test"]);
+});
+
+test("is:inferred matches URNs that did not come from the filename", () => {
+  const commits = [
+    commit("file", "urn__feat__a.zip", "urn:feat:a", { urnSource: "filename:urn__" }),
+    commit("rule", "PROJ-1.pdf", "urn:feat:proj:1", { urnSource: "filename:rule:proj" }),
+    commit("url", "download.zip", "urn:feat:b", { urnSource: "finalUrl:urn:" }),
+    commit("none", "x.zip", null)
+  ];
+  const q = parseQuery("is:inferred");
+  assert.deepEqual(commits.filter((c) => commitMatches(q, c, SESSION)).map((c) => c.id), ["url"]);
+  const not = parseQuery("-is:inferred");
+  assert.deepEqual(commits.filter((c) => commitMatches(not, c, SESSION)).map((c) => c.id), ["file", "rule", "none"]);
+});
+
+test("quoted phrases match across spaces", () => {
+  assert.deepEqual(pick('"report (1)"'), ["pdf"]);
+  assert.deepEqual(pick('file:"my report"'), ["pdf"]);
+  assert.deepEqual(pick("file:my file:report"), ["pdf"]);
+});
+
+test("bare terms search session, file and urn fields", () => {
+  assert.deepEqual(pick("refactor"), ["zip", "pdf", "test"]);
+  assert.deepEqual(pick("refactor", OTHER), []);
+  assert.deepEqual(pick("tree:b"), ["test"]);
+});
+
+test("session, date and lifecycle keys combine with operators", () => {
+  assert.deepEqual(pick("session:chatgpt urn:feat"), ["zip"]);
+  assert.deepEqual(pick("session:claude OR state:interrupted"), ["test"]);
+  assert.deepEqual(pick("(error:network OR file:.pdf) -is:failed"), ["pdf"]);
+  assert.deepEqual(pick("on:2026-02-10 -file:.zip"), ["pdf"]);
+  assert.deepEqual(pick("after:2026-02-11"), []);
+});
+
+test("sessions without commits match only on session-level certainty", () => {
+  const m = (s) => sessionMatchesWithoutCommits(parseQuery(s), SESSION);
+  assert.equal(m(""), true);
+  assert.equal(m("refactor"), true);
+  assert.equal(m("session:chatgpt"), true);
+  assert.equal(m("session:claude"), false);
+  assert.equal(m("refactor file:.zip"), false);
+  assert.equal(m("refactor OR file:.zip"), true);
+  assert.equal(m("-session:claude"), true);
+  assert.equal(m("-urn:test"), false);
+  assert.equal(m("nothing-here"), false);
+});
+
+// --- dedicated keys ---
+
+const KEYED = [
+  commit("tgz", "/dl/urn__feat__rel__v1.tar.gz", "urn:feat:rel:v1", { url: "https://github.com/o/r/archive.tar.gz", finalUrl: "https://codeload.github.com/x", mime: "application/gzip", totalBytes: 20 * 1024 * 1024, urnSource: "filename:urn__" }),
+  commit("png", "C:\\dl\\shot.PNG", null, { url: "https://cdn.example.com/shot.png", mime: "image/png", totalBytes: 800, urnSource: null }),
+  commit("gz", "/dl/log.gz", "urn:test:log", { url: null, mime: null, totalBytes: null, bytesReceived: 4096, urnSource: "filename:[urn]" })
+];
+
+function pickKeyed(s, session = OTHER) {
+  const q = parseQuery(s);
+  assert.equal(q.error, null, q.error);
+  return KEYED.filter((c) => commitMatches(q, c, session)).map((c) => c.id);
+}
+
+test("fileExtensions understands compound archive extensions", () => {
+  assert.deepEqual(fileExtensions("a/b/x.tar.gz"), ["tar.gz", "gz"]);
+  assert.deepEqual(fileExtensions("x.v1.2.zip"), ["zip"]);
+  assert.deepEqual(fileExtensions("C:\\dir.d\\README"), []);
+  assert.deepEqual(fileExtensions(".bashrc"), []);
+  assert.deepEqual(fileExtensions("trailing."), []);
+  assert.deepEqual(fileExtensions(null), []);
+});
+
+test("ext: matches the last or the compound extension, with or without a dot", () => {
+  assert.deepEqual(pickKeyed("ext:tar.gz"), ["tgz"]);
+  assert.deepEqual(pickKeyed("ext:.gz"), ["tgz", "gz"]);
+  assert.deepEqual(pickKeyed("ext:png"), ["png"]);
+  assert.deepEqual(pickKeyed("ext:tar"), []);
+  assert.deepEqual(pickKeyed("ext:png OR ext:tar.gz"), ["tgz", "png"]);
+});
+
+test("host: matches download hosts and the session host", () => {
+  assert.deepEqual(pickKeyed("host:github.com"), ["tgz"]);
+  assert.deepEqual(pickKeyed("host:codeload"), ["tgz"]);
+  assert.deepEqual(pickKeyed("host:example.com"), ["png"]);
+  assert.deepEqual(pickKeyed("host:chatgpt.com", SESSION), ["tgz", "png", "gz"]);
+  assert.equal(sessionMatchesWithoutCommits(parseQuery("host:chatgpt.com"), SESSION), true);
+  assert.equal(sessionMatchesWithoutCommits(parseQuery("host:github.com"), SESSION), false);
+});
+
+test("mime: and source: match their own fields only", () => {
+  assert.deepEqual(pickKeyed("mime:image"), ["png"]);
+  assert.deepEqual(pickKeyed("mime:application/gzip"), ["tgz"]);
+  assert.deepEqual(pickKeyed("source:filename:urn__"), ["tgz"]);
+  assert.deepEqual(pickKeyed("source:filename"), ["tgz", "gz"]);
+  assert.deepEqual(pickKeyed("-source:filename"), ["png"]);
+});
+
+test("parseSizeFilter reads comparisons and units", () => {
+  assert.deepEqual(parseSizeFilter(">10mb"), { op: ">", bytes: 10 * 1024 * 1024 });
+  assert.deepEqual(parseSizeFilter("<=1.5KB"), { op: "<=", bytes: 1536 });
+  assert.deepEqual(parseSizeFilter("=0"), { op: "=", bytes: 0 });
+  assert.equal(parseSizeFilter("10mb"), null);
+  assert.equal(parseSizeFilter(">ten"), null);
+  assert.equal(parseSizeFilter(">10pb"), null);
+});
+
+test("size: compares total bytes (falling back to bytes received)", () => {
+  assert.deepEqual(pickKeyed("size:>10mb"), ["tgz"]);
+  assert.deepEqual(pickKeyed("size:<1kb"), ["png"]);
+  assert.deepEqual(pickKeyed("size:>=4kb size:<=4kb"), ["gz"]);
+  assert.deepEqual(pickKeyed("size:=800"), ["png"]);
+  assert.match(parseQuery("size:10mb").error, /invalid size: value "10mb" \(e\.g\. size:>10mb/);
+});
+
+test("relative and time-of-day date keys use the parse-time clock", () => {
+  const now = new Date(2026, 1, 11, 15, 30).getTime();
+  const iso = (...args) => new Date(...args).toISOString();
+  const dated = [
+    commit("morning", "a.zip", null, { capturedAt: iso(2026, 1, 11, 9) }),
+    commit("afternoon", "b.zip", null, { capturedAt: iso(2026, 1, 11, 14, 5) }),
+    commit("yesterday", "c.zip", null, { capturedAt: iso(2026, 1, 10, 23, 59) }),
+    commit("lastweek", "d.zip", null, { capturedAt: iso(2026, 1, 3, 12) })
+  ];
+  const when = (s) => {
+    const q = parseQuery(s, { now });
+    assert.equal(q.error, null, `unexpected error for ${s}: ${q.error}`);
+    return dated.filter((c) => commitMatches(q, c, SESSION)).map((c) => c.id);
+  };
+  assert.deepEqual(when("on:today"), ["morning", "afternoon"]);
+  assert.deepEqual(when("on:yesterday"), ["yesterday"]);
+  assert.deepEqual(when("after:14:00"), ["afternoon"]);
+  assert.deepEqual(when("after:2026-02-10T23:00 before:12:00"), ["morning", "yesterday"]);
+  assert.deepEqual(when("after:7d"), ["morning", "afternoon", "yesterday"]);
+  assert.deepEqual(when("after:2w"), ["morning", "afternoon", "yesterday", "lastweek"]);
+  assert.deepEqual(when("this:week"), ["morning", "afternoon", "yesterday"]);
+  assert.deepEqual(when("this:month -on:today"), ["yesterday", "lastweek"]);
+  assert.deepEqual(when('on:"2026-02-11 14"'), ["afternoon"]);
+  assert.deepEqual(when("before:2026-02-10"), ["yesterday", "lastweek"]);
+});
+
+test("invalid dates are parse errors instead of matching nothing", () => {
+  assert.match(parseQuery("on:2026-02-31").error, /invalid date for on: "2026-02-31" .*\(col 1\)$/);
+  assert.match(parseQuery("file:.zip after:lastweek").error, /invalid date for after: "lastweek" .*\(col 11\)$/);
+  assert.match(parseQuery("this:fortnight").error, /invalid this: value "fortnight"/);
+  assert.match(parseQuery("on:3d").error, /use after:3d/);
+  assert.equal(parseQuery("after:").error, null);
+});
+
+test("urn: supports anchored prefixes, globs and depth:", () => {
+  const tree = [
+    commit("root", "a.zip", "urn:feat:sessions"),
+    commit("panel", "b.zip", "urn:feat:sessions:chrome:panel"),
+    commit("other", "c.zip", "urn:feat:tools:chrome:cli"),
+    commit("lookalike", "d.zip", "urn:feat:sessionsx:chrome"),
+    commit("test", "e.zip", "urn:test:feat:sessions")
+  ];
+  const ids = (s) => {
+    const q = parseQuery(s);
+    assert.equal(q.error, null, `unexpected error for ${s}: ${q.error}`);
+    return tree.filter((c) => commitMatches(q, c, SESSION)).map((c) => c.id);
+  };
+  assert.deepEqual(ids("urn:chrome"), ["panel", "other", "lookalike"]);
+  assert.deepEqual(ids("urn:^feat:sessions"), ["root", "panel"]);
+  assert.deepEqual(ids("urn:^urn:feat:sessions"), ["root", "panel"]);
+  assert.deepEqual(ids("urn:^feat/sessions/chrome"), ["panel"]);
+  assert.deepEqual(ids("urn:feat:*:chrome:*"), ["panel", "other"]);
+  assert.deepEqual(ids("urn:feat:sessions:**"), ["root", "panel"]);
+  assert.deepEqual(ids("urn:^feat:*:chrome"), ["panel", "other", "lookalike"]);
+  assert.deepEqual(ids("urn:**:sessions"), ["root", "test"]);
+  assert.deepEqual(ids("depth:1"), ["root"]);
+  assert.deepEqual(ids("depth:>=3"), ["panel", "other"]);
+  assert.deepEqual(ids("urn:^feat depth:<3"), ["root", "lookalike"]);
+  assert.deepEqual(pick("depth:0"), []);
+});
+
+test("invalid urn prefixes and depths are parse errors", () => {
+  assert.match(parseQuery("urn:^").error, /urn: prefix "\^" is empty/);
+  assert.match(parseQuery("depth:deep").error, /invalid depth: value "deep"/);
+  assert.match(parseQuery("depth:>-1").error, /invalid depth/);
+});
+
+test("state: is a dedicated key", () => {
+  assert.deepEqual(pick("state:complete"), ["zip", "pdf"]);
+  assert.deepEqual(pick("-state:complete"), ["test"]);
+});
+
+test("fuzzy matching tolerates typos in bare, session: and file: terms only", () => {
+  const fuzzy = (s, session = SESSION) => {
+    const q = parseQuery(s);
+    return COMMITS.filter((c) => commitMatches(q, c, session, { fuzzy: true })).map((c) => c.id);
+  };
+  assert.deepEqual(pick("raport"), []);
+  assert.deepEqual(fuzzy("raport"), ["pdf"]);
+  assert.deepEqual(fuzzy("file:repotr"), ["pdf"]);
+  assert.deepEqual(fuzzy("session:refactr"), ["zip", "pdf", "test"]);
+  // Short needles and keyed filters stay exact.
+  assert.deepEqual(fuzzy("tre", OTHER), ["zip", "test"]);
+  assert.deepEqual(fuzzy("urn:fet"), []);
+  // Negation never goes fuzzy, so -raport keeps the report.
+  assert.deepEqual(fuzzy("-raport"), ["zip", "pdf", "test"]);
+  assert.equal(sessionMatchesWithoutCommits(parseQuery("refactr"), SESSION), false);
+  assert.equal(sessionMatchesWithoutCommits(parseQuery("refactr"), SESSION, { fuzzy: true }), true);
+});
+
+if (process.exitCode) process.exit(process.exitCode);
+console.log("All query unit tests passed.");
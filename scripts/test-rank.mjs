@@ -0,0 +1,144 @@
+import assert from "node:assert/strict";
+
+// NOTE: This script runs after `tsc`, so it imports from dist/.
+import { editDistance, fuzzyMatchesAny, fuzzyTokenMatch, typoBudget, wordsOf } from "../dist/lib/fuzzy.js";
+import { parseQuery } from "../dist/lib/query.js";
+import { markMatches, needlesFor, queryNeedles, scoreCommit, scoreSession } from "../dist/lib/rank.js";
+import { commitRec } from "./fixtures.mjs";
+
+function test(name, fn) {
+  try {
+    fn();
+    console.log(`ok - ${name}`);
+  } catch (e) {
+    console.error(`FAIL - ${name}`);
+    console.error(e);
+    process.exitCode = 1;
+  }
+}
+
+function commit(id, filename, urn, over = {}) {
+  return commitRec({ id, sessionId: "s", filename, urn, ...over });
+}
+
+function session(id, title, url) {
+  return { id, url, title, createdAt: "2026-02-10T00:00:00.000Z", lastSeenAt: "2026-02-10T00:00:00.000Z", lastDownloadAt: null, downloadCount: 0 };
+}
+
+function needles(s) {
+  return queryNeedles(parseQuery(s));
+}
+
+function marked(text, s, fuzzy = false, ...keys) {
+  const n = keys.length ? needlesFor(needles(s), ...keys) : needles(s);
+  return markMatches(text, n, fuzzy).map((p) => (p.hit ? `[${p.text}]` : p.text)).join("");
+}
+
+// --- fuzzy ---
+
+test("wordsOf splits filenames on separators and lower-cases", () => {
+  assert.deepEqual(wordsOf("urn__feat__Tree-View (1).zip"), ["urn", "feat", "tree", "view", "1", "zip"]);
+  assert.deepEqual(wordsOf("設計メモ_v2.md"), ["設計メモ", "v2", "md"]);
+  assert.deepEqual(wordsOf(null), []);
+});
+
+test("editDistance counts transpositions as one edit and stops at the cutoff", () => {
+  assert.equal(editDistance("tree", "tree", 2), 0);
+  assert.equal(editDistance("teer", "tere", 2), 1);
+  assert.equal(editDistance("report", "raport", 2), 1);
+  assert.equal(editDistance("a", "abcdef", 2), 3);
+  assert.equal(editDistance("abcdef", "uvwxyz", 1), 2);
+});
+
+test("typo budget grows with needle length", () => {
+  assert.equal(typoBudget("cli"), 0);
+  assert.equal(typoBudget("tree"), 1);
+  assert.equal(typoBudget("sessions"), 2);
+  assert.equal(fuzzyTokenMatch("clu", "cli"), false);
+  assert.equal(fuzzyTokenMatch("sesions", "sessions"), true);
+  assert.equal(fuzzyTokenMatch("chrme", "chrome"), true);
+  assert.equal(fuzzyTokenMatch("tabel", "panel"), false);
+  // Typos while still typing a longer word.
+  assert.equal(fuzzyTokenMatch("sesi", "sessions"), true);
+});
+
+test("fuzzyMatchesAny needs every word of the needle", () => {
+  const tokens = ["feat", "tree", "view", "zip"];
+  assert.equal(fuzzyMatchesAny("tre viwe", tokens), true);
+  assert.equal(fuzzyMatchesAny("tree panel", tokens), false);
+  assert.equal(fuzzyMatchesAny("--", tokens), false);
+});
+
+// --- ranking ---
+
+test("needles come from positive text terms; urn values are split into literal segments", () => {
+  assert.deepEqual(needles("tree -chrome file:.zip ext:zip urn:^feat:*:panel"), [
+    { key: null, value: "tree" },
+    { key: "file", value: ".zip" },
+    { key: "urn", value: "feat" },
+    { key: "urn", value: "panel" }
+  ]);
+  assert.deepEqual(needles("(a OR host:b) -(c d)"), [{ key: null, value: "a" }, { key: "host", value: "b" }]);
+  assert.deepEqual(needles("urn:^"), []);
+  assert.deepEqual(needles(">close"), []);
+});
+
+test("exact urn segment > filename token > url substring", () => {
+  const n = needles("tree");
+  const urnHit = commit("u", "/dl/urn__feat__tree.zip", "urn:feat:tree");
+  const fileHit = commit("f", "/dl/tree notes.pdf", null);
+  const urlHit = commit("l", "/dl/notes.pdf", null, { url: "https://example.org/trees/1" });
+  assert.ok(scoreCommit(urnHit, n) > scoreCommit(fileHit, n));
+  assert.ok(scoreCommit(fileHit, n) > scoreCommit(urlHit, n));
+  assert.ok(scoreCommit(urlHit, n) > 0);
+  assert.equal(scoreCommit(commit("x", "/dl/other.pdf", null), n), 0);
+});
+
+test("typos score below exact hits of the same kind", () => {
+  const c = commit("u", "/dl/urn__feat__sessions.zip", "urn:feat:sessions");
+  assert.ok(scoreCommit(c, needles("sessions")) > scoreCommit(c, needles("sesions")));
+  assert.ok(scoreCommit(c, needles("sesions")) > 0);
+  assert.equal(scoreCommit(c, needles("urn:sesions")) > 0, true);
+});
+
+test("every needle adds to the score", () => {
+  const c = commit("u", "/dl/urn__feat__tree__panel.zip", "urn:feat:tree:panel");
+  assert.ok(scoreCommit(c, needles("tree panel")) > scoreCommit(c, needles("tree")));
+});
+
+test("sessions score by title words before url", () => {
+  const n = needles("refactor");
+  const title = session("a", "Refactor tree", "https://chatgpt.com/c/1");
+  const partial = session("b", "Refactoring notes", "https://chatgpt.com/c/2");
+  const url = session("c", "Notes", "https://example.org/refactor");
+  assert.ok(scoreSession(title, n) > scoreSession(partial, n));
+  assert.ok(scoreSession(partial, n) > scoreSession(url, n));
+  assert.ok(scoreSession(url, n) > 0);
+  assert.ok(scoreSession(session("d", "Refactr tree", "https://x/"), n) > 0);
+  // file: and urn: needles are about commits.
+  assert.equal(scoreSession(title, needles("file:refactor")), 0);
+});
+
+// --- highlighting ---
+
+test("markMatches wraps substrings case-insensitively and merges overlaps", () => {
+  assert.equal(marked("Refactor Tree", "tree"), "Refactor [Tree]");
+  assert.equal(marked("aaa", "aa"), "[aaa]");
+  assert.equal(marked("tree-view", "tree view"), "[tree]-[view]");
+  assert.equal(marked("tree-view", "\"e-v\""), "tre[e-v]iew");
+  assert.equal(marked("plain", ""), "plain");
+  assert.deepEqual(markMatches("", needles("x"), false), []);
+});
+
+test("markMatches marks typo words only in fuzzy mode", () => {
+  assert.equal(marked("urn__feat__sessions.zip", "sesions"), "urn__feat__sessions.zip");
+  assert.equal(marked("urn__feat__sessions.zip", "sesions", true), "urn__feat__[sessions].zip");
+});
+
+test("field needles only mark their own field", () => {
+  assert.equal(marked("urn:feat:tree", "file:tree urn:feat", false, "urn"), "urn:[feat]:tree");
+  assert.equal(marked("tree.zip", "file:tree urn:feat", false, "file"), "[tree].zip");
+});
+
+if (process.exitCode) process.exit(process.exitCode);
+console.log("All rank unit tests passed.");
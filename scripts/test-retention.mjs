@@ -0,0 +1,65 @@
+import assert from "node:assert/strict";
+
+// NOTE: This script runs after `tsc`, so it imports from dist/.
+import { applyRetention, archiveFilename, DEFAULT_RETENTION } from "../dist/lib/retention.js";
+import { commitRec } from "./fixtures.mjs";
+
+function test(name, fn) {
+  try {
+    fn();
+    console.log(`ok - ${name}`);
+  } catch (e) {
+    console.error(`FAIL - ${name}`);
+    console.error(e);
+    process.exitCode = 1;
+  }
+}
+
+const NOW = Date.parse("2026-03-01T00:00:00.000Z");
+const DAY = 24 * 60 * 60 * 1000;
+
+function commit(id, daysAgo, urn) {
+  return commitRec({ id, sessionId: "s", capturedAt: new Date(NOW - daysAgo * DAY).toISOString(), filename: `${id}.zip`, urn, urnSource: urn ? "t" : null });
+}
+
+function ids(list) {
+  return list.map((c) => c.id).sort();
+}
+
+test("applyRetention is a no-op when disabled", () => {
+  const commits = [commit("1", 400, "urn:feat:a")];
+  const r = applyRetention(commits, { ...DEFAULT_RETENTION, maxAgeDays: 1 }, NOW);
+  assert.equal(r.archive.length, 0);
+  assert.equal(r.keep.length, 1);
+});
+
+test("maxAgeDays archives old commits but keeps the latest per URN leaf", () => {
+  const commits = [commit("1", 40, "urn:feat:a"), commit("2", 35, "urn:feat:a"), commit("3", 31, "urn:feat:b"), commit("4", 1, "urn:feat:b"), commit("5", 50, null)];
+  const r = applyRetention(commits, { ...DEFAULT_RETENTION, enabled: true, maxAgeDays: 30, keepLatestPerLeaf: 1 }, NOW);
+  // "2" is the newest urn:feat:a commit, so it survives even though it is old.
+  assert.deepEqual(ids(r.archive), ["1", "3", "5"]);
+  assert.deepEqual(ids(r.keep), ["2", "4"]);
+  assert.equal(r.reasons.maxAge, 3);
+});
+
+test("maxPerRoot caps each URN root independently", () => {
+  const commits = [commit("1", 4, "urn:feat:a"), commit("2", 3, "urn:feat:b"), commit("3", 2, "urn:feat:a"), commit("4", 1, "urn:test:x"), commit("5", 5, "urn:test:x")];
+  const r = applyRetention(commits, { ...DEFAULT_RETENTION, enabled: true, maxPerRoot: 2, keepLatestPerLeaf: 0 }, NOW);
+  assert.deepEqual(ids(r.archive), ["1"]);
+  assert.equal(r.reasons.maxPerRoot, 1);
+});
+
+test("subtree limits only apply under their prefix", () => {
+  const commits = [commit("1", 3, "urn:feat:sessions:a"), commit("2", 2, "urn:feat:sessions:b"), commit("3", 1, "urn:feat:sessions:a"), commit("4", 9, "urn:feat:other")];
+  const r = applyRetention(commits, { ...DEFAULT_RETENTION, enabled: true, subtreeLimits: [{ prefix: "urn:feat:sessions", max: 1 }], keepLatestPerLeaf: 1 }, NOW);
+  // newest per leaf: 3 (a) and 2 (b) are protected; 1 is over the cap.
+  assert.deepEqual(ids(r.archive), ["1"]);
+  assert.equal(r.reasons.subtree, 1);
+});
+
+test("archiveFilename embeds timestamp and count", () => {
+  assert.equal(archiveFilename("session-download-commits", "2026-02-10T01:02:03.456Z", 12), "session-download-commits/archive-20260210-010203-12.json");
+});
+
+if (process.exitCode) process.exit(process.exitCode);
+console.log("All retention unit tests passed.");
@@ -0,0 +1,96 @@
+import assert from "node:assert/strict";
+
+// NOTE: This script runs after `tsc`, so it imports from dist/.
+import { commitMatches } from "../dist/lib/query.js";
+import { buildSavedRoot, isSavedNodeId, normalizeSavedSearches, SAVED_ROOT, savedSearchesLimitError, savedSearchId } from "../dist/lib/savedSearches.js";
+import { commitRec } from "./fixtures.mjs";
+
+function test(name, fn) {
+  try {
+    fn();
+    console.log(`ok - ${name}`);
+  } catch (e) {
+    console.error(`FAIL - ${name}`);
+    console.error(e);
+    process.exitCode = 1;
+  }
+}
+
+const SESSIONS = {
+  a: { id: "a", url: "https://chatgpt.com/c/1", title: "Tree", createdAt: "2026-02-10T00:00:00.000Z", lastSeenAt: "2026-02-10T00:00:00.000Z", lastDownloadAt: null, downloadCount: 2 },
+  b: { id: "b", url: "https://claude.ai/chat/2", title: "Notes", createdAt: "2026-02-10T00:00:00.000Z", lastSeenAt: "2026-02-10T00:00:00.000Z", lastDownloadAt: null, downloadCount: 1 }
+};
+
+function commit(id, sessionId, filename, urn, over = {}) {
+  return commitRec({ id, sessionId, filename, urn, ...over });
+}
+
+const COMMITS = [
+  commit("1", "a", "urn__feat__sessions__a.zip", "urn:feat:sessions:a", { capturedAt: "2026-02-11T03:00:00.000Z" }),
+  commit("2", "a", "urn__feat__sessions__b.pdf", "urn:feat:sessions:b", { state: "interrupted", error: "NETWORK_FAILED" }),
+  commit("3", "b", "urn__test__x.zip", "urn:test:x")
+];
+
+function search(q) {
+  return COMMITS.filter((c) => commitMatches(q, c, SESSIONS[c.sessionId]));
+}
+
+test("saved searches are cleaned, deduplicated by name and sorted", () => {
+  const got = normalizeSavedSearches([
+    { name: "  zips  ", query: " file:.zip ", savedAt: "2026-02-01T00:00:00.000Z" },
+    { name: "Feat", query: "urn:^feat" },
+    { name: "feat", query: "urn:^feat:sessions" },
+    { name: "cmd", query: ">backup" },
+    { name: "", query: "x" },
+    { name: "empty", query: "  " },
+    null
+  ]);
+  assert.deepEqual(got, [
+    { name: "feat", query: "urn:^feat:sessions", savedAt: "" },
+    { name: "zips", query: "file:.zip", savedAt: "2026-02-01T00:00:00.000Z" }
+  ]);
+  assert.deepEqual(normalizeSavedSearches("nope"), []);
+});
+
+test("saved search lists over the count or sync item size are refused", () => {
+  const list = (n, query) => Array.from({ length: n }, (_, i) => ({ name: `s${i}`, query, savedAt: "2026-02-01T00:00:00.000Z" }));
+  assert.equal(savedSearchesLimitError(list(50, "file:.zip")), null);
+  assert.match(savedSearchesLimitError(list(51, "file:.zip")), /too many saved searches \(at most 50\)/);
+  // 20 queries of 1000 characters are well over the 8192-byte item.
+  assert.match(savedSearchesLimitError(list(20, "x".repeat(1000))), /bytes \(at most 7680\)/);
+  assert.equal(savedSearchesLimitError(list(5, "x".repeat(1000))), null);
+});
+
+test("saved node ids never collide with urn prefixes", () => {
+  assert.equal(savedSearchId("My  Zips"), `${SAVED_ROOT}:my zips`);
+  assert.equal(isSavedNodeId(SAVED_ROOT), true);
+  assert.equal(isSavedNodeId(savedSearchId("x")), true);
+  assert.equal(isSavedNodeId("urn:feat"), false);
+  assert.equal(isSavedNodeId("__unknown__"), false);
+});
+
+test("the Saved root counts each search live and the root counts distinct commits", () => {
+  const saved = normalizeSavedSearches([
+    { name: "zips", query: "file:.zip" },
+    { name: "sessions", query: "urn:^feat:sessions" },
+    { name: "broken", query: "(unclosed" }
+  ]);
+  const root = buildSavedRoot(saved, search);
+  assert.equal(root.id, SAVED_ROOT);
+  assert.equal(root.label, "Saved");
+  const leaf = Object.fromEntries(root.children.map((n) => [n.label, n]));
+  assert.deepEqual(root.children.map((n) => n.label), ["broken", "sessions", "zips"]);
+  assert.equal(leaf.zips.commitCount, 2);
+  assert.equal(leaf.zips.sessionCount, 2);
+  assert.equal(leaf.sessions.commitCount, 2);
+  assert.equal(leaf.sessions.failedCount, 1);
+  assert.equal(leaf.sessions.lastAt, "2026-02-11T03:00:00.000Z");
+  assert.equal(leaf.broken.commitCount, 0);
+  assert.equal(leaf.zips.depth, 1);
+  assert.equal(root.commitCount, 3);
+  assert.equal(root.sessionCount, 2);
+  assert.equal(buildSavedRoot([], search), null);
+});
+
+if (process.exitCode) process.exit(process.exitCode);
+console.log("All saved searches unit tests passed.");
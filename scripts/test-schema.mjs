@@ -0,0 +1,128 @@
+import assert from "node:assert/strict";
+
+// NOTE: This script runs after `tsc`, so it imports from dist/.
+import { runMigrations, formatMigrationReport, SCHEMA_VERSION } from "../dist/lib/schema.js";
+
+function test(name, fn) {
+  try {
+    fn();
+    console.log(`ok - ${name}`);
+  } catch (e) {
+    console.error(`FAIL - ${name}`);
+    console.error(e);
+    process.exitCode = 1;
+  }
+}
+
+// Shape written by 0.5.x: no schemaVersion, records as produced by sw.ts at the time.
+function rawV05() {
+  return {
+    sessions: {
+      aaa: { id: "aaa", url: "https://chatgpt.com/c/a", title: "A", createdAt: "2026-02-10T00:00:00.000Z", lastSeenAt: "2026-02-10T00:00:00.000Z", lastDownloadAt: null, downloadCount: 1 },
+      bbb: { id: "bbb", url: "https://chatgpt.com/c/b", title: null, lastSeenAt: "2026-02-11T00:00:00.000Z" },
+      broken: { id: "broken", title: "no url" }
+    },
+    commits: [
+      { id: "1", sessionId: "aaa", sessionUrl: "https://chatgpt.com/c/a", capturedAt: "2026-02-10T01:00:00.000Z", startTime: null, endTime: null, state: "complete", filename: "urn__feat__a.zip", url: null, finalUrl: null, referrer: null, mime: null, totalBytes: 10, urn: "urn:feat:a", urnSource: "filename:urn__" },
+      { id: 2, sessionId: "bbb", capturedAt: "2026-02-11T01:00:00.000Z", filename: "x.zip", totalBytes: "12" },
+      { id: "1", sessionId: "aaa", sessionUrl: "https://chatgpt.com/c/a", capturedAt: "2026-02-10T01:00:00.000Z", startTime: null, endTime: "2026-02-10T01:00:05.000Z", state: "complete", filename: "urn__feat__a.zip", url: null, finalUrl: null, referrer: null, mime: null, totalBytes: 10, urn: "urn:feat:a", urnSource: "filename:urn__" },
+      { sessionId: "aaa" },
+      "garbage"
+    ],
+    pending: { "9": { id: "9" } },
+    ui: { query: "urn:feat" }
+  };
+}
+
+test("runMigrations upgrades raw v0.5 data to the current schema", () => {
+  const res = runMigrations(rawV05());
+  assert.equal(res.from, 0);
+  assert.equal(res.to, SCHEMA_VERSION);
+
+  assert.deepEqual(Object.keys(res.data.sessions), ["aaa", "bbb"]);
+  assert.deepEqual(res.data.sessions.bbb, { id: "bbb", url: "https://chatgpt.com/c/b", title: null, createdAt: "2026-02-11T00:00:00.000Z", lastSeenAt: "2026-02-11T00:00:00.000Z", lastDownloadAt: null, downloadCount: 0 });
+
+  const ms = (iso) => Date.parse(iso);
+  assert.deepEqual(res.data.commits.map((c) => c.id), [`legacy-2-${ms("2026-02-11T01:00:00.000Z")}`, `legacy-1-${ms("2026-02-10T01:00:00.000Z")}`]);
+  assert.deepEqual(res.data.commits.map((c) => c.downloadId), [2, 1]);
+  const c2 = res.data.commits[0];
+  assert.equal(c2.totalBytes, null);
+  assert.equal(c2.urn, null);
+  assert.equal(c2.url, null);
+  assert.equal(res.data.commits[1].endTime, "2026-02-10T01:00:05.000Z");
+
+  assert.deepEqual(res.data.pending, { "9": { id: "9" } });
+  assert.deepEqual(res.data.ui, { query: "urn:feat" });
+});
+
+test("runMigrations reports each change (dry-run report)", () => {
+  const res = runMigrations(rawV05());
+  const changes = res.steps[0].changes.join("\n");
+  assert.match(changes, /sessions: dropped 1 record without url/);
+  assert.match(changes, /commits: dropped 2 records without id/);
+  assert.match(changes, /commits: removed 1 duplicate id/);
+  assert.match(formatMigrationReport(res), /schema v0 -> v\d+/);
+});
+
+test("runMigrations v1 -> v2 moves commits to IndexedDB without changing records", () => {
+  const v1 = runMigrations(rawV05()).data;
+  const res = runMigrations({ schemaVersion: 1, ...v1 });
+  assert.deepEqual(res.steps.map((s) => s.version), [2, 3, 4]);
+  assert.match(res.steps[0].changes[0], /move 2 records from storage\.local to IndexedDB/);
+  assert.deepEqual(res.data.commits, v1.commits);
+});
+
+test("runMigrations v2 -> v3 re-keys bare download ids", () => {
+  const base = { sessionId: null, sessionUrl: null, endTime: null, state: "complete", filename: null, url: null, finalUrl: null, referrer: null, mime: null, totalBytes: null, urn: null, urnSource: null };
+  // What a v2 store holds: one record per bare download id (the store key).
+  const commits = [
+    { ...base, id: "7", capturedAt: "2026-01-01T00:00:05.000Z", startTime: "2026-01-01T00:00:00.000Z" },
+    { ...base, id: "8", capturedAt: "2026-03-01T00:00:00.000Z", startTime: "2026-03-01T00:00:00.000Z" },
+    // Written before startTime was recorded: capturedAt stands in.
+    { ...base, id: "12", capturedAt: "2026-03-02T00:00:00.000Z", startTime: null }
+  ];
+  const res = runMigrations({ schemaVersion: 2, sessions: {}, commits });
+  assert.deepEqual(res.steps.map((s) => s.version), [3, 4]);
+  assert.deepEqual(res.data.commits.map((c) => c.id), [
+    `legacy-7-${Date.parse("2026-01-01T00:00:00.000Z")}`,
+    `legacy-8-${Date.parse("2026-03-01T00:00:00.000Z")}`,
+    `legacy-12-${Date.parse("2026-03-02T00:00:00.000Z")}`
+  ]);
+  assert.deepEqual(res.data.commits.map((c) => c.downloadId), [7, 8, 12]);
+  assert.deepEqual(res.steps[0].changes, ["commits: re-keyed 3 records to unique ids"]);
+
+  // Idempotent: running v3 again over its own output changes nothing.
+  assert.match(res.steps[1].changes[0], /added lifecycle fields to 3 records/);
+  assert.equal(res.data.commits[0].erasedAt, null);
+
+  const again = runMigrations({ schemaVersion: 2, sessions: {}, commits: res.data.commits });
+  assert.deepEqual(again.data.commits, res.data.commits);
+  assert.deepEqual(again.steps[0].changes, []);
+});
+
+test("runMigrations does not mutate its input", () => {
+  const raw = rawV05();
+  const before = JSON.stringify(raw);
+  runMigrations(raw);
+  assert.equal(JSON.stringify(raw), before);
+});
+
+test("runMigrations is a no-op at the current version and on empty storage", () => {
+  const cur = runMigrations({ schemaVersion: SCHEMA_VERSION, sessions: {}, commits: [] });
+  assert.equal(cur.steps.length, 0);
+  assert.match(formatMigrationReport(cur), /up to date/);
+
+  const empty = runMigrations({});
+  assert.equal(empty.to, SCHEMA_VERSION);
+  assert.ok(empty.steps.every((s) => s.changes.length === 0));
+  assert.deepEqual(empty.data.commits, []);
+});
+
+test("runMigrations leaves data from a newer build alone", () => {
+  const res = runMigrations({ schemaVersion: SCHEMA_VERSION + 1, commits: [] });
+  assert.equal(res.steps.length, 0);
+  assert.match(formatMigrationReport(res), /newer than this build/);
+});
+
+if (process.exitCode) process.exit(process.exitCode);
+console.log("All schema unit tests passed.");
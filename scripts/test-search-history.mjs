@@ -0,0 +1,91 @@
+import assert from "node:assert/strict";
+
+// NOTE: This script runs after `tsc`, so it imports from dist/.
+import { clearSearchHistory, MAX_HISTORY, MAX_PINNED, mergeSearchHistory, normalizeSearchHistory, recordSearch, setPinned } from "../dist/lib/searchHistory.js";
+
+function test(name, fn) {
+  try {
+    fn();
+    console.log(`ok - ${name}`);
+  } catch (e) {
+    console.error(`FAIL - ${name}`);
+    console.error(e);
+    process.exitCode = 1;
+  }
+}
+
+function at(n) {
+  return new Date(Date.UTC(2026, 1, 10, 0, n)).toISOString();
+}
+
+function queries(list) {
+  return list.map((e) => e.query);
+}
+
+test("recording moves a query to the front and counts uses", () => {
+  let h = [];
+  h = recordSearch(h, "file:.zip", 4, at(1));
+  h = recordSearch(h, "urn:^feat", 10, at(2));
+  h = recordSearch(h, "  file:.zip  ", 3, at(3));
+  assert.deepEqual(queries(h), ["file:.zip", "urn:^feat"]);
+  assert.deepEqual(h[0], { query: "file:.zip", lastAt: at(3), uses: 2, hits: 3, pinned: false });
+  // Commands and blanks are not searches.
+  assert.equal(recordSearch(h, ">backup", 0, at(4)), h);
+  assert.equal(recordSearch(h, "  ", 0, at(4)), h);
+});
+
+test("history is bounded; pinned entries come first and are kept", () => {
+  let h = [];
+  h = recordSearch(h, "keep me", 1, at(0));
+  h = setPinned(h, "keep me", true).list;
+  for (let i = 1; i <= MAX_HISTORY + 5; i += 1) h = recordSearch(h, `q${i}`, i, at(i));
+  assert.equal(h.length, MAX_HISTORY + 1);
+  assert.equal(h[0].query, "keep me");
+  assert.equal(h[1].query, `q${MAX_HISTORY + 5}`);
+  assert.equal(h.at(-1).query, "q6");
+});
+
+test("pinning needs a history entry and is capped", () => {
+  let h = [];
+  for (let i = 0; i < MAX_PINNED + 1; i += 1) h = recordSearch(h, `q${i}`, 0, at(i));
+  assert.match(setPinned(h, "nope", true).error, /not in history/);
+  for (let i = 0; i < MAX_PINNED; i += 1) h = setPinned(h, `q${i}`, true).list;
+  assert.match(setPinned(h, `q${MAX_PINNED}`, true).error, new RegExp(`at most ${MAX_PINNED}`));
+  h = setPinned(h, "q0", false).list;
+  assert.equal(h.find((e) => e.query === "q0").pinned, false);
+  assert.equal(setPinned(h, `q${MAX_PINNED}`, true).error, null);
+});
+
+test("clearing keeps pinned entries unless all are cleared", () => {
+  let h = recordSearch(recordSearch([], "a", 0, at(1)), "b", 0, at(2));
+  h = setPinned(h, "a", true).list;
+  assert.deepEqual(queries(clearSearchHistory(h, true)), ["a"]);
+  assert.deepEqual(clearSearchHistory(h, false), []);
+});
+
+test("stored history is cleaned and deduplicated", () => {
+  const got = normalizeSearchHistory([
+    { query: "a", lastAt: at(1), uses: 2, hits: 5 },
+    { query: "a", lastAt: at(3), uses: "4", hits: -1, pinned: "yes" },
+    { query: ">clear", lastAt: at(2) },
+    { query: "" },
+    null
+  ]);
+  assert.deepEqual(got, [{ query: "a", lastAt: at(3), uses: 4, hits: 0, pinned: false }]);
+  assert.deepEqual(normalizeSearchHistory({}), []);
+});
+
+test("merging a restored history combines same queries", () => {
+  const cur = [{ query: "a", lastAt: at(1), uses: 5, hits: 1, pinned: false }];
+  const inc = [
+    { query: "a", lastAt: at(2), uses: 2, hits: 9, pinned: true },
+    { query: "b", lastAt: at(0), uses: 1, hits: 0, pinned: false }
+  ];
+  assert.deepEqual(mergeSearchHistory(cur, inc), [
+    { query: "a", lastAt: at(2), uses: 5, hits: 9, pinned: true },
+    { query: "b", lastAt: at(0), uses: 1, hits: 0, pinned: false }
+  ]);
+});
+
+if (process.exitCode) process.exit(process.exitCode);
+console.log("All search history unit tests passed.");
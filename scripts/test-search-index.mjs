@@ -0,0 +1,195 @@
+import assert from "node:assert/strict";
+
+// NOTE: This script runs after `tsc`, so it imports from dist/.
+import { commitMatches, parseQuery } from "../dist/lib/query.js";
+import {
+  commitsForSession,
+  createSearchIndex,
+  indexCommits,
+  indexedCommits,
+  rebuildSearchIndex,
+  removeCommits,
+  searchCommits,
+  sessionCounts
+} from "../dist/lib/searchIndex.js";
+
+function test(name, fn) {
+  try {
+    fn();
+    console.log(`ok - ${name}`);
+  } catch (e) {
+    console.error(`FAIL - ${name}`);
+    console.error(e);
+    process.exitCode = 1;
+  }
+}
+
+// Deterministic pseudo-random data (mulberry32).
+function rng(seed) {
+  let a = seed;
+  return () => {
+    a = (a + 0x6d2b79f5) | 0;
+    let t = Math.imul(a ^ (a >>> 15), 1 | a);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+const HOSTS = ["chatgpt.com", "claude.ai", "github.com", "example.org"];
+const WORDS = ["tree", "sessions", "chrome", "panel", "report", "export", "cli", "index"];
+const EXTS = ["zip", "pdf", "tar.gz", "png", "jsonl"];
+
+function makeSessions(n) {
+  const out = {};
+  for (let i = 0; i < n; i += 1) {
+    const host = HOSTS[i % HOSTS.length];
+    out[`s${i}`] = { id: `s${i}`, url: `https://${host}/c/${i}`, title: `${WORDS[i % WORDS.length]} chat ${i}`, createdAt: "2026-01-01T00:00:00.000Z", lastSeenAt: "2026-01-01T00:00:00.000Z", lastDownloadAt: null, downloadCount: 0 };
+  }
+  return out;
+}
+
+function makeCommits(n, sessionCount, seed = 1) {
+  const r = rng(seed);
+  const pick = (arr) => arr[Math.floor(r() * arr.length)];
+  const out = [];
+  for (let i = 0; i < n; i += 1) {
+    const depth = 1 + Math.floor(r() * 3);
+    const segs = Array.from({ length: depth }, () => pick(WORDS));
+    const known = r() < 0.7;
+    const urn = known ? `urn:${r() < 0.8 ? "feat" : "test"}:${segs.join(":")}` : null;
+    const ext = pick(EXTS);
+    const filename = known ? `/dl/${urn.replaceAll(":", "__")}.${ext}` : `/dl/${pick(WORDS)} ${i}.${ext}`;
+    const host = pick(HOSTS);
+    const at = new Date(2026, 0, 1 + Math.floor(r() * 60), Math.floor(r() * 24)).toISOString();
+    out.push({
+      id: `p1-${i}-0`, downloadId: i, sessionId: r() < 0.95 ? `s${Math.floor(r() * sessionCount)}` : null, sessionUrl: null,
+      capturedAt: at, startTime: at, endTime: null, state: r() < 0.9 ? "complete" : "interrupted",
+      filename, url: `https://${host}/files/${i}.${ext}`, finalUrl: null, referrer: `https://${pick(HOSTS)}/`,
+      mime: ext === "png" ? "image/png" : "application/octet-stream", totalBytes: Math.floor(r() * 50 * 1024 * 1024),
+      urn, urnSource: known ? "filename:urn__" : null,
+      error: null, danger: null, paused: null, canResume: null, bytesReceived: null, exists: null, erasedAt: null
+    });
+  }
+  return out;
+}
+
+const NOW = new Date(2026, 1, 15, 12).getTime();
+
+const QUERIES = [
+  "", "tree", "chrome panel", "file:.pdf", "ext:tar.gz", "urn:^feat:sessions", "urn:feat:*:chrome",
+  "urn:feat:sessions:**", "urn:**:panel", "urn:^test", "is:unknown", "-is:unknown", "session:claude",
+  "host:github", "host:chatgpt file:.zip", "on:2026-01-15", "after:2026-02-01 before:2026-02-10",
+  "this:month", "after:7d", "state:interrupted OR ext:png", "(urn:tree OR urn:cli) -ext:zip",
+  "report", "\"report 1\"", "mime:image", "size:>40mb", "depth:3", "source:filename", "zz", "nothing-matches-this",
+  "tree OR -chrome", "-(file:.zip OR file:.pdf)"
+];
+
+function brute(commits, sessions, q) {
+  return commits.filter((c) => c.sessionId && sessions[c.sessionId] && commitMatches(q, c, sessions[c.sessionId]));
+}
+
+function ids(list) {
+  return list.map((c) => c.id).sort();
+}
+
+test("searchCommits returns exactly what a full scan returns", () => {
+  const sessions = makeSessions(40);
+  const commits = makeCommits(3000, 40);
+  const idx = createSearchIndex();
+  rebuildSearchIndex(idx, commits);
+  for (const s of QUERIES) {
+    const q = parseQuery(s, { now: NOW });
+    assert.equal(q.error, null, s);
+    assert.deepEqual(ids(searchCommits(idx, q, sessions)), ids(brute(commits, sessions, q)), s);
+  }
+});
+
+test("fuzzy searches return what a fuzzy full scan returns", () => {
+  const sessions = makeSessions(40);
+  const commits = makeCommits(1500, 40);
+  const idx = createSearchIndex();
+  rebuildSearchIndex(idx, commits);
+  for (const s of ["trea", "sesions", "file:chrme", "session:claud", "host:github repotr", "urn:^feat panle", "-expotr"]) {
+    const q = parseQuery(s, { now: NOW });
+    const want = commits.filter((c) => c.sessionId && sessions[c.sessionId] && commitMatches(q, c, sessions[c.sessionId], { fuzzy: true }));
+    assert.deepEqual(ids(searchCommits(idx, q, sessions, { fuzzy: true })), ids(want), s);
+  }
+});
+
+test("commits with very long URLs are still found by substring terms", () => {
+  const sessions = makeSessions(1);
+  const [base] = makeCommits(1, 1);
+  const long = { ...base, id: "long", sessionId: "s0", url: `https://cdn.example.org/x?sig=${"a".repeat(2000)}needle` };
+  const idx = createSearchIndex();
+  indexCommits(idx, [base, long]);
+  assert.deepEqual(ids(searchCommits(idx, parseQuery("needle"), sessions)), ["long"]);
+  assert.deepEqual(ids(searchCommits(idx, parseQuery("file:aaaneedle"), sessions)), ["long"]);
+});
+
+test("parse errors match nothing", () => {
+  const idx = createSearchIndex();
+  rebuildSearchIndex(idx, makeCommits(10, 2));
+  assert.deepEqual(searchCommits(idx, parseQuery("(tree"), makeSessions(2)), []);
+});
+
+test("incremental updates and removals stay consistent with a rebuild", () => {
+  const sessions = makeSessions(10);
+  let commits = makeCommits(1500, 10, 7);
+  const idx = createSearchIndex();
+  indexCommits(idx, commits);
+
+  // Change urns/filenames of some commits, drop others, add new ones (enough to trigger compaction).
+  const changed = commits.slice(0, 1200).map((c, i) => ({ ...c, urn: i % 2 ? null : "urn:feat:moved:here", filename: `/dl/moved ${i}.zip`, sessionId: "s1" }));
+  indexCommits(idx, changed);
+  const removed = commits.slice(1200, 1300).map((c) => c.id);
+  removeCommits(idx, removed);
+  const added = makeCommits(50, 10, 99).map((c) => ({ ...c, id: `p2-${c.downloadId}-0` }));
+  indexCommits(idx, added);
+
+  const byId = new Map(commits.map((c) => [c.id, c]));
+  for (const c of changed) byId.set(c.id, c);
+  for (const id of removed) byId.delete(id);
+  for (const c of added) byId.set(c.id, c);
+  commits = [...byId.values()];
+
+  for (const s of [...QUERIES, "urn:^feat:moved", "moved", "file:moved"]) {
+    const q = parseQuery(s, { now: NOW });
+    assert.deepEqual(ids(searchCommits(idx, q, sessions)), ids(brute(commits, sessions, q)), s);
+  }
+  assert.deepEqual(ids(commitsForSession(idx, "s1")), ids(commits.filter((c) => c.sessionId === "s1")));
+  assert.deepEqual(ids(indexedCommits(idx)), ids(commits));
+});
+
+test("per-session counts follow upserts and removals", () => {
+  const idx = createSearchIndex();
+  const base = makeCommits(3, 1).map((c, i) => ({ ...c, sessionId: "s0", urn: i === 0 ? null : `urn:feat:a${i}` }));
+  indexCommits(idx, base);
+  assert.deepEqual(sessionCounts(idx, "s0"), { total: 3, known: 2, unknown: 1 });
+  indexCommits(idx, [{ ...base[0], urn: "urn:feat:now-known" }]);
+  assert.deepEqual(sessionCounts(idx, "s0"), { total: 3, known: 3, unknown: 0 });
+  removeCommits(idx, [base[1].id, "missing"]);
+  assert.deepEqual(sessionCounts(idx, "s0"), { total: 2, known: 2, unknown: 0 });
+  indexCommits(idx, [{ ...base[2], sessionId: "s9" }]);
+  assert.deepEqual(sessionCounts(idx, "s0"), { total: 1, known: 1, unknown: 0 });
+  assert.deepEqual(sessionCounts(idx, "s9"), { total: 1, known: 1, unknown: 0 });
+  assert.deepEqual(sessionCounts(idx, "nope"), { total: 0, known: 0, unknown: 0 });
+});
+
+test("narrow queries over 50k commits stay within a keystroke budget", () => {
+  const sessions = makeSessions(500);
+  const idx = createSearchIndex();
+  rebuildSearchIndex(idx, makeCommits(50000, 500, 3));
+  const narrow = ["urn:^feat:sessions:chrome:panel", "file:\"panel 123\"", "is:unknown on:2026-01-15 ext:pdf", "host:github report 4711"];
+  for (const s of narrow) {
+    const q = parseQuery(s, { now: NOW });
+    searchCommits(idx, q, sessions);
+    const t0 = performance.now();
+    for (let i = 0; i < 5; i += 1) searchCommits(idx, q, sessions);
+    const ms = (performance.now() - t0) / 5;
+    // Generous bound for slow CI machines; the target in the panel is 16ms.
+    assert.ok(ms < 50, `${s}: ${ms.toFixed(1)}ms`);
+  }
+});
+
+if (process.exitCode) process.exit(process.exitCode);
+console.log("All search index unit tests passed.");
@@ -0,0 +1,109 @@
+import assert from "node:assert/strict";
+
+// NOTE: This script runs after `tsc`, so it imports from dist/.
+import { applySuggestion, suggestAt } from "../dist/lib/suggest.js";
+import { buildUrnContainerTree } from "../dist/lib/tree.js";
+import { commitRec } from "./fixtures.mjs";
+
+function test(name, fn) {
+  try {
+    fn();
+    console.log(`ok - ${name}`);
+  } catch (e) {
+    console.error(`FAIL - ${name}`);
+    console.error(e);
+    process.exitCode = 1;
+  }
+}
+
+function commit(id, urn) {
+  return commitRec({ id, sessionId: "a", filename: `${id}.zip`, urn });
+}
+
+function session(id, title, url) {
+  return { id, url, title, createdAt: "2026-02-10T00:00:00.000Z", lastSeenAt: "2026-02-10T00:00:00.000Z", lastDownloadAt: null, downloadCount: 0 };
+}
+
+const SESSIONS = {
+  a: session("a", "Refactor tree", "https://chatgpt.com/c/1"),
+  b: session("b", "Release notes", "https://chatgpt.com/c/2"),
+  c: session("c", "Notes", "https://claude.ai/chat/3")
+};
+
+const COMMITS = [
+  commit("1", "urn:feat:sessions:chrome"),
+  commit("2", "urn:feat:sessions:chrome"),
+  commit("3", "urn:feat:sessions:cli"),
+  commit("4", "urn:feat:search"),
+  commit("5", "urn:test:sessions:panel"),
+  commit("6", null)
+];
+
+const CTX = { model: buildUrnContainerTree(COMMITS, SESSIONS, { includeUnknown: true }), sessions: SESSIONS, now: new Date(2026, 1, 15, 12).getTime() };
+
+// Suggestions with the cursor at "|" (default: end of input).
+function at(s) {
+  const cursor = s.includes("|") ? s.indexOf("|") : s.length;
+  return suggestAt(s.replace("|", ""), cursor, CTX);
+}
+
+function texts(s) {
+  const r = at(s);
+  return r ? r.items.map((i) => i.text) : [];
+}
+
+test("keys complete from the supported set", () => {
+  assert.deepEqual(texts("se"), ["session:"]);
+  assert.deepEqual(texts("d"), ["depth:"]);
+  assert.ok(texts("s").includes("size:") && texts("s").includes("state:"));
+  assert.deepEqual(texts("zzz"), []);
+  assert.equal(at(""), null);
+  assert.equal(at("tree "), null);
+});
+
+test("urn values offer the segments that exist below the typed path", () => {
+  assert.deepEqual(texts("urn:"), ["urn:feat", "urn:test"]);
+  assert.deepEqual(texts("urn:feat:"), ["urn:feat:sessions", "urn:feat:search"]);
+  assert.deepEqual(texts("urn:feat:sessions:c"), ["urn:feat:sessions:chrome", "urn:feat:sessions:cli"]);
+  assert.deepEqual(at("urn:feat:sessions:").items.map((i) => i.count), [2, 1]);
+  assert.deepEqual(texts("urn:^feat/se"), ["urn:^feat:sessions", "urn:^feat:search"]);
+  assert.deepEqual(texts("urn:*:sessions:"), []);
+  assert.deepEqual(texts("urn:feat:*:"), ["urn:feat:*:chrome", "urn:feat:*:cli"]);
+  assert.deepEqual(texts("urn:nope:"), []);
+  // Leaves have nothing below them; a complete term is not offered again.
+  assert.deepEqual(texts("urn:feat:sessions:chrome"), []);
+});
+
+test("session: offers hosts and titles, quoting titles with spaces", () => {
+  assert.deepEqual(texts("session:chat"), ["session:chatgpt.com"]);
+  assert.deepEqual(texts("session:note"), ["session:Notes", 'session:"Release notes"']);
+  assert.deepEqual(texts('session:"refac'), ['session:"Refactor tree"']);
+  assert.equal(at("session:").items[0].text, "session:chatgpt.com");
+});
+
+test("date keys offer shortcuts valid for the key", () => {
+  assert.deepEqual(texts("on:"), ["on:today", "on:yesterday", "on:2026-02-15", "on:2026-02", "this:week", "this:month"]);
+  assert.deepEqual(texts("after:7"), ["after:7d"]);
+  assert.deepEqual(texts("this:w"), ["this:week"]);
+  assert.deepEqual(texts("is:f"), ["is:failed"]);
+});
+
+test("the term under the cursor is completed, not the last one", () => {
+  const r = at("file:.zip urn:fe| -on:today");
+  assert.deepEqual(r.items.map((i) => i.text), ["urn:feat"]);
+  assert.deepEqual(applySuggestion("file:.zip urn:fe -on:today", r, r.items[0]), { value: "file:.zip urn:feat -on:today", cursor: 18 });
+  // The rest of the word past the cursor is replaced too.
+  const mid = at("urn:fe|xx");
+  assert.deepEqual(applySuggestion("urn:fexx", mid, mid.items[0]).value, "urn:feat");
+  // Negated and grouped terms keep their prefix.
+  assert.equal(applySuggestion("-(urn:te", at("-(urn:te"), at("-(urn:te").items[0]).value, "-(urn:test");
+});
+
+test("commands and quoted phrases get no suggestions", () => {
+  assert.equal(at(">back"), null);
+  assert.equal(at('"se'), null);
+  assert.equal(at("note:x"), null);
+});
+
+if (process.exitCode) process.exit(process.exitCode);
+console.log("All suggest unit tests passed.");
@@ -1,7 +1,7 @@
 import assert from "node:assert/strict";
 
 // NOTE: This script runs after `tsc`, so it imports from dist/.
-import { buildUrnContainerTree, prefixToBreadcrumb, matchesUrnPrefix } from "../dist/lib/tree.js";
+import { buildUrnContainerTree, prefixToBreadcrumb, matchesUrnGlob, matchesUrnPrefix, urnDepth } from "../dist/lib/tree.js";
 
 function test(name, fn) {
   try {
@@ -67,5 +67,39 @@ test("matchesUrnPrefix matches canonical urn prefixes safely", () => {
   assert.equal(matchesUrnPrefix("urn:feat:sessionsX", "urn:feat:sessions"), false);
 });
 
+test("matchesUrnGlob matches whole URNs segment by segment", () => {
+  const urn = "urn:feat:sessions:chrome:panel";
+  assert.equal(matchesUrnGlob(urn, "feat:*:chrome:*"), true);
+  assert.equal(matchesUrnGlob(urn, "urn:feat:*:chrome:*"), true);
+  assert.equal(matchesUrnGlob(urn, "feat:*:chrome"), false);
+  assert.equal(matchesUrnGlob(urn, "feat:sessions:**"), true);
+  assert.equal(matchesUrnGlob("urn:feat:sessions", "feat:sessions:**"), true);
+  assert.equal(matchesUrnGlob("urn:feat:sessionsx:a", "feat:sessions:**"), false);
+  assert.equal(matchesUrnGlob(urn, "**:panel"), true);
+  assert.equal(matchesUrnGlob(urn, "feat:sess*:chrom*:**"), true);
+  assert.equal(matchesUrnGlob(urn, "feat/sessions/**"), true);
+  assert.equal(matchesUrnGlob(urn, "test:**"), false);
+  assert.equal(matchesUrnGlob("not-a-urn", "**"), false);
+});
+
+test("buildUrnContainerTree orders roots by the configured namespaces", () => {
+  const commit = (id, urn) => ({ id, sessionId: null, sessionUrl: null, capturedAt: "2026-02-10T01:00:00.000Z", startTime: null, endTime: null, state: "complete", filename: "x.zip", url: null, finalUrl: null, referrer: null, mime: null, totalBytes: null, urn, urnSource: "t" });
+  const commits = [commit("1", "urn:feat:a"), commit("2", "urn:test:b"), commit("3", "urn:doc:c"), commit("4", "urn:zeta:d"), commit("5", "urn:alpha:e")];
+
+  const model = buildUrnContainerTree(commits, {}, { namespaces: ["test", "doc", "feat", "empty"] });
+  // Unlisted namespaces of stored URNs follow, by name; empty roots are dropped.
+  assert.deepEqual(model.roots.map((r) => r.id), ["urn:test", "urn:doc", "urn:feat", "urn:alpha", "urn:zeta"]);
+  assert.equal(model.byId.get("urn:doc:c").commitCount, 1);
+  assert.equal(model.parentById.get("urn:alpha:e"), "urn:alpha");
+
+  assert.deepEqual(buildUrnContainerTree(commits, {}).roots.map((r) => r.id), ["urn:feat", "urn:test", "urn:alpha", "urn:doc", "urn:zeta"]);
+});
+
+test("urnDepth counts segments below the namespace root", () => {
+  assert.equal(urnDepth("urn:feat:a"), 1);
+  assert.equal(urnDepth("urn:feat:a:b:c"), 3);
+  assert.equal(urnDepth("nope"), null);
+});
+
 if (process.exitCode) process.exit(process.exitCode);
 console.log("All tree unit tests passed.");
@@ -1,7 +1,8 @@
 import assert from "node:assert/strict";
 
 // NOTE: This script runs after `tsc`, so it imports from dist/.
-import { extractUrnFromFilename, normalizeUrnCandidate } from "../dist/lib/urn.js";
+import { diagnoseFilename, encodeUrnFilename, extractUrnFromDownload, extractUrnFromFilename, extractUrnFromText, isInferredUrnSource, isValidNamespace, normalizeUrnCandidate, traceUrnRules, urnRuleError, urnToSegments } from "../dist/lib/urn.js";
+import { cleanNamespaces, cleanUrnRules, SYNC_URN_RULES } from "../dist/lib/settings.js";
 
 function test(name, fn) {
   try {
@@ -64,5 +65,220 @@ test("extractUrnFromFilename rejects version dots (v0.1.2)", () => {
   assert.equal(r.urn, null);
 });
 
+test("namespaces default to feat and test", () => {
+  assert.equal(normalizeUrnCandidate("urn:doc:guide"), null);
+  assert.equal(extractUrnFromFilename("urn__doc__guide.pdf").urn, null);
+  assert.equal(normalizeUrnCandidate("urn:doc:guide", { namespaces: null }), "urn:doc:guide");
+  assert.equal(normalizeUrnCandidate("urn:feat:a", { namespaces: ["doc"] }), null);
+});
+
+test("configured namespaces are honoured by every filename format", () => {
+  const opts = { namespaces: ["feat", "doc", "spec-v2"] };
+  assert.deepEqual(extractUrnFromFilename("urn__doc__guide__intro.pdf", opts), { urn: "urn:doc:guide:intro", source: "filename:urn__" });
+  assert.deepEqual(extractUrnFromFilename("urn_doc_guide_intro.pdf", opts), { urn: "urn:doc:guide:intro", source: "filename:urn_" });
+  assert.deepEqual(extractUrnFromFilename("urn%3Adoc%3Aguide%3Aintro.pdf", opts), { urn: "urn:doc:guide:intro", source: "filename:urn%3A" });
+  assert.equal(extractUrnFromFilename("urn:doc:guide:intro.pdf", opts).urn, "urn:doc:guide:intro");
+  assert.equal(extractUrnFromFilename("URN__SPEC-V2__api.zip", opts).urn, "urn:spec-v2:api");
+  // test is not in this list.
+  assert.equal(extractUrnFromFilename("urn__test__a.zip", opts).urn, null);
+});
+
+test("the first listed namespace wins when a filename has several tokens", () => {
+  const name = "urn__doc__a-urn__feat__b.zip";
+  assert.equal(extractUrnFromFilename(name, { namespaces: ["feat", "doc"] }).urn, "urn:feat:b");
+  assert.equal(extractUrnFromFilename(name, { namespaces: ["doc", "feat"] }).urn, "urn:doc:a-urn:feat:b");
+});
+
+test("urnToSegments accepts any well-formed namespace", () => {
+  assert.deepEqual(urnToSegments("urn:doc:guide:intro"), { root: "urn:doc", segments: ["guide", "intro"] });
+  assert.equal(urnToSegments("urn:bad_ns:a"), null);
+});
+
+test("namespace names are lower-case alnum and '-'", () => {
+  assert.equal(isValidNamespace("spec-v2"), true);
+  assert.equal(isValidNamespace("doc_x"), false);
+  assert.equal(isValidNamespace("-doc"), false);
+  assert.equal(isValidNamespace(""), false);
+});
+
+test("cleanNamespaces keeps order, dedupes and falls back to the defaults", () => {
+  assert.deepEqual(cleanNamespaces([{ name: "Doc", color: "#AABBCC" }, { name: "feat" }, { name: "doc" }, { name: "bad_ns" }]).map((n) => [n.name, n.color]), [
+    ["doc", "#aabbcc"],
+    ["feat", "#1a8a4a"]
+  ]);
+  assert.deepEqual(cleanNamespaces([]).map((n) => n.name), ["feat", "test"]);
+  assert.deepEqual(cleanNamespaces(undefined).map((n) => n.name), ["feat", "test"]);
+});
+
+const rules = [
+  { name: "proj", pattern: "^PROJ-(\\d+)", template: "urn:feat:proj:$1" },
+  { name: "feature", pattern: "^feature-(?<area>[a-z]+)-(v\\d+)\\.", template: "urn:feat:$<area>:$2" },
+  { name: "broken", pattern: "([", template: "urn:feat:x" }
+];
+
+test("user rules map filenames the built-in formats miss", () => {
+  assert.deepEqual(extractUrnFromFilename("Downloads/PROJ-142_spec.pdf", { rules }), { urn: "urn:feat:proj:142", source: "filename:rule:proj" });
+  assert.deepEqual(extractUrnFromFilename("feature-login-v3.zip", { rules }), { urn: "urn:feat:login:v3", source: "filename:rule:feature" });
+  assert.deepEqual(extractUrnFromFilename("notes.txt", { rules }), { urn: null, source: null });
+});
+
+test("user rules run after the built-in formats", () => {
+  const r = extractUrnFromFilename("PROJ-1_urn__feat__a.zip", { rules });
+  assert.deepEqual(r, { urn: "urn:feat:a", source: "filename:urn__" });
+});
+
+test("a rule whose result is not a valid URN falls through to the next", () => {
+  const opts = { namespaces: ["feat"], rules: [{ name: "doc", pattern: "^(\\w+)-", template: "urn:doc:$1" }, ...rules] };
+  assert.deepEqual(extractUrnFromFilename("PROJ-7.pdf", opts), { urn: "urn:feat:proj:7", source: "filename:rule:proj" });
+  const trace = traceUrnRules("PROJ-7.pdf", opts);
+  assert.deepEqual(trace.map((t) => [t.rule, t.matched, t.expanded, t.urn]), [
+    ["doc", true, "urn:doc:PROJ", null],
+    ["proj", true, "urn:feat:proj:7", "urn:feat:proj:7"],
+    ["feature", false, null, null],
+    ["broken", false, null, null]
+  ]);
+  assert.ok(trace[3].error);
+});
+
+test("urnRuleError reports patterns that do not compile", () => {
+  assert.equal(urnRuleError(rules[0]), null);
+  assert.equal(typeof urnRuleError(rules[2]), "string");
+});
+
+test("cleanUrnRules names, dedupes and drops incomplete rules", () => {
+  const got = cleanUrnRules([
+    { name: "a", pattern: "^x", template: "urn:feat:x" },
+    { name: "a", pattern: "^y", template: "urn:feat:y" },
+    { name: "bad name", pattern: "^z", template: "urn:feat:z" },
+    { name: "empty", pattern: "", template: "urn:feat:z" }
+  ]);
+  assert.deepEqual(got.map((r) => r.name), ["a", "rule2", "rule3"]);
+  assert.deepEqual(cleanUrnRules("nope"), []);
+});
+
+test("cleanUrnRules keeps the rules item under the sync per-item quota", () => {
+  const item = (list) => Buffer.byteLength(SYNC_URN_RULES + JSON.stringify(list));
+  const wide = Array.from({ length: 30 }, (_, i) => ({ name: `r${i}`, pattern: "あ".repeat(200), template: `urn:feat:${"い".repeat(190)}` }));
+  const got = cleanUrnRules(wide);
+  assert.ok(got.length > 0 && got.length < 30);
+  assert.ok(item(got) <= 8192);
+  assert.deepEqual(got, wide.slice(0, got.length));
+  const small = Array.from({ length: 30 }, (_, i) => ({ name: `r${i}`, pattern: `^p${i}-(\\d+)`, template: `urn:feat:p${i}:$1` }));
+  assert.equal(cleanUrnRules(small).length, 30);
+});
+
+test("extractUrnFromText finds tokens in URLs and titles", () => {
+  assert.deepEqual(extractUrnFromText("https://cdn.example/files/urn:feat:sessions:chrome.zip?x=1"), { urn: "urn:feat:sessions:chrome", format: "urn:" });
+  assert.deepEqual(extractUrnFromText("https://x.example/dl?name=urn__feat__a__b&v=2"), { urn: "urn:feat:a:b", format: "urn__" });
+  assert.deepEqual(extractUrnFromText("Refactor tree (urn:test:tree:b) - ChatGPT"), { urn: "urn:test:tree:b", format: "urn:" });
+  assert.equal(extractUrnFromText("urn:doc:a", { namespaces: ["feat"] }), null);
+  assert.equal(extractUrnFromText("no token here"), null);
+});
+
+const SOURCES_ALL = { filename: true, finalUrl: true, url: true, referrer: true, title: true };
+
+test("extractUrnFromText ignores urn inside a word", () => {
+  assert.equal(extractUrnFromText("https://ci.example.com/jobs/return_test_results/artifact"), null);
+  assert.equal(extractUrnFromText("Saturn_feat_rings overview"), null);
+  assert.equal(extractUrnFromText("Saturn_feat_rings overview", { namespaces: ["feat"] }), null);
+  assert.deepEqual(extractUrnFromText("Saturn_feat_rings / urn_feat_rings"), { urn: "urn:feat:rings", format: "urn_" });
+  assert.deepEqual(extractUrnFromText("notes-urn__feat__a"), { urn: "urn:feat:a", format: "urn__" });
+  assert.deepEqual(
+    extractUrnFromDownload({ url: "https://ci.example.com/jobs/return_test_results/artifact", title: "Saturn_feat_rings overview" }, { sources: SOURCES_ALL }),
+    { urn: null, source: null }
+  );
+  assert.equal(extractUrnFromFilename("return_test_results.zip").urn, null);
+});
+
+test("extractUrnFromDownload tries the sources in order", () => {
+  const input = {
+    filename: "/tmp/download.zip",
+    finalUrl: "https://cdn.example/get?name=urn%3Afeat%3Afinal",
+    url: "https://x.example/urn__feat__url.zip",
+    referrer: "https://chatgpt.com/c/urn:feat:ref",
+    title: "urn:feat:title"
+  };
+  assert.deepEqual(extractUrnFromDownload(input, { sources: SOURCES_ALL }), { urn: "urn:feat:final", source: "finalUrl:urn:" });
+  assert.deepEqual(extractUrnFromDownload(input, { sources: { ...SOURCES_ALL, finalUrl: false } }), { urn: "urn:feat:url", source: "url:urn__" });
+  assert.deepEqual(extractUrnFromDownload({ ...input, finalUrl: null, url: null }, { sources: SOURCES_ALL }), { urn: "urn:feat:ref", source: "referrer:urn:" });
+  assert.deepEqual(extractUrnFromDownload({ title: input.title }, { sources: SOURCES_ALL }), { urn: "urn:feat:title", source: "title:urn:" });
+  // Filename first; the default chain is the filename alone.
+  assert.equal(extractUrnFromDownload({ ...input, filename: "urn__feat__file.zip" }, { sources: SOURCES_ALL }).source, "filename:urn__");
+  assert.deepEqual(extractUrnFromDownload(input), { urn: null, source: null });
+  assert.deepEqual(extractUrnFromDownload({ filename: "PROJ-9.pdf" }, { rules }), { urn: "urn:feat:proj:9", source: "filename:rule:proj" });
+});
+
+test("isInferredUrnSource is true for everything but filename sources", () => {
+  assert.equal(isInferredUrnSource("filename:urn__"), false);
+  assert.equal(isInferredUrnSource("filename:rule:proj"), false);
+  assert.equal(isInferredUrnSource("title:urn:"), true);
+  assert.equal(isInferredUrnSource(null), false);
+});
+
+function failureOf(filename, format, opts) {
+  const a = diagnoseFilename(filename, opts).attempts.find((x) => x.format === format);
+  return [a.token, a.failure];
+}
+
+test("diagnoseFilename names the check that failed", () => {
+  assert.deepEqual(failureOf("urn__feat__x-v0.1.2.zip", "filename:urn__"), ["urn__feat__x-v0", "suffix"]);
+  assert.match(diagnoseFilename("urn__feat__x-v0.1.2.zip").attempts[1].detail, /dotted version/);
+  assert.deepEqual(failureOf("urn__feat__abc", "filename:urn__"), ["urn__feat__abc", "suffix"]);
+  assert.match(diagnoseFilename("urn__feat__my file.zip").attempts[1].detail, /ends at a space/);
+  assert.deepEqual(failureOf("urn__doc__a.zip", "filename:urn__"), ["urn__doc__a", "namespace"]);
+  assert.deepEqual(failureOf("urn%3Afeat%3Aa%2Eb.zip", "filename:urn%3A"), ["urn%3Afeat%3Aa%2Eb", "segment"]);
+  assert.deepEqual(failureOf("report.pdf", "filename:urn__"), [null, "not-found"]);
+});
+
+test("diagnoseFilename agrees with extractUrnFromFilename", () => {
+  for (const name of ["urn__feat__a.zip", "urn_feat_a.b_c.zip", "URN__FEAT__Ok.zip", "report.pdf", "urn__feat__x-v0.1.2.zip"]) {
+    const d = diagnoseFilename(name);
+    assert.deepEqual({ urn: d.urn, source: d.source }, extractUrnFromFilename(name), name);
+  }
+  assert.equal(diagnoseFilename("urn__feat__a.zip").suggestion, null);
+});
+
+test("diagnoseFilename reports rules in order", () => {
+  const d = diagnoseFilename("feature-Login-v3.zip", { rules });
+  assert.deepEqual(d.attempts.slice(4).map((a) => [a.format, a.failure]), [
+    ["filename:rule:proj", "rule-no-match"],
+    ["filename:rule:feature", null],
+    ["filename:rule:broken", "rule-pattern"]
+  ]);
+  assert.equal(d.source, "filename:rule:feature");
+});
+
+test("diagnoseFilename suggests a filename that would be accepted", () => {
+  assert.equal(diagnoseFilename("urn__feat__x-v0.1.2.zip").suggestion, "urn__feat__x-v0-1-2.zip");
+  assert.equal(diagnoseFilename("/dl/urn__feat__My File (1).tar.gz").suggestion, "urn__feat__my-file.tar.gz");
+  assert.equal(diagnoseFilename("urn:feat:a b.pdf").suggestion, "urn__feat__a-b.pdf");
+  // Nothing to start from, or a namespace that is not enabled.
+  assert.equal(diagnoseFilename("report.pdf").suggestion, null);
+  assert.equal(diagnoseFilename("urn__feat__abc").suggestion, null);
+  assert.equal(diagnoseFilename("urn__doc__a b.zip").suggestion, null);
+  assert.equal(diagnoseFilename("urn__doc__a b.zip", { namespaces: ["doc"] }).suggestion, "urn__doc__a-b.zip");
+});
+
+test("encodeUrnFilename gives a token that reads back as the same URN", () => {
+  assert.deepEqual(encodeUrnFilename("URN:feat:sessions/chrome:download-commits", "zip"), {
+    urn: "urn:feat:sessions:chrome:download-commits",
+    token: "urn__feat__sessions__chrome__download-commits",
+    filename: "urn__feat__sessions__chrome__download-commits.zip",
+    error: null
+  });
+  assert.equal(encodeUrnFilename("urn:feat:a", ".tar.gz").filename, "urn__feat__a.tar.gz");
+  assert.deepEqual(encodeUrnFilename("urn:feat:a"), { urn: "urn:feat:a", token: "urn__feat__a", filename: null, error: null });
+});
+
+test("encodeUrnFilename explains what it cannot encode", () => {
+  assert.match(encodeUrnFilename("urn:feat:v0.1.2").error, /segment "v0.1.2" contains "."/);
+  assert.match(encodeUrnFilename("urn:doc:a").error, /namespace "doc" is not enabled/);
+  assert.equal(encodeUrnFilename("urn:doc:a", null, { namespaces: ["doc"] }).token, "urn__doc__a");
+  assert.match(encodeUrnFilename("urn:feat:a__b:c").error, /segment "a__b" cannot be written/);
+  assert.match(encodeUrnFilename("urn:feat:a_:c").error, /segment "a_"/);
+  assert.match(encodeUrnFilename("urn:feat:a", "1.zip").error, /not an extension/);
+  assert.match(encodeUrnFilename("feat:a").error, /is not urn:<namespace>:<segments>/);
+});
+
 if (process.exitCode) process.exit(process.exitCode);
 console.log("All unit tests passed.");
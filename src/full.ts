@@ -1,15 +1,25 @@
-import { parseQuery, commitMatches, sessionMatchesWithoutCommits, type CommitRec, type SessionRec } from "./lib/query.js";
+import { parseQuery, commitMatches, sessionMatchesWithoutCommits, type CommitRec, type MatchOptions, type QueryKey, type SessionRec } from "./lib/query.js";
+import { markMatches, needlesFor, queryNeedles, scoreCommit, scoreSession, type Needle } from "./lib/rank.js";
+import { applySuggestion, suggestAt, type Suggestion, type SuggestResult } from "./lib/suggest.js";
+import { DEFAULT_SETTINGS, loadSettings, namespaceNames, saveSettings, urnOptsOf, type SyncSettings } from "./lib/settings.js";
+import { diagnoseFilename, encodeUrnFilename, type FilenameDiagnosis } from "./lib/urn.js";
+import { loadSearchHistory, recordSearch, saveSearchHistory, type SearchHistoryEntry } from "./lib/searchHistory.js";
+import { buildSavedRoot, isSavedNodeId, loadSavedSearches, savedSearchId, SYNC_SAVED_SEARCHES, type SavedSearch } from "./lib/savedSearches.js";
+import { isBrokenCommit, lifecycleLabels } from "./lib/lifecycle.js";
 import { formatLocal, localDateKey } from "./lib/util.js";
+import { getCommits, getCommitsBySession, scanCommits, LOCAL_COMMITS_REV, type CommitsRev } from "./lib/commitStore.js";
+import { createSearchIndex, indexCommits, indexedCommits, removeCommits, searchCommits } from "./lib/searchIndex.js";
 import { buildUrnContainerTree, matchesUrnPrefix, prefixToBreadcrumb, ancestorsInclusive, type TreeModel, type TreeNode } from "./lib/tree.js";
 
 const LOCAL_SESSIONS = "sessions";
-const LOCAL_COMMITS = "commits";
 const LOCAL_UI = "ui";
 
 type LocalState = {
   sessions: Record<string, SessionRec>;
-  commits: CommitRec[];
   uiQuery: string;
+  settings: SyncSettings;
+  savedSearches: SavedSearch[];
+  searchHistory: SearchHistoryEntry[];
 };
 
 function $(id: string): HTMLElement {
@@ -19,13 +29,40 @@ function $(id: string): HTMLElement {
 }
 
 const input = $("q") as HTMLInputElement;
+const qErrorHost = $("qError");
+const suggestHost = $("suggest");
 const crumbsHost = $("crumbs");
 const treeHost = $("tree");
 const sessionsHost = $("sessions");
 const detailsHost = $("details");
+const encUrn = $("encUrn") as HTMLInputElement;
+const encExt = $("encExt") as HTMLInputElement;
+const encCopy = $("encCopy") as HTMLButtonElement;
+const encOut = $("encOut");
+const chkName = $("chkName") as HTMLInputElement;
+const chkOut = $("chkOut");
 const commitsHost = $("commits");
+const rankedBox = $("ranked") as HTMLInputElement;
 
-let state: LocalState = { sessions: {}, commits: [], uiQuery: "" };
+let state: LocalState = { sessions: {}, uiQuery: "", settings: DEFAULT_SETTINGS, savedSearches: [], searchHistory: [] };
+
+// Commits matched by the current search (recorded with it in the history), and the position
+// in state.searchHistory while recalling with Up/Down (-1 = not recalling).
+let lastHits = 0;
+let historyCursor = -1;
+
+// "Saved" tree root; its counts are only recomputed when commits, sessions or the list change.
+let savedRoot: TreeNode | null | undefined;
+
+// Set per render for the current query: what to highlight, and whether ranked (fuzzy) mode is on.
+let needles: Needle[] = [];
+let matchOpts: MatchOptions = {};
+
+// Autocomplete under the search box. URN segments come from every stored commit, not the
+// filtered tree, so a half-typed term does not hide its own completions.
+let suggestModel: TreeModel | null = null;
+let suggestion: SuggestResult | null = null;
+let suggestIndex = 0;
 
 let selectedPrefix: string | null = null; // urn prefix or "__unknown__"
 let selectedSessionId: string | null = null;
@@ -41,6 +78,13 @@ function stableSessionsArray(sessions: Record<string, SessionRec>): SessionRec[]
   });
 }
 
+// Escaped text with the query's matches wrapped in <mark>.
+function markHtml(text: string, ...keys: QueryKey[]): string {
+  return markMatches(text, needlesFor(needles, ...keys), matchOpts.fuzzy === true)
+    .map((p) => (p.hit ? `<mark>${escapeHtml(p.text)}</mark>` : escapeHtml(p.text)))
+    .join("");
+}
+
 function escapeHtml(s: string): string {
   return s.replace(/[&<>\"']/g, (c) => ({ "&":"&amp;","<":"&lt;",">":"&gt;",'"':"&quot;","'":"&#39;" }[c] || c));
 }
@@ -116,24 +160,23 @@ function renderCrumbs(): void {
   }
 }
 
+function renderQueryError(q: ReturnType<typeof parseQuery>): void {
+  qErrorHost.hidden = !q.error;
+  qErrorHost.textContent = q.error ? `検索式エラー: ${q.error}` : "";
+}
+
 function renderTreeForQuery(): void {
   const q = parseQuery(input.value);
+  renderQueryError(q);
+  matchOpts = { fuzzy: state.settings.rankedSearch && !!q.expr };
+  needles = queryNeedles(q);
 
   // Build tree from matching commits when searching; hide non-matching containers.
-  const baseCommits: CommitRec[] = [];
-  if (!q.raw || q.command) {
-    baseCommits.push(...state.commits);
-  } else {
-    for (const c of state.commits) {
-      if (!c.sessionId) continue;
-      const s = state.sessions[c.sessionId] || null;
-      if (!s) continue;
-      if (commitMatches(q, c, s)) baseCommits.push(c);
-    }
-  }
+  const baseCommits = !q.raw || q.command ? indexedCommits(searchIndex) : searchCommits(searchIndex, q, state.sessions, matchOpts);
+  if (!q.command) lastHits = q.raw ? baseCommits.length : 0;
 
   const includeUnknown = baseCommits.some((c) => !c.urn);
-  const model = buildUrnContainerTree(baseCommits, state.sessions, { includeUnknown });
+  const model = buildUrnContainerTree(baseCommits, state.sessions, { includeUnknown, namespaces: namespaceNames(state.settings) });
 
   initCollapsedDefault(model);
   ensureSelectionVisible(model);
@@ -142,7 +185,8 @@ function renderTreeForQuery(): void {
   renderCrumbs();
 
   treeHost.innerHTML = "";
-  if (model.roots.length === 0) {
+  if (savedRoot === undefined) savedRoot = buildSavedRoot(state.savedSearches, (sq) => searchCommits(searchIndex, sq, state.sessions));
+  if (model.roots.length === 0 && !savedRoot) {
     const div = document.createElement("div");
     div.style.color = "rgba(233,238,245,.55)";
     div.style.fontSize = "12px";
@@ -153,13 +197,43 @@ function renderTreeForQuery(): void {
   }
 
   for (const r of model.roots) renderTreeNode(r);
+  if (savedRoot) renderTreeNode(savedRoot);
+}
+
+function savedSearchFor(id: string): SavedSearch | undefined {
+  return state.savedSearches.find((s) => savedSearchId(s.name) === id);
+}
+
+function applySavedSearch(id: string): void {
+  const s = savedSearchFor(id);
+  if (!s) return;
+  selectedPrefix = null;
+  selectedSessionId = null;
+  input.value = s.query;
+  void onQueryChange();
+}
+
+// Colour of the configured namespace a URN prefix lies in (urn:<ns>:...), if any.
+function namespaceColor(prefix: string): string | null {
+  const [head, ns] = prefix.split(":");
+  if (head !== "urn" || !ns) return null;
+  return state.settings.namespaces.find((n) => n.name === ns)?.color ?? null;
 }
 
 function renderTreeNode(n: TreeNode): void {
+  const saved = isSavedNodeId(n.id) ? savedSearchFor(n.id) : undefined;
+  // A saved search counts as selected while its query is the one in the box.
+  const selected = saved ? saved.query === input.value.trim() : selectedPrefix === n.prefix;
   const row = document.createElement("div");
-  row.className = "trow" + (selectedPrefix === n.prefix ? " selected" : "");
+  row.className = "trow" + (selected ? " selected" : "");
   row.dataset.node = n.prefix;
   row.style.marginLeft = `${n.depth * 10}px`;
+  const color = namespaceColor(n.prefix);
+  if (color) {
+    row.dataset.ns = n.prefix.split(":")[1];
+    row.style.setProperty("--ns", color);
+    if (n.depth === 0) row.classList.add("nsRoot");
+  }
 
   const twisty = document.createElement("button");
   twisty.className = "twisty";
@@ -179,14 +253,15 @@ function renderTreeNode(n: TreeNode): void {
 
   const label = document.createElement("div");
   label.className = "tlabel";
-  label.textContent = n.depth === 0 ? n.label : n.label;
-  label.title = n.prefix;
+  label.innerHTML = isSavedNodeId(n.id) ? escapeHtml(n.label) : markHtml(n.label, "urn");
+  label.title = saved ? saved.query : n.prefix;
 
   const chips = document.createElement("div");
   chips.className = "tchips";
   chips.innerHTML = `
     <span class="chip"><strong>S:${n.sessionCount}</strong></span>
     <span class="chip"><strong>C:${n.commitCount}</strong></span>
+    ${n.failedCount > 0 ? `<span class="chip warn" title="failed / erased / removed">!${n.failedCount}</span>` : ""}
     <span class="chip">Last:${escapeHtml(shortDate(n.lastAt))}</span>
   `;
 
@@ -195,6 +270,11 @@ function renderTreeNode(n: TreeNode): void {
   row.appendChild(chips);
 
   row.addEventListener("click", () => {
+    if (isSavedNodeId(n.id)) {
+      if (saved) applySavedSearch(n.id);
+      else twisty.click();
+      return;
+    }
     selectedPrefix = (selectedPrefix === n.prefix) ? null : n.prefix;
     selectedSessionId = null;
     renderAll();
@@ -209,6 +289,14 @@ function renderTreeNode(n: TreeNode): void {
 
 function renderSessionsAndDetails(): void {
   const q = parseQuery(input.value);
+  if (q.command === "encode" || q.command === "check") {
+    const hint = q.command === "encode" ? "論理URN → ファイル名トークン（Enterでコピー）" : "ファイル名 → 記録されるURN（Enterでコピー）";
+    const out = q.command === "encode" ? encodeResultHtml(q.args[0] || "", q.args[1] || null) : checkResultHtml(q.args.join(" "));
+    detailsHost.innerHTML = `<div class="diag"><div>${escapeHtml(hint)}</div>${out}</div>`;
+    sessionsHost.innerHTML = "";
+    commitsHost.innerHTML = "";
+    return;
+  }
   if (q.command) {
     renderCommandHint(q.command);
     sessionsHost.innerHTML = "";
@@ -217,16 +305,12 @@ function renderSessionsAndDetails(): void {
   }
 
   const sessionsArr = stableSessionsArray(state.sessions);
-  const sessionById = state.sessions;
 
   const matchingCommits: CommitRec[] = [];
   const sessionsFromCommits = new Set<string>();
+  const bestCommitScore = new Map<string, number>();
 
-  for (const c of state.commits) {
-    if (!c.sessionId) continue;
-    const s = sessionById[c.sessionId] || null;
-    if (!s) continue;
-
+  for (const c of searchCommits(searchIndex, q, state.sessions, matchOpts)) {
     // tree filter
     if (selectedPrefix) {
       if (selectedPrefix === "__unknown__") {
@@ -236,10 +320,10 @@ function renderSessionsAndDetails(): void {
       }
     }
 
-    if (commitMatches(q, c, s)) {
-      matchingCommits.push(c);
-      sessionsFromCommits.add(c.sessionId);
-    }
+    matchingCommits.push(c);
+    const sid = c.sessionId as string;
+    sessionsFromCommits.add(sid);
+    if (matchOpts.fuzzy) bestCommitScore.set(sid, Math.max(bestCommitScore.get(sid) || 0, scoreCommit(c, needles)));
   }
 
   const filteredSessions: SessionRec[] = [];
@@ -247,9 +331,14 @@ function renderSessionsAndDetails(): void {
     if (selectedPrefix) {
       if (sessionsFromCommits.has(s.id)) filteredSessions.push(s);
     } else {
-      if (sessionsFromCommits.has(s.id) || sessionMatchesWithoutCommits(q, s)) filteredSessions.push(s);
+      if (sessionsFromCommits.has(s.id) || sessionMatchesWithoutCommits(q, s, matchOpts)) filteredSessions.push(s);
     }
   }
+  // Ranked: best match first; ties keep the chronological order (sort is stable).
+  if (matchOpts.fuzzy) {
+    const score = new Map(filteredSessions.map((s) => [s.id, scoreSession(s, needles) + (bestCommitScore.get(s.id) || 0)]));
+    filteredSessions.sort((a, b) => (score.get(b.id) || 0) - (score.get(a.id) || 0));
+  }
 
   if (selectedSessionId && !filteredSessions.some((s) => s.id === selectedSessionId)) selectedSessionId = null;
 
@@ -269,8 +358,8 @@ function renderSessionsAndDetails(): void {
 
       const title = s.title || hostFromUrl(s.url);
       card.innerHTML = `
-        <div class="title">${escapeHtml(title)}</div>
-        <div class="sub">${escapeHtml(s.url)}</div>
+        <div class="title">${markHtml(title, "session")}</div>
+        <div class="sub">${markHtml(s.url, "session", "host")}</div>
       `;
 
       card.addEventListener("click", () => {
@@ -296,6 +385,29 @@ function renderSessionsAndDetails(): void {
   renderDetails(q);
 }
 
+// The cached commits for a session (possibly one commitsRev behind), or null while the first
+// read is in flight. Starts a read when the cache is missing or stale.
+function detailCommitsFor(sessionId: string): CommitRec[] | null {
+  const cached = detailCommits && detailCommits.sessionId === sessionId ? detailCommits : null;
+  if ((!cached || cached.seq !== commitsSeq) && detailLoading !== sessionId) void loadDetailCommits(sessionId);
+  return cached ? cached.commits : null;
+}
+
+async function loadDetailCommits(sessionId: string): Promise<void> {
+  detailLoading = sessionId;
+  const seq = commitsSeq;
+  try {
+    const commits = await getCommitsBySession(sessionId);
+    detailCommits = { sessionId, seq, commits };
+  } catch (e) {
+    console.error("loading session commits failed", e);
+    return;
+  } finally {
+    if (detailLoading === sessionId) detailLoading = null;
+  }
+  if (selectedSessionId === sessionId) renderDetails(parseQuery(input.value));
+}
+
 function renderDetails(q: ReturnType<typeof parseQuery>): void {
   detailsHost.innerHTML = "";
 
@@ -320,10 +432,14 @@ function renderDetails(q: ReturnType<typeof parseQuery>): void {
     </div>
   `;
 
-  const commits: CommitRec[] = [];
-  for (const c of state.commits) {
-    if (c.sessionId !== selectedSessionId) continue;
+  const loaded = detailCommitsFor(selectedSessionId);
+  if (!loaded) {
+    commitsHost.innerHTML = `<div style="color:rgba(233,238,245,.55);font-size:12px">読み込み中…</div>`;
+    return;
+  }
 
+  const commits: CommitRec[] = [];
+  for (const c of loaded) {
     if (selectedPrefix) {
       if (selectedPrefix === "__unknown__") {
         if (c.urn) continue;
@@ -332,10 +448,14 @@ function renderDetails(q: ReturnType<typeof parseQuery>): void {
       }
     }
 
-    if (!commitMatches(q, c, s)) continue;
+    if (!commitMatches(q, c, s, matchOpts)) continue;
     commits.push(c);
   }
   commits.sort((a, b) => String(b.capturedAt).localeCompare(String(a.capturedAt)));
+  if (matchOpts.fuzzy) {
+    const score = new Map(commits.map((c) => [c.id, scoreCommit(c, needles)]));
+    commits.sort((a, b) => (score.get(b.id) || 0) - (score.get(a.id) || 0));
+  }
 
   commitsHost.innerHTML = "";
   if (commits.length === 0) {
@@ -345,37 +465,110 @@ function renderDetails(q: ReturnType<typeof parseQuery>): void {
 
   for (const c of commits.slice(0, 400)) {
     const div = document.createElement("div");
-    div.className = "commit";
+    div.className = "commit" + (isBrokenCommit(c) ? " broken" : "");
     const file = c.filename || "(no filename)";
     const urn = c.urn || "(unknown)";
     const st = c.state || "";
+    const lifecycle = lifecycleLabels(c).map((l) => `<span class="pill">${escapeHtml(l)}</span>`).join("");
     div.innerHTML = `
       <div class="commitTop">
-        <div class="commitFile">${escapeHtml(file)}</div>
+        <div class="commitFile">${markHtml(file, "file")}</div>
         <div class="commitTime">${escapeHtml(formatLocal(c.capturedAt || c.startTime))}</div>
       </div>
       <div class="commitMeta">
         <span class="pill"><strong>${escapeHtml(st)}</strong></span>
-        <span class="pill">${escapeHtml(urn)}</span>
+        <span class="pill">${markHtml(urn, "urn")}</span>
+        ${lifecycle}
       </div>
+      ${diagnosisHtml(c)}
     `;
     commitsHost.appendChild(div);
   }
 }
 
+// What each format and rule made of a filename, and a filename that would work (see diagnoseFilename).
+function diagnosisRowsHtml(d: FilenameDiagnosis): string {
+  const tried = d.attempts.filter((a) => a.failure !== "not-found");
+  const rows = tried.length === 0
+    ? `<div class="diagRow">URNトークンが見つかりません（例: <span class="mono">urn__feat__area__name.zip</span>）</div>`
+    : tried.map((a) => `<div class="diagRow"><span class="kbd">${escapeHtml(a.format.replace(/^filename:/, ""))}</span> ${a.token ? `<span class="mono">${escapeHtml(a.token)}</span> — ` : ""}${escapeHtml(a.detail)}</div>`).join("");
+  const fix = d.suggestion ? `<div class="diagRow">候補: <span class="mono">${escapeHtml(d.suggestion)}</span></div>` : "";
+  return rows + fix;
+}
+
+// Why an unknown commit's filename gave no URN.
+function diagnosisHtml(c: CommitRec): string {
+  if (c.urn || !c.filename) return "";
+  const d = diagnoseFilename(c.filename, urnOptsOf(state.settings));
+  return `<details class="diag"><summary>URNなしの理由</summary>${diagnosisRowsHtml(d)}</details>`;
+}
+
+// >encode <urn> [ext]: the filename token, or why the URN is not valid.
+function encodeResultHtml(urn: string, ext: string | null): string {
+  if (!urn) return `<div class="diagRow">論理URNを入力してください（例: <span class="mono">urn:feat:sessions:chrome zip</span>）</div>`;
+  const e = encodeUrnFilename(urn, ext, urnOptsOf(state.settings));
+  if (e.error) return `<div class="diagRow">無効: ${escapeHtml(e.error)}</div>`;
+  return `
+    <div class="diagRow">URN: <span class="mono">${escapeHtml(e.urn || "")}</span></div>
+    <div class="diagRow">ファイル名: <span class="mono">${escapeHtml(e.filename || `${e.token}.<拡張子>`)}</span></div>
+    ${e.filename ? "" : `<div class="diagRow">拡張子は必須です（例: <span class="kbd">&gt;encode ${escapeHtml(e.urn || "")} zip</span>）</div>`}`;
+}
+
+// >check <filename>: the URN the extractor would record, or why there is none.
+function checkResultHtml(filename: string): string {
+  if (!filename) return `<div class="diagRow">ファイル名を入力してください（例: <span class="mono">urn__feat__a__b.zip</span>）</div>`;
+  const d = diagnoseFilename(filename, urnOptsOf(state.settings));
+  if (d.urn) return `<div class="diagRow">→ <span class="mono">${escapeHtml(d.urn)}</span>（${escapeHtml(d.source || "")}）</div>`;
+  return `<div class="diagRow">→ URNなし</div>${diagnosisRowsHtml(d)}`;
+}
+
 function renderCommandHint(cmd: string): void {
   detailsHost.innerHTML = `<div style="color:rgba(233,238,245,.55);font-size:12px;line-height:1.55">
     Command mode: <span class="kbd">&gt;${escapeHtml(cmd)}</span><br/>
-    - <span class="kbd">&gt;close</span> このタブを閉じて戻る
+    - <span class="kbd">&gt;close</span> このタブを閉じて戻る<br/>
+    - <span class="kbd">&gt;encode &lt;urn&gt; [ext]</span> 論理URN → ファイル名トークン / <span class="kbd">&gt;check &lt;filename&gt;</span> ファイル名 → URN（下の URN tools でも可）
   </div>`;
 }
 
-async function runCommand(cmd: string): Promise<void> {
+async function copyToClipboard(text: string): Promise<boolean> {
+  try {
+    await navigator.clipboard.writeText(text);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+function renderUrnTools(): void {
+  encOut.innerHTML = encUrn.value.trim() ? encodeResultHtml(encUrn.value.trim(), encExt.value.trim() || null) : "";
+  chkOut.innerHTML = chkName.value.trim() ? checkResultHtml(chkName.value.trim()) : "";
+}
+
+async function copyEncoded(urn: string, ext: string | null): Promise<void> {
+  const e = encodeUrnFilename(urn, ext, urnOptsOf(state.settings));
+  if (e.error || !e.token) {
+    alert(`使い方: >encode <論理URN> [拡張子]\n${e.error || ""}`);
+    return;
+  }
+  const text = e.filename || e.token;
+  alert((await copyToClipboard(text)) ? `コピーしました: ${text}` : "Clipboardにコピーできませんでした。");
+}
+
+async function runCommand(cmd: string, args: string[]): Promise<void> {
   const c = cmd.toLowerCase();
   if (c === "close") {
     await closeSelf();
     return;
   }
+  if (c === "encode") {
+    await copyEncoded(args[0] || "", args[1] || null);
+    return;
+  }
+  if (c === "check") {
+    const d = diagnoseFilename(args.join(" "), urnOptsOf(state.settings));
+    if (d.urn && (await copyToClipboard(d.urn))) alert(`${d.urn}（${d.source}）をコピーしました`);
+    return;
+  }
   alert(`Unknown command: >${cmd}`);
 }
 
@@ -390,17 +583,143 @@ async function closeSelf(): Promise<void> {
   await chrome.runtime.sendMessage({ type: "CLOSE_FULL_VIEW", fullTabId: tabId });
 }
 
+// The search index is the view's only copy of the commit store, patched from commitsRev
+// deltas. A full reload pages through the store into a fresh index and swaps it in, so a
+// render in between never sees half of it.
+const searchIndex = createSearchIndex();
+
+// Commits of the selected session, read through the store's sessionId index. seq is the
+// commitsSeq they were read at; a newer one means they are shown until the re-read lands.
+let commitsSeq = 0;
+let detailCommits: { sessionId: string; seq: number; commits: CommitRec[] } | null = null;
+let detailLoading: string | null = null;
+
+async function reloadCommits(rev: CommitsRev | null): Promise<void> {
+  if (!rev || rev.full) {
+    const next = createSearchIndex();
+    await scanCommits((page) => indexCommits(next, page));
+    Object.assign(searchIndex, next);
+  } else {
+    const got = await getCommits(rev.ids);
+    const found = new Set(got.map((c) => c.id));
+    removeCommits(searchIndex, rev.ids.filter((id) => !found.has(id)));
+    indexCommits(searchIndex, got);
+  }
+  commitsSeq += 1;
+  suggestModel = null;
+  savedRoot = undefined;
+}
+
 async function reload(): Promise<void> {
-  const got = await new Promise<any>((resolve) => chrome.storage.local.get([LOCAL_SESSIONS, LOCAL_COMMITS, LOCAL_UI], resolve));
+  const got = await new Promise<any>((resolve) => chrome.storage.local.get([LOCAL_SESSIONS, LOCAL_UI], resolve));
   state.sessions = (got[LOCAL_SESSIONS] as Record<string, SessionRec>) || {};
-  state.commits = (got[LOCAL_COMMITS] as CommitRec[]) || [];
   state.uiQuery = String((got[LOCAL_UI] && (got[LOCAL_UI] as any).query) || "");
   if (document.activeElement !== input) input.value = state.uiQuery;
+  state.settings = await loadSettings();
+  state.savedSearches = await loadSavedSearches();
+  state.searchHistory = await loadSearchHistory();
+  rankedBox.checked = state.settings.rankedSearch;
 }
 
 function renderAll(): void {
   renderTreeForQuery();
   renderSessionsAndDetails();
+  renderUrnTools(); // results depend on the namespaces and rules in settings
+}
+
+function suggestionHint(s: Suggestion): string {
+  if (s.kind === "urn") return `C:${s.count}`;
+  if (s.kind === "host") return `ホスト S:${s.count}`;
+  if (s.kind === "session") return "セッション";
+  if (s.kind === "key") return "キー";
+  if (s.kind === "date") return "日付";
+  return "値";
+}
+
+function renderSuggestions(): void {
+  suggestHost.hidden = !suggestion;
+  suggestHost.innerHTML = "";
+  if (!suggestion) return;
+  suggestion.items.forEach((s, i) => {
+    const row = document.createElement("div");
+    row.className = "suggestItem" + (i === suggestIndex ? " active" : "");
+    row.setAttribute("role", "option");
+    row.innerHTML = `<span>${escapeHtml(s.label)}</span><span class="suggestKind">${escapeHtml(suggestionHint(s))}</span>`;
+    // mousedown, not click: keeps focus (and the cursor) in the search box.
+    row.addEventListener("mousedown", (ev) => {
+      ev.preventDefault();
+      acceptSuggestion(i);
+    });
+    suggestHost.appendChild(row);
+  });
+}
+
+function updateSuggestions(): void {
+  if (document.activeElement !== input) {
+    hideSuggestions();
+    return;
+  }
+  suggestModel ??= buildUrnContainerTree(indexedCommits(searchIndex), state.sessions, { namespaces: namespaceNames(state.settings) });
+  const cursor = input.selectionStart ?? input.value.length;
+  suggestion = suggestAt(input.value, cursor, { model: suggestModel, sessions: state.sessions });
+  suggestIndex = 0;
+  renderSuggestions();
+}
+
+function hideSuggestions(): void {
+  suggestion = null;
+  renderSuggestions();
+}
+
+function acceptSuggestion(i: number): void {
+  if (!suggestion || !suggestion.items[i]) return;
+  const next = applySuggestion(input.value, suggestion, suggestion.items[i]);
+  input.value = next.value;
+  input.setSelectionRange(next.cursor, next.cursor);
+  void onQueryChange();
+  updateSuggestions();
+}
+
+// Arrow keys move through the list, Tab accepts, Escape closes it (and only it).
+function handleSuggestKey(ev: KeyboardEvent): boolean {
+  if (!suggestion) return false;
+  const n = suggestion.items.length;
+  if (ev.key === "ArrowDown" || ev.key === "ArrowUp") {
+    suggestIndex = (suggestIndex + (ev.key === "ArrowDown" ? 1 : n - 1)) % n;
+    renderSuggestions();
+  } else if (ev.key === "Tab") {
+    acceptSuggestion(suggestIndex);
+  } else if (ev.key === "Escape") {
+    ev.stopPropagation();
+    hideSuggestions();
+  } else {
+    return false;
+  }
+  ev.preventDefault();
+  return true;
+}
+
+function recordCurrentSearch(): void {
+  const q = parseQuery(input.value);
+  if (!q.raw || q.command || q.error) return;
+  state.searchHistory = recordSearch(state.searchHistory, q.raw, lastHits);
+  void saveSearchHistory(state.searchHistory);
+}
+
+// Up/Down in the empty box (or while stepping through recalled entries): pinned first, then newest.
+function handleHistoryKey(ev: KeyboardEvent): boolean {
+  if (ev.key !== "ArrowUp" && ev.key !== "ArrowDown") return false;
+  const list = state.searchHistory;
+  const recalling = historyCursor >= 0 && list[historyCursor]?.query === input.value;
+  if (!recalling) historyCursor = -1;
+  if (!recalling && input.value !== "") return false;
+  ev.preventDefault();
+  if (list.length === 0) return true;
+  historyCursor = ev.key === "ArrowUp" ? Math.min(historyCursor + 1, list.length - 1) : historyCursor - 1;
+  input.value = historyCursor >= 0 ? list[historyCursor].query : "";
+  input.setSelectionRange(input.value.length, input.value.length);
+  void onQueryChange();
+  return true;
 }
 
 async function onQueryChange(): Promise<void> {
@@ -409,14 +728,33 @@ async function onQueryChange(): Promise<void> {
   renderAll();
 }
 
-input.addEventListener("input", () => { void onQueryChange(); });
+input.addEventListener("input", () => { historyCursor = -1; void onQueryChange(); updateSuggestions(); });
+input.addEventListener("keyup", (ev) => {
+  if (["ArrowLeft", "ArrowRight", "Home", "End"].includes(ev.key)) updateSuggestions();
+});
+input.addEventListener("click", () => updateSuggestions());
+input.addEventListener("blur", () => hideSuggestions());
+
+rankedBox.addEventListener("change", () => {
+  const checked = !!rankedBox.checked;
+  state.settings = { ...state.settings, rankedSearch: checked };
+  void saveSettings({ rankedSearch: checked });
+  renderAll();
+});
+
+for (const el of [encUrn, encExt, chkName]) el.addEventListener("input", renderUrnTools);
+encCopy.addEventListener("click", () => { void copyEncoded(encUrn.value.trim(), encExt.value.trim() || null); });
 
 input.addEventListener("keydown", (ev) => {
+  if (handleSuggestKey(ev)) return;
+  if (handleHistoryKey(ev)) return;
   if (ev.key === "Enter") {
     const q = parseQuery(input.value);
     if (q.command) {
       ev.preventDefault();
-      void runCommand(q.command);
+      void runCommand(q.command, q.args);
+    } else {
+      recordCurrentSearch();
     }
   }
 });
@@ -442,15 +780,20 @@ window.addEventListener("keydown", (ev) => {
   }
 });
 
-chrome.storage.onChanged.addListener((_changes: any, area: string) => {
-  if (area !== "local") return;
+chrome.storage.onChanged.addListener((changes: any, area: string) => {
+  if (area !== "local" && area !== "sync") return;
   void (async () => {
+    if (area === "local" && changes[LOCAL_COMMITS_REV]) await reloadCommits((changes[LOCAL_COMMITS_REV].newValue as CommitsRev) || null);
+    // Saved-search counts only depend on commits (handled above), sessions and the list; not
+    // on the UI state written on every keystroke.
+    if (changes[LOCAL_SESSIONS] || changes[SYNC_SAVED_SEARCHES]) savedRoot = undefined;
     await reload();
     renderAll();
   })();
 });
 
 async function init(): Promise<void> {
+  await reloadCommits(null);
   await reload();
   input.value = state.uiQuery;
   renderAll();
@@ -0,0 +1,161 @@
+import { type CommitRec } from "./query.js";
+import { commitIdFor } from "./identity.js";
+import { lifecycleFromItem } from "./lifecycle.js";
+import { extractUrnFromDownload, type UrnOpts } from "./urn.js";
+import { canonicalizeUrl, isHttpUrl } from "./util.js";
+
+// The subset of chrome.downloads.DownloadItem that backfill reads.
+export type HistoryItem = {
+  id: number;
+  byExtensionId?: string;
+  startTime?: string;
+  endTime?: string;
+  state?: string;
+  filename?: string;
+  url?: string;
+  finalUrl?: string;
+  referrer?: string;
+  mime?: string;
+  totalBytes?: number;
+  bytesReceived?: number;
+  error?: string;
+  danger?: string;
+  paused?: boolean;
+  canResume?: boolean;
+  exists?: boolean;
+};
+
+// Inclusive local dates (YYYY-MM-DD), like on:/after:/before: in the search box.
+export type BackfillRange = { from: string | null; to: string | null };
+
+export type BackfillPlan = {
+  scanned: number;
+  add: CommitRec[]; // sessionId is filled in by the caller (ensureSession on sessionUrl)
+  skipped: { recorded: number; noUrn: number; own: number };
+};
+
+const DATE_RE = /^(\d{4})-(\d{2})-(\d{2})$/;
+
+function localDayStart(key: string): Date | null {
+  const m = DATE_RE.exec(key);
+  if (!m) return null;
+  const d = new Date(Number(m[1]), Number(m[2]) - 1, Number(m[3]));
+  // Reject rollovers such as 2026-02-31.
+  return d.getMonth() === Number(m[2]) - 1 && d.getDate() === Number(m[3]) ? d : null;
+}
+
+export function parseBackfillRange(args: string[]): { range: BackfillRange | null; error: string | null } {
+  if (args.length > 2) return { range: null, error: "usage: >backfill [from YYYY-MM-DD] [to YYYY-MM-DD]" };
+  const [from = null, to = null] = args;
+  for (const v of [from, to]) {
+    if (v !== null && !localDayStart(v)) return { range: null, error: `invalid date: ${v} (YYYY-MM-DD)` };
+  }
+  if (from && to && from > to) return { range: null, error: `from (${from}) is after to (${to})` };
+  return { range: { from, to }, error: null };
+}
+
+// Query for chrome.downloads.search. limit 0 = no limit (the default is 1000).
+export function backfillSearchQuery(range: BackfillRange): { startedAfter?: string; startedBefore?: string; limit: number } {
+  const q: { startedAfter?: string; startedBefore?: string; limit: number } = { limit: 0 };
+  const from = range.from ? localDayStart(range.from) : null;
+  const to = range.to ? localDayStart(range.to) : null;
+  // startedAfter is exclusive: step back 1ms so downloads at exactly 00:00 are included.
+  if (from) q.startedAfter = new Date(from.getTime() - 1).toISOString();
+  if (to) q.startedBefore = new Date(to.getFullYear(), to.getMonth(), to.getDate() + 1).toISOString();
+  return q;
+}
+
+function str(v: unknown): string | null {
+  return typeof v === "string" && v ? v : null;
+}
+
+function startMs(iso: string | null | undefined): number {
+  const t = Date.parse(iso || "");
+  return Number.isFinite(t) ? t : 0;
+}
+
+// A download is "already recorded" when a commit has the same download id and start time,
+// whatever epoch it was recorded under (legacy ids carry the start time too).
+function recordedKey(downloadId: number, startTime: string | null | undefined): string {
+  return `${downloadId}@${startMs(startTime)}`;
+}
+
+// Pure: decide which history items become commits. Nothing is written here.
+export function planBackfill(
+  items: HistoryItem[],
+  existing: CommitRec[],
+  opts: { epoch: string; urnOnly: boolean; ownExtensionId: string; now: string; urn?: UrnOpts }
+): BackfillPlan {
+  const seen = new Set<string>();
+  const ids = new Set<string>();
+  for (const c of existing) {
+    ids.add(c.id);
+    if (typeof c.downloadId === "number") seen.add(recordedKey(c.downloadId, c.startTime || c.capturedAt));
+  }
+
+  const plan: BackfillPlan = { scanned: items.length, add: [], skipped: { recorded: 0, noUrn: 0, own: 0 } };
+  for (const item of items) {
+    if (item.byExtensionId && item.byExtensionId === opts.ownExtensionId) {
+      plan.skipped.own += 1;
+      continue;
+    }
+    const id = commitIdFor(opts.epoch, item.id, item.startTime);
+    const key = recordedKey(item.id, item.startTime);
+    if (ids.has(id) || seen.has(key)) {
+      plan.skipped.recorded += 1;
+      continue;
+    }
+    // No tab title for past downloads; the other sources are on the item.
+    const urn = extractUrnFromDownload(item, opts.urn);
+    if (opts.urnOnly && !urn.urn) {
+      plan.skipped.noUrn += 1;
+      continue;
+    }
+    ids.add(id);
+    seen.add(key);
+    // Only the referrer can attribute a past download; the active tab says nothing about it.
+    const sessionUrl = isHttpUrl(item.referrer) ? canonicalizeUrl(item.referrer as string) : null;
+    plan.add.push({
+      id,
+      downloadId: item.id,
+      sessionId: null,
+      sessionUrl,
+      capturedAt: str(item.startTime) || opts.now,
+      startTime: str(item.startTime),
+      endTime: str(item.endTime),
+      state: str(item.state),
+      filename: str(item.filename),
+      url: str(item.url),
+      finalUrl: str(item.finalUrl),
+      referrer: str(item.referrer),
+      mime: str(item.mime),
+      totalBytes: typeof item.totalBytes === "number" && item.totalBytes >= 0 ? item.totalBytes : null,
+      urn: urn.urn,
+      urnSource: urn.source,
+      ...lifecycleFromItem(item)
+    });
+  }
+  plan.add.sort((a, b) => a.capturedAt.localeCompare(b.capturedAt));
+  return plan;
+}
+
+function baseName(path: string | null): string {
+  if (!path) return "(no filename)";
+  const parts = path.split(/[\\/]/g);
+  return parts[parts.length - 1] || path;
+}
+
+export function formatBackfillPreview(plan: BackfillPlan, maxLines = 15): string {
+  const s = plan.skipped;
+  const lines = [
+    `scanned: ${plan.scanned}`,
+    `add: ${plan.add.length}`,
+    `skip: recorded ${s.recorded} / no urn ${s.noUrn} / own files ${s.own}`
+  ];
+  if (plan.add.length) lines.push("");
+  for (const c of plan.add.slice(0, maxLines)) {
+    lines.push(`+ ${(c.startTime || c.capturedAt).slice(0, 10)} ${c.urn || "(no urn)"}  ${baseName(c.filename)}`);
+  }
+  if (plan.add.length > maxLines) lines.push(`… and ${plan.add.length - maxLines} more`);
+  return lines.join("\n");
+}
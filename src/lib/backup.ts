@@ -0,0 +1,426 @@
+import { type CommitRec, type SessionRec } from "./query.js";
+import { base64ToBytes, bytesToBase64, sha256Hex } from "./util.js";
+import { upgradeLegacyCommit } from "./identity.js";
+import { withLifecycleDefaults } from "./lifecycle.js";
+import { normalizeSearchHistory, type SearchHistoryEntry } from "./searchHistory.js";
+
+export const BACKUP_SCHEMA = "session-download-commits:backup:v1";
+export const BACKUP_SCHEMA_ENC = "session-download-commits:backup:v1-enc";
+
+const PBKDF2_ITERATIONS = 600000;
+// What a file may ask for. The count comes from the file, and a huge one would freeze the panel.
+export const PBKDF2_MIN_ITERATIONS = 100_000;
+export const PBKDF2_MAX_ITERATIONS = 10_000_000;
+
+export type BackupPayload = {
+  schema: string;
+  exportedAt: string;
+  sessions: Record<string, SessionRec>;
+  commits: CommitRec[];
+  // 16-char content hash of sessions+commits (see backupStateHash). Optional for older backups.
+  hash?: string;
+  // Only with `>backup history`; search history is per-device and not covered by the hash.
+  searchHistory?: SearchHistoryEntry[];
+};
+
+// Envelope around a v1 payload. The ciphertext is the UTF-8 JSON of the v1 payload;
+// schema/exportedAt/hash are bound as AES-GCM additional data so they cannot be swapped.
+export type EncryptedBackup = {
+  schema: string;
+  exportedAt: string;
+  hash?: string;
+  kdf: { name: "PBKDF2"; hash: "SHA-256"; iterations: number; salt: string };
+  cipher: { name: "AES-GCM"; iv: string };
+  data: string;
+};
+
+export type DecryptedBackup = { text: string | null; error: string | null };
+
+export type BackupProof = {
+  createdAt: string;
+  hash: string;
+  filename?: string;
+  trigger?: "manual" | "schedule";
+  encrypted?: boolean;
+  checkedAt?: string; // last scheduled run that found nothing new to back up
+};
+
+// The last backup that could not be written; cleared by the next one that is.
+export type BackupFailure = {
+  at: string;
+  trigger: "manual" | "schedule";
+  error: string;
+};
+
+export type RestoreMode = "merge" | "replace";
+
+export type RestoreCounts = {
+  added: number;
+  updated: number;
+  skipped: number;
+  removed: number;
+};
+
+export type RestorePlan = {
+  mode: RestoreMode;
+  sessions: Record<string, SessionRec>;
+  commits: CommitRec[];
+  sessionCounts: RestoreCounts;
+  commitCounts: RestoreCounts;
+};
+
+export type ParsedBackup = { payload: BackupPayload | null; error: string | null };
+
+export function buildBackupPayload(
+  sessions: Record<string, SessionRec>,
+  commits: CommitRec[],
+  opts: { searchHistory?: SearchHistoryEntry[] } = {}
+): BackupPayload {
+  // Keep deterministic order for readability.
+  const sessionsArr = Object.values(sessions).sort((a, b) => {
+    const ta = a.lastDownloadAt || a.lastSeenAt || a.createdAt;
+    const tb = b.lastDownloadAt || b.lastSeenAt || b.createdAt;
+    return String(tb).localeCompare(String(ta));
+  });
+  const out: Record<string, SessionRec> = {};
+  for (const s of sessionsArr) out[s.id] = s;
+
+  return {
+    schema: BACKUP_SCHEMA,
+    exportedAt: new Date().toISOString(),
+    sessions: out,
+    // newest last
+    commits: [...commits].sort((a, b) => String(a.capturedAt).localeCompare(String(b.capturedAt))),
+    ...(opts.searchHistory ? { searchHistory: opts.searchHistory } : {})
+  };
+}
+
+function stableStringify(v: unknown): string {
+  if (Array.isArray(v)) return `[${v.map(stableStringify).join(",")}]`;
+  if (v && typeof v === "object") {
+    const o = v as Record<string, unknown>;
+    const keys = Object.keys(o).filter((k) => o[k] !== undefined).sort();
+    return `{${keys.map((k) => `${JSON.stringify(k)}:${stableStringify(o[k])}`).join(",")}}`;
+  }
+  return JSON.stringify(v ?? null);
+}
+
+async function contentHash(sessions: Record<string, unknown>, commits: CommitRec[]): Promise<string> {
+  const sortedCommits = [...commits].sort((a, b) => (a.id < b.id ? -1 : a.id > b.id ? 1 : 0));
+  const hex = await sha256Hex(stableStringify({ sessions, commits: sortedCommits }));
+  return hex.slice(0, 16);
+}
+
+// Content hash of the stored history, independent of export time and record order.
+// Used both as the backup file tag and by the >clear guard. Sessions count by identity and
+// title only: lastSeenAt moves on every tab update and would make every backup look stale.
+export async function backupStateHash(sessions: Record<string, SessionRec>, commits: CommitRec[]): Promise<string> {
+  const durable: Record<string, unknown> = {};
+  for (const [id, s] of Object.entries(sessions)) durable[id] = { id: s.id, url: s.url, title: s.title, createdAt: s.createdAt };
+  return await contentHash(durable, commits);
+}
+
+// Backups written before the hash left out volatile session fields carry the full-record hash.
+export async function verifyBackupHash(payload: BackupPayload): Promise<boolean> {
+  if (!payload.hash) return true;
+  if ((await backupStateHash(payload.sessions, payload.commits)) === payload.hash) return true;
+  return (await contentHash(payload.sessions, payload.commits)) === payload.hash;
+}
+
+export function backupFilename(dir: string, exportedAt: string, hash: string, encrypted?: boolean): string {
+  // 2026-02-10T01:02:03.456Z -> 20260210-010203
+  const ts = exportedAt.replace(/\.\d+Z$/, "").replace(/[-:]/g, "").replace("T", "-");
+  const d = dir.replace(/^[\\/]+|[\\/]+$/g, "");
+  const name = `backup-${ts}-${hash}${encrypted ? ".enc" : ""}.json`;
+  return d ? `${d}/${name}` : name;
+}
+
+function envelopeAad(env: { schema: string; exportedAt: string; hash?: string }): Uint8Array<ArrayBuffer> {
+  return new TextEncoder().encode(`${env.schema}\n${env.exportedAt}\n${env.hash || ""}`);
+}
+
+async function deriveBackupKey(passphrase: string, salt: Uint8Array<ArrayBuffer>, iterations: number): Promise<CryptoKey> {
+  const base = await crypto.subtle.importKey("raw", new TextEncoder().encode(passphrase), "PBKDF2", false, ["deriveKey"]);
+  return await crypto.subtle.deriveKey(
+    { name: "PBKDF2", hash: "SHA-256", salt, iterations },
+    base,
+    { name: "AES-GCM", length: 256 },
+    false,
+    ["encrypt", "decrypt"]
+  );
+}
+
+export async function encryptBackup(payload: BackupPayload, passphrase: string, iterations = PBKDF2_ITERATIONS): Promise<EncryptedBackup> {
+  const salt = crypto.getRandomValues(new Uint8Array(16));
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const key = await deriveBackupKey(passphrase, salt, iterations);
+
+  const head = { schema: BACKUP_SCHEMA_ENC, exportedAt: payload.exportedAt, ...(payload.hash ? { hash: payload.hash } : {}) };
+  const plain = new TextEncoder().encode(JSON.stringify(payload));
+  const ct = await crypto.subtle.encrypt({ name: "AES-GCM", iv, additionalData: envelopeAad(head) }, key, plain);
+
+  return {
+    ...head,
+    kdf: { name: "PBKDF2", hash: "SHA-256", iterations, salt: bytesToBase64(salt) },
+    cipher: { name: "AES-GCM", iv: bytesToBase64(iv) },
+    data: bytesToBase64(new Uint8Array(ct))
+  };
+}
+
+export function isEncryptedBackupText(text: string): boolean {
+  try {
+    const raw = JSON.parse(text);
+    return isObj(raw) && raw.schema === BACKUP_SCHEMA_ENC;
+  } catch {
+    return false;
+  }
+}
+
+// Returns the inner v1 JSON text; feed it to parseBackupPayload/verifyBackupHash as usual.
+export async function decryptBackup(text: string, passphrase: string): Promise<DecryptedBackup> {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch (e) {
+    return { text: null, error: `JSON parse failed: ${String(e)}` };
+  }
+  if (!isObj(raw) || raw.schema !== BACKUP_SCHEMA_ENC) return { text: null, error: "not an encrypted backup" };
+  const kdf = raw.kdf as Record<string, unknown> | undefined;
+  const cipher = raw.cipher as Record<string, unknown> | undefined;
+  if (!isObj(kdf) || kdf.name !== "PBKDF2" || kdf.hash !== "SHA-256" || typeof kdf.iterations !== "number" || !isStr(kdf.salt)) {
+    return { text: null, error: "unsupported kdf parameters" };
+  }
+  if (!Number.isInteger(kdf.iterations) || kdf.iterations < PBKDF2_MIN_ITERATIONS || kdf.iterations > PBKDF2_MAX_ITERATIONS) {
+    return { text: null, error: `kdf iterations out of range: ${kdf.iterations} (allowed ${PBKDF2_MIN_ITERATIONS}-${PBKDF2_MAX_ITERATIONS})` };
+  }
+  if (!isObj(cipher) || cipher.name !== "AES-GCM" || !isStr(cipher.iv) || !isStr(raw.data) || !isStr(raw.exportedAt)) {
+    return { text: null, error: "unsupported cipher parameters" };
+  }
+
+  let plain: ArrayBuffer;
+  try {
+    const key = await deriveBackupKey(passphrase, base64ToBytes(kdf.salt), kdf.iterations);
+    const head = { schema: BACKUP_SCHEMA_ENC, exportedAt: raw.exportedAt, hash: isStr(raw.hash) ? raw.hash : undefined };
+    plain = await crypto.subtle.decrypt({ name: "AES-GCM", iv: base64ToBytes(cipher.iv), additionalData: envelopeAad(head) }, key, base64ToBytes(raw.data));
+  } catch {
+    // AES-GCM fails the same way for a wrong passphrase and for tampered data.
+    return { text: null, error: "decryption failed (wrong passphrase or corrupted file)" };
+  }
+
+  const inner = new TextDecoder().decode(plain);
+  const parsed = parseBackupPayload(inner);
+  if (!parsed.payload) return { text: null, error: parsed.error };
+  if (isStr(raw.hash) && parsed.payload.hash !== raw.hash) return { text: null, error: "envelope hash does not match payload" };
+  return { text: inner, error: null };
+}
+
+function isObj(v: unknown): v is Record<string, unknown> {
+  return !!v && typeof v === "object" && !Array.isArray(v);
+}
+
+function isStr(v: unknown): v is string {
+  return typeof v === "string";
+}
+
+function isStrOrNull(v: unknown): boolean {
+  return v === null || typeof v === "string";
+}
+
+function isNumOrNull(v: unknown): boolean {
+  return v === null || (typeof v === "number" && Number.isFinite(v));
+}
+
+function isBoolOrNull(v: unknown): boolean {
+  return v === null || typeof v === "boolean";
+}
+
+export function validateSessionRec(v: unknown): string | null {
+  if (!isObj(v)) return "not an object";
+  if (!isStr(v.id) || !v.id) return "id must be a non-empty string";
+  if (!isStr(v.url)) return "url must be a string";
+  if (!isStrOrNull(v.title)) return "title must be a string or null";
+  if (!isStr(v.createdAt)) return "createdAt must be a string";
+  if (!isStr(v.lastSeenAt)) return "lastSeenAt must be a string";
+  if (!isStrOrNull(v.lastDownloadAt)) return "lastDownloadAt must be a string or null";
+  if (typeof v.downloadCount !== "number" || !Number.isFinite(v.downloadCount)) return "downloadCount must be a number";
+  return null;
+}
+
+export function validateCommitRec(v: unknown): string | null {
+  if (!isObj(v)) return "not an object";
+  if (!isStr(v.id) || !v.id) return "id must be a non-empty string";
+  if (!isStr(v.capturedAt)) return "capturedAt must be a string";
+  for (const k of ["sessionId", "sessionUrl", "startTime", "endTime", "state", "filename", "url", "finalUrl", "referrer", "mime", "urn", "urnSource"]) {
+    if (!isStrOrNull(v[k])) return `${k} must be a string or null`;
+  }
+  if (!isNumOrNull(v.totalBytes)) return "totalBytes must be a number or null";
+  // Optional: backups written before unique commit ids have no downloadId.
+  if (v.downloadId !== undefined && !isNumOrNull(v.downloadId)) return "downloadId must be a number or null";
+  // Lifecycle fields are optional as well (added after backup:v1 was introduced).
+  for (const k of ["error", "danger", "erasedAt"]) {
+    if (v[k] !== undefined && !isStrOrNull(v[k])) return `${k} must be a string or null`;
+  }
+  for (const k of ["paused", "canResume", "exists"]) {
+    if (v[k] !== undefined && !isBoolOrNull(v[k])) return `${k} must be a boolean or null`;
+  }
+  if (v.bytesReceived !== undefined && !isNumOrNull(v.bytesReceived)) return "bytesReceived must be a number or null";
+  return null;
+}
+
+export function parseBackupPayload(text: string): ParsedBackup {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch (e) {
+    return { payload: null, error: `JSON parse failed: ${String(e)}` };
+  }
+  if (!isObj(raw)) return { payload: null, error: "backup must be a JSON object" };
+  if (raw.schema !== BACKUP_SCHEMA) return { payload: null, error: `unsupported schema: ${String(raw.schema)}` };
+  if (!isObj(raw.sessions)) return { payload: null, error: "sessions must be an object" };
+  if (!Array.isArray(raw.commits)) return { payload: null, error: "commits must be an array" };
+
+  const sessions: Record<string, SessionRec> = {};
+  for (const [key, s] of Object.entries(raw.sessions)) {
+    const err = validateSessionRec(s);
+    if (err) return { payload: null, error: `sessions.${key}: ${err}` };
+    const rec = s as SessionRec;
+    if (rec.id !== key) return { payload: null, error: `sessions.${key}: id does not match its key` };
+    sessions[key] = rec;
+  }
+
+  const commits: CommitRec[] = [];
+  for (let i = 0; i < raw.commits.length; i += 1) {
+    const err = validateCommitRec(raw.commits[i]);
+    if (err) return { payload: null, error: `commits[${i}]: ${err}` };
+    commits.push(raw.commits[i] as CommitRec);
+  }
+
+  return {
+    payload: {
+      schema: BACKUP_SCHEMA,
+      exportedAt: isStr(raw.exportedAt) ? raw.exportedAt : "",
+      sessions,
+      commits,
+      ...(isStr(raw.hash) ? { hash: raw.hash } : {}),
+      ...(Array.isArray(raw.searchHistory) ? { searchHistory: normalizeSearchHistory(raw.searchHistory) } : {})
+    },
+    error: null
+  };
+}
+
+function emptyCounts(): RestoreCounts {
+  return { added: 0, updated: 0, skipped: 0, removed: 0 };
+}
+
+// Key order differs between stored and restored records, so compare the stable form.
+function sameRecord(a: unknown, b: unknown): boolean {
+  return stableStringify(a) === stableStringify(b);
+}
+
+function minIso(a: string, b: string): string {
+  return a && (!b || a < b) ? a : b;
+}
+
+function maxIso(a: string | null, b: string | null): string | null {
+  if (!a) return b;
+  if (!b) return a;
+  return a > b ? a : b;
+}
+
+function mergeSession(cur: SessionRec, inc: SessionRec): SessionRec {
+  return {
+    ...cur,
+    title: cur.title || inc.title,
+    createdAt: minIso(cur.createdAt, inc.createdAt),
+    lastSeenAt: maxIso(cur.lastSeenAt, inc.lastSeenAt) || cur.lastSeenAt,
+    lastDownloadAt: maxIso(cur.lastDownloadAt, inc.lastDownloadAt),
+    downloadCount: Math.max(cur.downloadCount || 0, inc.downloadCount || 0)
+  };
+}
+
+function mergeCommit(cur: CommitRec, inc: CommitRec): CommitRec {
+  // The current record wins; the backup only fills in what is missing.
+  const next: Record<string, unknown> = { ...cur };
+  for (const [k, v] of Object.entries(inc)) {
+    if (next[k] === null || next[k] === undefined) next[k] = v;
+  }
+  return next as CommitRec;
+}
+
+// Replace mode: what the backup adds, changes or leaves as it is, and what only exists locally.
+function countReplace(counts: RestoreCounts, cur: Map<string, unknown>, inc: Map<string, unknown>): void {
+  for (const [id, rec] of inc) {
+    if (!cur.has(id)) counts.added += 1;
+    else if (sameRecord(cur.get(id), rec)) counts.skipped += 1;
+    else counts.updated += 1;
+  }
+  for (const id of cur.keys()) if (!inc.has(id)) counts.removed += 1;
+}
+
+export function planRestore(
+  current: { sessions: Record<string, SessionRec>; commits: CommitRec[] },
+  payload: BackupPayload,
+  mode: RestoreMode
+): RestorePlan {
+  const sessionCounts = emptyCounts();
+  const commitCounts = emptyCounts();
+  // Old backups use bare download ids and lack lifecycle fields; upgrade them here
+  // (not in parse) so the stored hash still verifies.
+  const incoming = payload.commits.map((c) => withLifecycleDefaults(upgradeLegacyCommit(c)));
+
+  if (mode === "replace") {
+    // Dedupe commits by id (last one wins) even in replace mode.
+    const byId = new Map<string, CommitRec>();
+    for (const c of incoming) byId.set(c.id, c);
+    const curCommits = new Map(current.commits.map((c) => [c.id, c]));
+    countReplace(sessionCounts, new Map(Object.entries(current.sessions)), new Map(Object.entries(payload.sessions)));
+    countReplace(commitCounts, curCommits, byId);
+    return { mode, sessions: { ...payload.sessions }, commits: [...byId.values()], sessionCounts, commitCounts };
+  }
+
+  const sessions: Record<string, SessionRec> = { ...current.sessions };
+  for (const [id, inc] of Object.entries(payload.sessions)) {
+    const cur = sessions[id];
+    if (!cur) {
+      sessions[id] = inc;
+      sessionCounts.added += 1;
+      continue;
+    }
+    const merged = mergeSession(cur, inc);
+    if (sameRecord(merged, cur)) {
+      sessionCounts.skipped += 1;
+    } else {
+      sessions[id] = merged;
+      sessionCounts.updated += 1;
+    }
+  }
+
+  const commits = [...current.commits];
+  const idxById = new Map<string, number>();
+  commits.forEach((c, i) => idxById.set(c.id, i));
+  for (const inc of incoming) {
+    const idx = idxById.get(inc.id);
+    if (idx === undefined) {
+      idxById.set(inc.id, commits.length);
+      commits.push(inc);
+      commitCounts.added += 1;
+      continue;
+    }
+    const cur = commits[idx];
+    const merged = mergeCommit(cur, inc);
+    if (sameRecord(merged, cur)) {
+      commitCounts.skipped += 1;
+    } else {
+      commits[idx] = merged;
+      commitCounts.updated += 1;
+    }
+  }
+  commits.sort((a, b) => String(a.capturedAt).localeCompare(String(b.capturedAt)));
+
+  return { mode, sessions, commits, sessionCounts, commitCounts };
+}
+
+export function formatRestoreCounts(plan: RestorePlan): string {
+  const fmt = (c: RestoreCounts) => `added ${c.added} / updated ${c.updated} / skipped ${c.skipped}` + (plan.mode === "replace" ? ` / removed ${c.removed}` : "");
+  return [`mode: ${plan.mode}`, `sessions: ${fmt(plan.sessionCounts)}`, `commits: ${fmt(plan.commitCounts)}`].join("\n");
+}
@@ -0,0 +1,147 @@
+import { type CommitRec } from "./query.js";
+import { setLocal } from "./storage.js";
+import { matchesUrnPrefix } from "./tree.js";
+
+// Commits live in IndexedDB (shared by the service worker and extension pages, same origin).
+// chrome.storage.local only keeps a small change marker so pages get storage.onChanged.
+const DB_NAME = "session-download-commits";
+const DB_VERSION = 2;
+const STORE_COMMITS = "commits";
+const SCAN_PAGE_SIZE = 500;
+
+export const LOCAL_COMMITS_REV = "commitsRev";
+
+// ids: commits that were upserted or removed; full: reload everything (restore/clear/migration).
+export type CommitsRev = { at: string; seq: number; ids: string[]; full: boolean };
+
+let seq = 0;
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function req<T>(r: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    r.onsuccess = () => resolve(r.result);
+    r.onerror = () => reject(r.error);
+  });
+}
+
+function txDone(tx: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error || new Error("transaction aborted"));
+  });
+}
+
+export function openCommitDb(): Promise<IDBDatabase> {
+  if (dbPromise) return dbPromise;
+  dbPromise = new Promise((resolve, reject) => {
+    const open = indexedDB.open(DB_NAME, DB_VERSION);
+    open.onupgradeneeded = () => {
+      const db = open.result;
+      const os = db.objectStoreNames.contains(STORE_COMMITS)
+        ? (open.transaction as IDBTransaction).objectStore(STORE_COMMITS)
+        : db.createObjectStore(STORE_COMMITS, { keyPath: "id" });
+      for (const name of ["sessionId", "urn", "capturedAt", "downloadId"]) {
+        if (!os.indexNames.contains(name)) os.createIndex(name, name, { unique: false });
+      }
+    };
+    open.onsuccess = () => resolve(open.result);
+    open.onerror = () => {
+      dbPromise = null;
+      reject(open.error);
+    };
+  });
+  return dbPromise;
+}
+
+async function store(mode: IDBTransactionMode): Promise<{ tx: IDBTransaction; os: IDBObjectStore }> {
+  const db = await openCommitDb();
+  const tx = db.transaction(STORE_COMMITS, mode);
+  return { tx, os: tx.objectStore(STORE_COMMITS) };
+}
+
+export async function getCommit(id: string): Promise<CommitRec | null> {
+  const { os } = await store("readonly");
+  return ((await req(os.get(id))) as CommitRec | undefined) || null;
+}
+
+export async function getCommits(ids: string[]): Promise<CommitRec[]> {
+  const { os } = await store("readonly");
+  const got = await Promise.all(ids.map((id) => req(os.get(id)) as Promise<CommitRec | undefined>));
+  return got.filter((c): c is CommitRec => !!c);
+}
+
+// Oldest first (capturedAt), matching the order the old commits array had.
+export async function getAllCommits(): Promise<CommitRec[]> {
+  const { os } = await store("readonly");
+  return (await req(os.index("capturedAt").getAll())) as CommitRec[];
+}
+
+// Walks the whole store in id order, one short transaction per page, so a large history is
+// never read in a single request. Pages already handed out are not revisited.
+export async function scanCommits(onPage: (page: CommitRec[]) => void, pageSize = SCAN_PAGE_SIZE): Promise<void> {
+  let after: string | null = null;
+  for (;;) {
+    const { os } = await store("readonly");
+    const page = (await req(os.getAll(after === null ? null : IDBKeyRange.lowerBound(after, true), pageSize))) as CommitRec[];
+    if (page.length > 0) onPage(page);
+    if (page.length < pageSize) return;
+    after = page[page.length - 1].id;
+  }
+}
+
+export async function getCommitsBySession(sessionId: string): Promise<CommitRec[]> {
+  const { os } = await store("readonly");
+  return (await req(os.index("sessionId").getAll(sessionId))) as CommitRec[];
+}
+
+// Several commits can share a chrome download id (history cleared, restored backups).
+export async function getCommitsByDownloadId(downloadId: number): Promise<CommitRec[]> {
+  const { os } = await store("readonly");
+  return (await req(os.index("downloadId").getAll(downloadId))) as CommitRec[];
+}
+
+export async function getCommitsByUrnPrefix(prefix: string): Promise<CommitRec[]> {
+  const { os } = await store("readonly");
+  const got = (await req(os.index("urn").getAll(IDBKeyRange.bound(prefix, `${prefix}\uffff`)))) as CommitRec[];
+  return got.filter((c) => !!c.urn && matchesUrnPrefix(c.urn, prefix));
+}
+
+export async function countCommits(): Promise<number> {
+  const { os } = await store("readonly");
+  return await req(os.count());
+}
+
+export async function putCommit(commit: CommitRec): Promise<void> {
+  const { tx, os } = await store("readwrite");
+  os.put(commit);
+  await txDone(tx);
+}
+
+export async function putCommits(commits: CommitRec[]): Promise<void> {
+  if (commits.length === 0) return;
+  const { tx, os } = await store("readwrite");
+  for (const c of commits) os.put(c);
+  await txDone(tx);
+}
+
+export async function deleteCommits(ids: string[]): Promise<void> {
+  if (ids.length === 0) return;
+  const { tx, os } = await store("readwrite");
+  for (const id of ids) os.delete(id);
+  await txDone(tx);
+}
+
+export async function replaceAllCommits(commits: CommitRec[]): Promise<void> {
+  const { tx, os } = await store("readwrite");
+  os.clear();
+  for (const c of commits) os.put(c);
+  await txDone(tx);
+}
+
+export async function notifyCommitsChanged(ids: string[] | null): Promise<void> {
+  // seq keeps two writes within the same millisecond distinct (identical values don't fire onChanged).
+  seq += 1;
+  const rev: CommitsRev = { at: new Date().toISOString(), seq, ids: ids || [], full: ids === null };
+  await setLocal({ [LOCAL_COMMITS_REV]: rev });
+}
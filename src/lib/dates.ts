@@ -0,0 +1,130 @@
+// Date values for on:/after:/before:/this: search keys, resolved against local time.
+// Every value becomes a span [start, end) in epoch ms; `exact` spans are instants (timestamps,
+// relative durations) as opposed to calendar units (a day, a month).
+export type DateSpan = { start: number; end: number; exact: boolean };
+
+// A resolved filter: commit time t matches when from <= t < to (null = open).
+export type DateRange = { from: number | null; to: number | null };
+
+export type DateKey = "on" | "after" | "before" | "this";
+
+const HOUR = 60 * 60 * 1000;
+const DAY = 24 * HOUR;
+
+const DAY_RE = /^(\d{4})-(\d{2})-(\d{2})$/;
+const MONTH_RE = /^(\d{4})-(\d{2})$/;
+const STAMP_RE = /^(\d{4})-(\d{2})-(\d{2})[t ](\d{1,2})(?::(\d{2})(?::(\d{2}))?)?$/;
+const TIME_RE = /^(\d{1,2}):(\d{2})$/;
+const DURATION_RE = /^(\d+)(h|d|w)$/;
+
+const DATE_HINT = "YYYY-MM-DD, YYYY-MM, YYYY-MM-DDTHH:MM, HH:MM, today, yesterday, 12h, 7d, 2w";
+
+function localDay(y: number, m: number, d: number): Date | null {
+  const dt = new Date(y, m - 1, d);
+  // Rejects rollovers such as 2026-02-31.
+  return dt.getFullYear() === y && dt.getMonth() === m - 1 && dt.getDate() === d ? dt : null;
+}
+
+function daySpan(dt: Date): DateSpan {
+  const start = dt.getTime();
+  const end = new Date(dt.getFullYear(), dt.getMonth(), dt.getDate() + 1).getTime();
+  return { start, end, exact: false };
+}
+
+function startOfToday(nowMs: number): Date {
+  const n = new Date(nowMs);
+  return new Date(n.getFullYear(), n.getMonth(), n.getDate());
+}
+
+// Calendar units for this:<unit>. Weeks start on Monday.
+function currentSpan(unit: string, nowMs: number): DateSpan | null {
+  const today = startOfToday(nowMs);
+  if (unit === "day" || unit === "today") return daySpan(today);
+  if (unit === "week") {
+    const back = (today.getDay() + 6) % 7;
+    const start = new Date(today.getFullYear(), today.getMonth(), today.getDate() - back);
+    return { start: start.getTime(), end: new Date(start.getFullYear(), start.getMonth(), start.getDate() + 7).getTime(), exact: false };
+  }
+  if (unit === "month") {
+    return { start: new Date(today.getFullYear(), today.getMonth(), 1).getTime(), end: new Date(today.getFullYear(), today.getMonth() + 1, 1).getTime(), exact: false };
+  }
+  if (unit === "year") {
+    return { start: new Date(today.getFullYear(), 0, 1).getTime(), end: new Date(today.getFullYear() + 1, 0, 1).getTime(), exact: false };
+  }
+  return null;
+}
+
+// Values accepted by on:/after:/before: (lower-cased by the query parser).
+export function parseDateValue(value: string, nowMs: number): DateSpan | null {
+  const v = value.trim().toLowerCase();
+  if (v === "today") return daySpan(startOfToday(nowMs));
+  if (v === "yesterday") {
+    const t = startOfToday(nowMs);
+    return daySpan(new Date(t.getFullYear(), t.getMonth(), t.getDate() - 1));
+  }
+
+  let m = DAY_RE.exec(v);
+  if (m) {
+    const dt = localDay(Number(m[1]), Number(m[2]), Number(m[3]));
+    return dt ? daySpan(dt) : null;
+  }
+  m = MONTH_RE.exec(v);
+  if (m) {
+    const mon = Number(m[2]);
+    if (mon < 1 || mon > 12) return null;
+    const start = new Date(Number(m[1]), mon - 1, 1);
+    return { start: start.getTime(), end: new Date(Number(m[1]), mon, 1).getTime(), exact: false };
+  }
+  m = STAMP_RE.exec(v);
+  if (m) {
+    const day = localDay(Number(m[1]), Number(m[2]), Number(m[3]));
+    const [h, mi, s] = [Number(m[4]), Number(m[5] || 0), Number(m[6] || 0)];
+    if (!day || h > 23 || mi > 59 || s > 59) return null;
+    const at = new Date(day.getFullYear(), day.getMonth(), day.getDate(), h, mi, s).getTime();
+    // Precision follows the input: an hour, a minute or a second.
+    const step = m[6] !== undefined ? 1000 : m[5] !== undefined ? 60 * 1000 : HOUR;
+    return { start: at, end: at + step, exact: true };
+  }
+  m = TIME_RE.exec(v);
+  if (m) {
+    const [h, mi] = [Number(m[1]), Number(m[2])];
+    if (h > 23 || mi > 59) return null;
+    const t = startOfToday(nowMs);
+    const at = new Date(t.getFullYear(), t.getMonth(), t.getDate(), h, mi).getTime();
+    return { start: at, end: at + 60 * 1000, exact: true };
+  }
+  m = DURATION_RE.exec(v);
+  if (m) {
+    const n = Number(m[1]);
+    const ms = n * (m[2] === "h" ? HOUR : m[2] === "d" ? DAY : 7 * DAY);
+    return { start: nowMs - ms, end: nowMs - ms, exact: true };
+  }
+  return null;
+}
+
+// on: covers the whole span; after: is inclusive of it; before: excludes an instant but
+// includes a calendar unit (before:2026-02-28 keeps the 28th, as it always has).
+export function resolveDateTerm(key: DateKey, value: string, nowMs: number): { range: DateRange | null; error: string | null } {
+  if (key === "this") {
+    const span = currentSpan(value.trim().toLowerCase(), nowMs);
+    if (!span) return { range: null, error: `invalid this: value "${value}" (use day, week, month, year)` };
+    return { range: { from: span.start, to: span.end }, error: null };
+  }
+
+  const span = parseDateValue(value, nowMs);
+  if (!span) return { range: null, error: `invalid date for ${key}: "${value}" (${DATE_HINT})` };
+  if (key === "on") {
+    if (span.start === span.end) return { range: null, error: `on: needs a date, not a duration ("${value}"); use after:${value}` };
+    return { range: { from: span.start, to: span.end }, error: null };
+  }
+  if (key === "after") return { range: { from: span.start, to: null }, error: null };
+  return { range: { from: null, to: span.exact ? span.start : span.end }, error: null };
+}
+
+export function inDateRange(range: DateRange, tsIso: string | null | undefined): boolean {
+  const t = Date.parse(tsIso || "");
+  if (!Number.isFinite(t)) return false;
+  if (range.from !== null && t < range.from) return false;
+  if (range.to !== null && t >= range.to) return false;
+  return true;
+}
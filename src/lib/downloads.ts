@@ -0,0 +1,122 @@
+import { getLocal, setLocal } from "./storage.js";
+
+// Ids of the files this extension wrote (backups, archives). onChanged/onErased only carry an
+// id, so they are remembered here; an id is forgotten once chrome erases it, since chrome hands
+// it out again after its history is cleared.
+const LOCAL_OWN_DOWNLOADS = "ownDownloads";
+const MAX_OWN_DOWNLOADS = 200;
+const ownIds = new Set<number>();
+
+async function loadOwnIds(): Promise<number[]> {
+  const got = await getLocal<{ [k: string]: unknown }>([LOCAL_OWN_DOWNLOADS]);
+  const list = got[LOCAL_OWN_DOWNLOADS];
+  return Array.isArray(list) ? list.filter((n): n is number => typeof n === "number") : [];
+}
+
+async function rememberOwnDownload(id: number): Promise<void> {
+  ownIds.add(id);
+  const list = await loadOwnIds();
+  await setLocal({ [LOCAL_OWN_DOWNLOADS]: [...list.filter((n) => n !== id), id].slice(-MAX_OWN_DOWNLOADS) });
+}
+
+export async function isOwnDownloadId(id: number): Promise<boolean> {
+  return ownIds.has(id) || (await loadOwnIds()).includes(id);
+}
+
+export async function forgetOwnDownload(id: number): Promise<void> {
+  ownIds.delete(id);
+  const list = await loadOwnIds();
+  if (list.includes(id)) await setLocal({ [LOCAL_OWN_DOWNLOADS]: list.filter((n) => n !== id) });
+}
+
+// A local blob takes a moment to write; one that has not finished by then is stalled or paused.
+const DOWNLOAD_TIMEOUT_MS = 60_000;
+
+function waitForDownload(id: number, timeoutMs: number): Promise<void> {
+  return new Promise((resolve, reject) => {
+    let done = false;
+    function settle(err: Error | null): void {
+      done = true;
+      clearTimeout(timer);
+      chrome.downloads.onChanged.removeListener(onChanged);
+      if (err) reject(err);
+      else resolve();
+    }
+    function finish(state: string | null, error: string | null): void {
+      if (done) return;
+      if (state === "complete") settle(null);
+      else if (state === "interrupted") settle(new Error(`download interrupted: ${error || "unknown"}`));
+    }
+    // Cancelled, so a file reported as failed does not turn up later.
+    const timer = setTimeout(() => {
+      if (done) return;
+      chrome.downloads.cancel(id, () => void chrome.runtime.lastError);
+      settle(new Error(`download did not finish within ${Math.round(timeoutMs / 1000)}s`));
+    }, timeoutMs);
+    function onChanged(delta: any): void {
+      if (!delta || delta.id !== id || !delta.state) return;
+      finish(String(delta.state.current || ""), delta.error ? String(delta.error.current || "") : null);
+    }
+    chrome.downloads.onChanged.addListener(onChanged);
+
+    // The download may already be finished before the listener is attached.
+    chrome.downloads.search({ id }, (items: any[]) => {
+      const it = items && items[0];
+      if (it) finish(String(it.state || ""), it.error ? String(it.error) : null);
+    });
+  });
+}
+
+// Service workers cannot create blob URLs, so an offscreen document holds the file while it
+// downloads. (A data: URL would grow the file by a third and hit Chrome's 2 MB URL cap.)
+const OFFSCREEN_URL = "offscreen.html";
+
+async function ensureOffscreen(): Promise<void> {
+  const contexts = await chrome.runtime.getContexts({ contextTypes: ["OFFSCREEN_DOCUMENT"], documentUrls: [chrome.runtime.getURL(OFFSCREEN_URL)] });
+  if (contexts.length > 0) return;
+  try {
+    await chrome.offscreen.createDocument({ url: OFFSCREEN_URL, reasons: ["BLOBS"], justification: "Write backup and archive files" });
+  } catch (e) {
+    // Two writes racing to create it; the other one won.
+    if (!String(e).includes("single offscreen")) throw e;
+  }
+}
+
+async function blobUrlFor(text: string, mime: string): Promise<string> {
+  await ensureOffscreen();
+  const res = await chrome.runtime.sendMessage({ type: "OFFSCREEN_BLOB_URL", text, mime });
+  if (!res || !res.ok || typeof res.url !== "string") throw new Error(`could not prepare the file: ${res?.error || "no offscreen response"}`);
+  return res.url;
+}
+
+function revokeBlobUrl(url: string): void {
+  chrome.runtime.sendMessage({ type: "OFFSCREEN_REVOKE_URL", url }).catch(() => {
+    // The offscreen document may already be gone; its URLs went with it.
+  });
+}
+
+// Write a text file through chrome.downloads and wait until it is on disk. Rejects when the
+// download cannot start, is interrupted or does not finish in time, so callers can tell the user.
+export async function downloadText(text: string, filename: string, mime: string, timeoutMs = DOWNLOAD_TIMEOUT_MS): Promise<number> {
+  const url = await blobUrlFor(text, mime);
+  try {
+    const id = await new Promise<number>((resolve, reject) => {
+      chrome.downloads.download({ url, filename, conflictAction: "uniquify", saveAs: false }, (downloadId?: number) => {
+        const err = chrome.runtime.lastError;
+        if (err || typeof downloadId !== "number") return reject(new Error(err?.message || "download failed"));
+        // Synchronously, before any onChanged for it is handled.
+        ownIds.add(downloadId);
+        resolve(downloadId);
+      });
+    });
+    await rememberOwnDownload(id);
+    await waitForDownload(id, timeoutMs);
+    return id;
+  } finally {
+    revokeBlobUrl(url);
+  }
+}
+
+export function isOwnDownload(item: any): boolean {
+  return !!item && typeof item.byExtensionId === "string" && item.byExtensionId === chrome.runtime.id;
+}
@@ -0,0 +1,49 @@
+// Typo-tolerant token matching for ranked search (see lib/rank).
+
+// Words of a filename/title/URL: "urn__feat__Tree-View (1).zip" -> ["urn", "feat", "tree", "view", "1", "zip"].
+export function wordsOf(text: string | null | undefined): string[] {
+  return String(text || "").toLowerCase().split(/[^\p{L}\p{N}]+/u).filter(Boolean);
+}
+
+// Damerau-Levenshtein (optimal string alignment) distance, giving up once it exceeds max.
+export function editDistance(a: string, b: string, max: number): number {
+  if (Math.abs(a.length - b.length) > max) return max + 1;
+  let prev2: number[] = [];
+  let prev = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i += 1) {
+    const cur = [i];
+    let rowMin = i;
+    for (let j = 1; j <= b.length; j += 1) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      let v = Math.min(prev[j] + 1, cur[j - 1] + 1, prev[j - 1] + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) v = Math.min(v, prev2[j - 2] + 1);
+      cur.push(v);
+      rowMin = Math.min(rowMin, v);
+    }
+    if (rowMin > max) return max + 1;
+    prev2 = prev;
+    prev = cur;
+  }
+  return prev[b.length];
+}
+
+// Typos allowed for a needle: none below 4 characters, one up to 7, two beyond.
+export function typoBudget(needle: string): number {
+  if (needle.length < 4) return 0;
+  return needle.length < 8 ? 1 : 2;
+}
+
+// Whether needle is a typo of token, or of the start of token (while still typing).
+export function fuzzyTokenMatch(needle: string, token: string): boolean {
+  const max = typoBudget(needle);
+  if (max === 0) return false;
+  if (editDistance(needle, token, max) <= max) return true;
+  return token.length > needle.length && editDistance(needle, token.slice(0, needle.length), max) <= max;
+}
+
+export function fuzzyMatchesAny(needle: string, tokens: string[]): boolean {
+  // Multi-word needles ("tree view") need every word to be found.
+  const words = wordsOf(needle);
+  if (words.length === 0) return false;
+  return words.every((w) => tokens.some((t) => t.includes(w) || fuzzyTokenMatch(w, t)));
+}
@@ -0,0 +1,46 @@
+import { type CommitRec } from "./query.js";
+
+// chrome.downloads ids restart after the download history is cleared and differ per profile,
+// so a commit id combines: profile epoch (random per install/profile) + download id + start time.
+// Records from before this scheme use the "legacy" epoch.
+export const LEGACY_EPOCH = "legacy";
+
+const LEGACY_ID_RE = /^\d+$/;
+
+export function newProfileEpoch(): string {
+  const bytes = crypto.getRandomValues(new Uint8Array(4));
+  let out = "p";
+  for (const b of bytes) out += b.toString(16).padStart(2, "0");
+  return out;
+}
+
+function startMs(startTime: string | null | undefined): number {
+  const t = Date.parse(startTime || "");
+  return Number.isFinite(t) ? t : 0;
+}
+
+export function commitIdFor(epoch: string, downloadId: number, startTime: string | null | undefined): string {
+  return `${epoch}-${downloadId}-${startMs(startTime)}`;
+}
+
+export function isLegacyCommitId(id: string): boolean {
+  return LEGACY_ID_RE.test(id);
+}
+
+export type DownloadEventTarget = "own" | "pending" | "commit" | "none";
+
+// Where a chrome.downloads onChanged/onErased event for an id belongs. Pending comes before
+// stored commits: after chrome's history is cleared a new download can get the id of an old
+// commit in the same profile epoch, and its deltas must not be written into that commit.
+export function downloadEventTarget(found: { own: boolean; pending: boolean; commit: boolean }): DownloadEventTarget {
+  if (found.own) return "own";
+  if (found.pending) return "pending";
+  return found.commit ? "commit" : "none";
+}
+
+// Old records are keyed by the bare download id. Re-key them (idempotent for new-style ids).
+export function upgradeLegacyCommit(c: CommitRec): CommitRec {
+  if (!isLegacyCommitId(c.id)) return { ...c, downloadId: typeof c.downloadId === "number" ? c.downloadId : null };
+  const downloadId = Number(c.id);
+  return { ...c, id: commitIdFor(LEGACY_EPOCH, downloadId, c.startTime || c.capturedAt), downloadId };
+}
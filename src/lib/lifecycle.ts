@@ -0,0 +1,142 @@
+import { type CommitRec } from "./query.js";
+
+// Download lifecycle fields copied from chrome.downloads (besides state/filename/totalBytes/endTime).
+// null = unknown (older records, or chrome never reported it).
+export type Lifecycle = {
+  error: string | null;         // InterruptReason, e.g. NETWORK_FAILED
+  danger: string | null;        // DangerType, e.g. safe / file / accepted
+  paused: boolean | null;
+  canResume: boolean | null;
+  bytesReceived: number | null;
+  exists: boolean | null;       // false once chrome notices the file was moved/deleted
+  erasedAt: string | null;      // removed from chrome's download history (onErased)
+};
+
+// What a failed/removed commit is flagged as, in the sheet and in is:<flag> queries.
+export type CommitFlag = "failed" | "erased" | "removed" | "paused" | "dangerous";
+
+export const COMMIT_FLAGS: CommitFlag[] = ["failed", "erased", "removed", "paused", "dangerous"];
+
+export const EMPTY_LIFECYCLE: Lifecycle = {
+  error: null,
+  danger: null,
+  paused: null,
+  canResume: null,
+  bytesReceived: null,
+  exists: null,
+  erasedAt: null
+};
+
+const SAFE_DANGER = new Set(["safe", "accepted", "allowlistedByPolicy"]);
+
+function strOrNull(v: unknown): string | null {
+  return typeof v === "string" && v ? v : null;
+}
+
+function boolOrNull(v: unknown): boolean | null {
+  return typeof v === "boolean" ? v : null;
+}
+
+function bytesOrNull(v: unknown): number | null {
+  return typeof v === "number" && Number.isFinite(v) && v >= 0 ? v : null;
+}
+
+// From a chrome.downloads.DownloadItem (onCreated / search).
+export function lifecycleFromItem(item: Record<string, unknown>): Lifecycle {
+  return {
+    error: strOrNull(item.error),
+    danger: strOrNull(item.danger),
+    paused: boolOrNull(item.paused),
+    canResume: boolOrNull(item.canResume),
+    bytesReceived: bytesOrNull(item.bytesReceived),
+    exists: boolOrNull(item.exists),
+    erasedAt: null
+  };
+}
+
+// Fills fields that records written before lifecycle tracking don't have.
+export function withLifecycleDefaults<T extends object>(rec: T): T & Lifecycle {
+  const out = { ...rec } as Record<string, unknown>;
+  for (const [k, v] of Object.entries(EMPTY_LIFECYCLE)) {
+    if (out[k] === undefined) out[k] = v;
+  }
+  return out as T & Lifecycle;
+}
+
+type DeltaTarget = Lifecycle & {
+  state: string | null;
+  filename: string | null;
+  finalUrl: string | null; // changes on redirects; may carry the URN (see urnSources)
+  totalBytes: number | null;
+  endTime: string | null;
+};
+
+// Applies a chrome.downloads.DownloadDelta ({ key: { previous, current } }). Returns a copy.
+// bytesReceived is not part of deltas; the caller refreshes it from downloads.search.
+export function applyDownloadDelta<T extends DeltaTarget>(rec: T, delta: Record<string, any>): T {
+  const next = { ...rec };
+  const cur = (k: string): unknown => (delta[k] && typeof delta[k] === "object" ? delta[k].current : undefined);
+
+  const state = cur("state");
+  if (typeof state === "string" && state) next.state = state;
+  const filename = cur("filename");
+  if (typeof filename === "string" && filename) next.filename = filename;
+  const finalUrl = cur("finalUrl");
+  if (typeof finalUrl === "string" && finalUrl) next.finalUrl = finalUrl;
+  const totalBytes = cur("totalBytes");
+  if (typeof totalBytes === "number") next.totalBytes = totalBytes;
+  const endTime = cur("endTime");
+  if (typeof endTime === "string" && endTime) next.endTime = endTime;
+
+  // error/danger can be cleared (e.g. a resumed download), so an explicit delta always wins.
+  if (delta.error) next.error = strOrNull(cur("error"));
+  if (delta.danger) next.danger = strOrNull(cur("danger"));
+  if (delta.paused) next.paused = boolOrNull(cur("paused"));
+  if (delta.canResume) next.canResume = boolOrNull(cur("canResume"));
+  if (delta.exists) next.exists = boolOrNull(cur("exists"));
+
+  // A resumed download leaves "interrupted"; its previous error no longer applies.
+  if (next.state === "in_progress" && !delta.error) next.error = null;
+  if (next.state === "complete" && next.totalBytes !== null) next.bytesReceived = next.totalBytes;
+  return next;
+}
+
+export function commitFlags(c: CommitRec): CommitFlag[] {
+  const out: CommitFlag[] = [];
+  if (c.state === "interrupted" || (!!c.error && c.state !== "complete")) out.push("failed");
+  if (c.erasedAt) out.push("erased");
+  if (c.exists === false) out.push("removed");
+  if (c.paused === true && c.state === "in_progress") out.push("paused");
+  if (c.danger && !SAFE_DANGER.has(c.danger)) out.push("dangerous");
+  return out;
+}
+
+// Failed or no longer available: gets the warning marker in the tree.
+export function isBrokenCommit(c: CommitRec): boolean {
+  return commitFlags(c).some((f) => f === "failed" || f === "erased" || f === "removed");
+}
+
+function formatBytes(n: number): string {
+  if (n < 1024) return `${n}B`;
+  if (n < 1024 * 1024) return `${(n / 1024).toFixed(1)}KB`;
+  if (n < 1024 * 1024 * 1024) return `${(n / 1024 / 1024).toFixed(1)}MB`;
+  return `${(n / 1024 / 1024 / 1024).toFixed(2)}GB`;
+}
+
+// Short labels for the commit sheet, most important first.
+export function lifecycleLabels(c: CommitRec): string[] {
+  const out: string[] = [];
+  const flags = commitFlags(c);
+  if (c.error) out.push(`error:${c.error}`);
+  if (flags.includes("dangerous")) out.push(`danger:${c.danger}`);
+  if (flags.includes("erased")) out.push("erased");
+  if (flags.includes("removed")) out.push("file removed");
+  if (flags.includes("paused")) out.push(c.canResume === false ? "paused" : "paused (resumable)");
+  else if (flags.includes("failed") && c.canResume === true) out.push("resumable");
+  if (c.state !== "complete" && c.bytesReceived !== null) {
+    out.push(c.totalBytes ? `${formatBytes(c.bytesReceived)}/${formatBytes(c.totalBytes)}` : formatBytes(c.bytesReceived));
+  } else if (c.totalBytes !== null && c.totalBytes > 0) {
+    out.push(formatBytes(c.totalBytes));
+  }
+  return out;
+}
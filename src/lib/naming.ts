@@ -0,0 +1,185 @@
+import { getSync, removeSync, setSync, SYNC_ITEM_BYTES, syncItemBytes } from "./storage.js";
+import { type TreeModel } from "./tree.js";
+import { DEFAULT_NAMESPACES, normalizeUrnCandidate } from "./urn.js";
+
+// The naming contract (>naming): a short text pasted into a chat session so that whatever it
+// produces gets a filename this extension can place in the URN tree. Templates are editable in
+// options; {{placeholders}} are filled from the selected container.
+
+export type NamingLang = "ja" | "en";
+
+export const NAMING_LANGS: NamingLang[] = ["ja", "en"];
+
+// User templates, one sync key per language ("namingTemplate:ja"): a full ja template is close to
+// the per-item quota on its own. Missing or "" = the built-in one. Older versions kept both
+// languages in one "namingTemplates" item; it is read until the next save moves them.
+export const SYNC_NAMING_TEMPLATE_PREFIX = "namingTemplate:";
+const SYNC_NAMING_TEMPLATES_LEGACY = "namingTemplates";
+
+export type NamingTemplates = Partial<Record<NamingLang, string>>;
+
+export function namingTemplateKey(lang: NamingLang): string {
+  return `${SYNC_NAMING_TEMPLATE_PREFIX}${lang}`;
+}
+const MAX_CHILDREN = 8;
+
+// NOTE: Avoid code blocks here; users paste into chat as a short “contract”.
+export const DEFAULT_NAMING_TEMPLATES: Record<NamingLang, string> = {
+  ja: [
+    "【ファイル命名規約（この拡張がURNツリー化するための契約）】",
+    "",
+    "前提: この拡張は“ダウンロードファイル名”からURNトークンを抽出してツリー化します。",
+    "作業中のコンテナ: {{prefix}}",
+    "既存の子セグメント: {{children}}",
+    "",
+    "必須ルール:",
+    "1) ファイル名にURNトークンを必ず含めてください（推奨: 先頭）。",
+    "2) 拡張子は必須です（例: .zip / .pdf / .html / .tar.gz）。",
+    "   - 多段拡張子も許可します（例: .tar.gz / .jsonl.gz / .zip.crdownload）。",
+    "3) Windows等でコロン(:)が使えないため、URNは安全トークン形式で埋め込みます。",
+    "4) トークン形式:",
+    "{{tokenFormats}}",
+    "   - このコンテナ配下: {{prefixToken}}__<seg>__...__<leaf>",
+    "   ※ ‘__’ がURNの区切り（:）相当です。",
+    "5) segは [a-z0-9_-] のみ（ドット(.) / スペース / 括弧 / 日本語 / 絵文字は不可）。",
+    "   - ブラウザが重複ダウンロードで付ける ' (1)' / '(1)' は許可（URNトークンの外側のサフィックスとして扱います）。",
+    "   - バージョン表記は v1-2-3 / v1_2_3 のように '.' を使わないでください（例: v0.1.2 は不可）。",
+    "6) トークンが無い/無効なファイルはURNツリーに入りません（urn-only ON の場合は記録されません）。",
+    "",
+    "例）論理URN: {{exampleUrn}}",
+    "    ファイル名例: {{exampleFile}}"
+  ].join("\n"),
+  en: [
+    "[File naming contract (how this extension files downloads into its URN tree)]",
+    "",
+    "This extension reads a URN token from each download's filename and files it into a tree.",
+    "Working container: {{prefix}}",
+    "Existing child segments: {{children}}",
+    "",
+    "Rules:",
+    "1) Every filename must contain a URN token (preferably at the start).",
+    "2) An extension is required (e.g. .zip / .pdf / .html / .tar.gz).",
+    "   - Multi-part extensions are fine (e.g. .tar.gz / .jsonl.gz / .zip.crdownload).",
+    "3) Colons (:) are not allowed in filenames on Windows and elsewhere, so the URN is embedded as a safe token.",
+    "4) Token format:",
+    "{{tokenFormats}}",
+    "   - Under this container: {{prefixToken}}__<seg>__...__<leaf>",
+    "   Note: '__' stands for the URN separator (:).",
+    "5) Segments use [a-z0-9_-] only (no dots, spaces, brackets, non-ASCII or emoji).",
+    "   - The ' (1)' / '(1)' browsers add to duplicate downloads is fine (it is read as a suffix outside the token).",
+    "   - Write versions without '.', e.g. v1-2-3 or v1_2_3 (v0.1.2 is rejected).",
+    "6) Files without a valid token are not filed into the URN tree (and not recorded at all with urn-only ON).",
+    "",
+    "Example) logical URN: {{exampleUrn}}",
+    "         filename: {{exampleFile}}"
+  ].join("\n")
+};
+
+const NONE: Record<NamingLang, { prefix: string; children: string }> = {
+  ja: { prefix: "（指定なし）", children: "（まだありません）" },
+  en: { prefix: "(none)", children: "(none yet)" }
+};
+
+export type NamingContext = {
+  prefix: string | null; // canonical URN prefix, e.g. urn:feat:sessions
+  children: string[];    // existing child segments, most used first
+  namespaces: readonly string[];
+};
+
+export function isNamingLang(v: string): v is NamingLang {
+  return (NAMING_LANGS as string[]).includes(v);
+}
+
+// "urn:feat:sessions", "feat:sessions" or "feat/sessions" -> urn:feat:sessions; null if not a URN.
+export function namingPrefixOf(arg: string): string | null {
+  const raw = String(arg || "").trim().toLowerCase().replace(/^urn:/, "").replace(/\//g, ":");
+  return raw ? normalizeUrnCandidate(`urn:${raw}`, { namespaces: null }) : null;
+}
+
+// The context for a container: its child segments come from the tree of stored commits.
+export function namingContextFor(model: TreeModel | null, prefix: string | null, namespaces: readonly string[] = DEFAULT_NAMESPACES): NamingContext {
+  const node = prefix && model ? model.byId.get(prefix) : undefined;
+  const children = node
+    ? [...node.children].sort((a, b) => b.commitCount - a.commitCount || a.label.localeCompare(b.label)).slice(0, MAX_CHILDREN).map((c) => c.label)
+    : [];
+  return { prefix, children, namespaces };
+}
+
+function tokenOf(urn: string): string {
+  return urn.replace(/:/g, "__");
+}
+
+// Fills {{prefix}}, {{children}}, {{tokenFormats}}, {{prefixToken}}, {{exampleUrn}} and
+// {{exampleFile}}. Unknown placeholders are left as they are.
+export function buildNamingContract(template: string, ctx: NamingContext, lang: NamingLang): string {
+  const ns = ctx.namespaces.length > 0 ? ctx.namespaces : DEFAULT_NAMESPACES;
+  const exampleUrn = ctx.prefix
+    ? `${ctx.prefix}:${ctx.children[0] ?? "example"}`
+    : `urn:${ns[0]}:sessions:chrome:download-commits`;
+  const vars: Record<string, string> = {
+    prefix: ctx.prefix ?? NONE[lang].prefix,
+    children: ctx.children.length > 0 ? ctx.children.join(", ") : NONE[lang].children,
+    tokenFormats: ns.map((n) => `   - ${n}: urn__${n}__<seg1>__<seg2>__...__<leaf>`).join("\n"),
+    prefixToken: ctx.prefix ? tokenOf(ctx.prefix) : `urn__${ns[0]}`,
+    exampleUrn,
+    exampleFile: `${tokenOf(exampleUrn)}.zip`
+  };
+  return template.replace(/\{\{(\w+)\}\}/g, (all, key: string) => vars[key] ?? all);
+}
+
+// The longest head of text (whole code points) whose sync item fits the per-item quota.
+function clipToSyncItem(key: string, text: string): string {
+  if (syncItemBytes(key, text) <= SYNC_ITEM_BYTES) return text;
+  const cps = [...text];
+  let lo = 0;
+  let hi = cps.length;
+  while (lo < hi) {
+    const mid = Math.ceil((lo + hi) / 2);
+    if (syncItemBytes(key, cps.slice(0, mid).join("")) <= SYNC_ITEM_BYTES) lo = mid;
+    else hi = mid - 1;
+  }
+  return cps.slice(0, lo).join("");
+}
+
+// Only non-empty strings for known languages, cut to fit their sync item; a template equal to the
+// built-in one is dropped.
+export function normalizeNamingTemplates(raw: unknown): NamingTemplates {
+  const r = (raw && typeof raw === "object" ? raw : {}) as Record<string, unknown>;
+  const out: NamingTemplates = {};
+  for (const lang of NAMING_LANGS) {
+    const v = typeof r[lang] === "string" ? clipToSyncItem(namingTemplateKey(lang), (r[lang] as string).replace(/\r\n/g, "\n").trim()).trimEnd() : "";
+    if (v && v !== DEFAULT_NAMING_TEMPLATES[lang]) out[lang] = v;
+  }
+  return out;
+}
+
+export function namingTemplateFor(templates: NamingTemplates, lang: NamingLang): string {
+  return templates[lang] ?? DEFAULT_NAMING_TEMPLATES[lang];
+}
+
+// Each language from its own key, else from the legacy item.
+async function loadStored(): Promise<{ templates: NamingTemplates; legacy: boolean }> {
+  const got = await getSync<{ [k: string]: unknown }>([SYNC_NAMING_TEMPLATES_LEGACY, ...NAMING_LANGS.map(namingTemplateKey)]);
+  const old = (got[SYNC_NAMING_TEMPLATES_LEGACY] && typeof got[SYNC_NAMING_TEMPLATES_LEGACY] === "object" ? got[SYNC_NAMING_TEMPLATES_LEGACY] : {}) as Record<string, unknown>;
+  const raw = Object.fromEntries(NAMING_LANGS.map((lang) => [lang, got[namingTemplateKey(lang)] ?? old[lang]]));
+  return { templates: normalizeNamingTemplates(raw), legacy: got[SYNC_NAMING_TEMPLATES_LEGACY] !== undefined };
+}
+
+export async function loadNamingTemplates(): Promise<NamingTemplates> {
+  return (await loadStored()).templates;
+}
+
+// Sets (or, with null / the built-in text, resets) one language's template. Rejects when sync
+// storage refuses the write, so the options page can say so.
+export async function saveNamingTemplate(lang: NamingLang, text: string | null): Promise<NamingTemplates> {
+  const { templates, legacy } = await loadStored();
+  const next = normalizeNamingTemplates({ ...templates, [lang]: text ?? "" });
+  if (!legacy) {
+    await setSync({ [namingTemplateKey(lang)]: next[lang] ?? "" });
+    return next;
+  }
+  // Move every language out of the legacy item before dropping it.
+  await setSync(Object.fromEntries(NAMING_LANGS.map((l) => [namingTemplateKey(l), next[l] ?? ""])));
+  await removeSync(SYNC_NAMING_TEMPLATES_LEGACY);
+  return next;
+}
@@ -1,61 +1,371 @@
-import { localDateKey } from "./util.js";
+import { inDateRange, resolveDateTerm, type DateKey, type DateRange } from "./dates.js";
+import { COMMIT_FLAGS, commitFlags, type CommitFlag } from "./lifecycle.js";
+import { matchesUrnGlob, matchesUrnPrefix, urnDepth } from "./tree.js";
+import { isInferredUrnSource, normalizeUrnCandidate, urnToSegments } from "./urn.js";
+import { fuzzyMatchesAny, wordsOf } from "./fuzzy.js";
+
+// Search grammar (Google-like):
+//   query   := or
+//   or      := and ("OR" and)*
+//   and     := unary (["AND"] unary)*        adjacent terms are ANDed
+//   unary   := "-" unary | primary           -term / -urn:test / -(a OR b)
+//   primary := "(" or ")" | term
+//   term    := [key ":"] (word | "quoted phrase")
+// Date keys (on/after/before/this) are resolved to absolute ranges at parse time, so relative
+// values like after:7d or this:week are relative to when the query was parsed.
+// urn: is a substring match unless anchored: urn:^feat:a (prefix), urn:feat:*:a (glob).
+// OR/AND are operators only in upper case; "or" is an ordinary term.
+export type QueryKey =
+  | "session" | "file" | "urn" | "on" | "after" | "before" | "is" | "state" | "error"
+  | "host" | "ext" | "mime" | "size" | "source" | "this" | "depth";
+
+export type QueryExpr =
+  | { kind: "term"; key: QueryKey | null; value: string; quoted: boolean; pos: number; range?: DateRange }
+  | { kind: "not"; expr: QueryExpr }
+  | { kind: "and"; items: QueryExpr[] }
+  | { kind: "or"; items: QueryExpr[] };
 
 export type Query = {
   raw: string;
   command: string | null;
-  terms: string[];
-  sessionTerms: string[];
-  fileTerms: string[];
-  urnTerms: string[];
-  on: string | null;
-  after: string | null;
-  before: string | null;
-  isUnknownUrn: boolean;
+  args: string[];
+  expr: QueryExpr | null;  // null = no filter
+  error: string | null;    // parse error; a query with an error matches nothing
 };
 
-const SUPPORTED_KEYS = new Set(["session", "file", "urn", "on", "after", "before", "is"]);
+export const SUPPORTED_KEYS = new Set<string>([
+  "session", "file", "urn", "on", "after", "before", "is", "state", "error",
+  "host", "ext", "mime", "size", "source", "this", "depth"
+]);
+
+const DATE_KEYS = new Set<string>(["on", "after", "before", "this"]);
+
+const UNKNOWN_URN_VALUES = new Set(["unknown", "unknownurn", "unknown_urn"]);
+// is:inferred -> the URN came from a URL or the page title, not the filename.
+const INFERRED_VALUE = "inferred";
 
 function norm(s: string): string {
   return String(s || "").trim().toLowerCase();
 }
 
-export function parseQuery(input: string | null | undefined): Query {
-  const raw = String(input || "").trim();
-  if (!raw) {
-    return { raw: "", command: null, terms: [], sessionTerms: [], fileTerms: [], urnTerms: [], on: null, after: null, before: null, isUnknownUrn: false };
+type Token =
+  | { t: "(" | ")" | "OR" | "AND" | "-"; pos: number }
+  | { t: "term"; key: QueryKey | null; value: string; quoted: boolean; pos: number };
+
+function fail(message: string, pos: number): never {
+  // Columns are 1-based for people.
+  throw new SyntaxError(`${message} (col ${pos + 1})`);
+}
+
+function isSpace(ch: string): boolean {
+  return /\s/.test(ch);
+}
+
+// Reads "..." starting at the opening quote. Backslash escapes the next character.
+function readQuoted(src: string, start: number): { value: string; end: number } {
+  let out = "";
+  let i = start + 1;
+  while (i < src.length) {
+    const ch = src[i];
+    if (ch === "\\" && i + 1 < src.length) {
+      out += src[i + 1];
+      i += 2;
+      continue;
+    }
+    if (ch === '"') return { value: out, end: i + 1 };
+    out += ch;
+    i += 1;
   }
-  if (raw.startsWith(">")) {
-    const cmd = raw.slice(1).trim().split(/\s+/g)[0] || "";
-    return { raw, command: cmd.toLowerCase(), terms: [], sessionTerms: [], fileTerms: [], urnTerms: [], on: null, after: null, before: null, isUnknownUrn: false };
-  }
-
-  const tokens = raw.split(/\s+/g).filter(Boolean);
-  const q: Query = { raw, command: null, terms: [], sessionTerms: [], fileTerms: [], urnTerms: [], on: null, after: null, before: null, isUnknownUrn: false };
-
-  for (const t0 of tokens) {
-    const t = t0.trim();
-    const idx = t.indexOf(":");
-    if (idx > 0) {
-      const k = norm(t.slice(0, idx));
-      const v = t.slice(idx + 1);
-      if (SUPPORTED_KEYS.has(k)) {
-        const vv = norm(v);
-        if (k === "session") q.sessionTerms.push(vv);
-        else if (k === "file") q.fileTerms.push(vv);
-        else if (k === "urn") q.urnTerms.push(vv);
-        else if (k === "on") q.on = vv || null;
-        else if (k === "after") q.after = vv || null;
-        else if (k === "before") q.before = vv || null;
-        else if (k === "is") {
-          if (vv === "unknown" || vv === "unknownurn" || vv === "unknown_urn") q.isUnknownUrn = true;
-        }
+  return fail("unterminated quote", start);
+}
+
+function termToken(word: string, pos: number, quotedValue: string | null): Token {
+  const idx = word.indexOf(":");
+  if (idx > 0) {
+    const k = norm(word.slice(0, idx));
+    if (SUPPORTED_KEYS.has(k)) {
+      const value = quotedValue !== null ? quotedValue : word.slice(idx + 1);
+      return { t: "term", key: k as QueryKey, value: norm(value), quoted: quotedValue !== null, pos };
+    }
+  }
+  return { t: "term", key: null, value: norm(quotedValue !== null ? word + quotedValue : word), quoted: quotedValue !== null, pos };
+}
+
+function tokenize(src: string): Token[] {
+  const out: Token[] = [];
+  let i = 0;
+  while (i < src.length) {
+    const ch = src[i];
+    if (isSpace(ch)) {
+      i += 1;
+      continue;
+    }
+    if (ch === "(" || ch === ")") {
+      out.push({ t: ch, pos: i });
+      i += 1;
+      continue;
+    }
+    if (ch === "-") {
+      const next = src[i + 1];
+      if (next === undefined || isSpace(next) || next === ")") fail('"-" must be followed by a term', i);
+      out.push({ t: "-", pos: i });
+      i += 1;
+      continue;
+    }
+    if (ch === '"') {
+      const q = readQuoted(src, i);
+      out.push({ t: "term", key: null, value: norm(q.value), quoted: true, pos: i });
+      i = q.end;
+      continue;
+    }
+
+    // A word runs to whitespace, a quote, or a ")" that is not balanced inside the word,
+    // so filenames like "report(1).zip" stay one term.
+    const start = i;
+    let depth = 0;
+    while (i < src.length) {
+      const c = src[i];
+      if (isSpace(c) || c === '"') break;
+      if (c === "(") depth += 1;
+      if (c === ")") {
+        if (depth === 0) break;
+        depth -= 1;
+      }
+      i += 1;
+    }
+    const word = src.slice(start, i);
+    if (word === "OR" || word === "AND") {
+      out.push({ t: word, pos: start });
+      continue;
+    }
+    // key:"quoted value"
+    if (word.endsWith(":") && src[i] === '"') {
+      const q = readQuoted(src, i);
+      out.push(termToken(word, start, q.value));
+      i = q.end;
+      continue;
+    }
+    out.push(termToken(word, start, null));
+  }
+  return out;
+}
+
+type CompareOp = ">" | ">=" | "<" | "<=" | "=";
+
+export type SizeFilter = { op: CompareOp; bytes: number };
+
+function compare(op: CompareOp, n: number, target: number): boolean {
+  if (op === ">") return n > target;
+  if (op === ">=") return n >= target;
+  if (op === "<") return n < target;
+  if (op === "<=") return n <= target;
+  return n === target;
+}
+
+const SIZE_RE = /^(>=|<=|>|<|=)\s*(\d+(?:\.\d+)?)\s*(b|kb|mb|gb|tb)?$/;
+const SIZE_UNITS: Record<string, number> = { b: 1, kb: 1024, mb: 1024 ** 2, gb: 1024 ** 3, tb: 1024 ** 4 };
+
+// size:>10mb / size:<=1.5gb / size:=0 (units are binary; no unit = bytes).
+export function parseSizeFilter(value: string): SizeFilter | null {
+  const m = SIZE_RE.exec(norm(value));
+  if (!m) return null;
+  return { op: m[1] as CompareOp, bytes: Math.round(Number(m[2]) * SIZE_UNITS[m[3] || "b"]) };
+}
+
+export type DepthFilter = { op: CompareOp; depth: number };
+
+const DEPTH_RE = /^(>=|<=|>|<|=)?\s*(\d+)$/;
+
+// depth:3 / depth:<=2 (urn:feat itself is depth 0, like the tree).
+export function parseDepthFilter(value: string): DepthFilter | null {
+  const m = DEPTH_RE.exec(norm(value));
+  return m ? { op: (m[1] || "=") as CompareOp, depth: Number(m[2]) } : null;
+}
+
+// Term values are re-read for every commit; parse each distinct value once.
+function memo<T>(fn: (value: string) => T): (value: string) => T {
+  const cache = new Map<string, T>();
+  return (value) => {
+    if (cache.has(value)) return cache.get(value) as T;
+    const out = fn(value);
+    if (cache.size >= 256) cache.clear();
+    cache.set(value, out);
+    return out;
+  };
+}
+
+const sizeFilterOf = memo(parseSizeFilter);
+const depthFilterOf = memo(parseDepthFilter);
+
+// urn:^feat:a -> "urn:feat:a". The "urn:" head is optional in queries.
+const urnPrefixOf = memo((value: string): string => {
+  const raw = value.slice(1).replace(/^urn:/, "").replace(/\//g, ":");
+  const full = `urn:${raw}`;
+  return normalizeUrnCandidate(full, { namespaces: null }) || full;
+});
+
+// The URN prefix every match of an urn: value lies under, or null for plain substrings and
+// patterns that start with a wildcard. Used by the search index to narrow candidates.
+export function urnTermPrefix(value: string): string | null {
+  if (value.startsWith("^") && !value.includes("*")) return urnPrefixOf(value);
+  if (!value.includes("*")) return null;
+  const segs = value.replace(/^\^/, "").replace(/^urn:/, "").split(/[:/]+/g).filter(Boolean);
+  const literal: string[] = [];
+  for (const seg of segs) {
+    if (seg.includes("*")) break;
+    literal.push(seg);
+  }
+  return literal.length ? `urn:${literal.join(":")}` : null;
+}
+
+function urnTermMatches(urn: string | null, value: string): boolean {
+  if (!urn) return false;
+  const u = urn.toLowerCase();
+  if (value.startsWith("^")) {
+    // ^ with wildcards is a glob that also takes any subtree below it.
+    return value.includes("*") ? matchesUrnGlob(u, `${value.slice(1)}:**`) : matchesUrnPrefix(u, urnPrefixOf(value));
+  }
+  if (value.includes("*")) return matchesUrnGlob(u, value);
+  return u.includes(value);
+}
+
+// Compound extensions that only make sense together with the next one (archive.tar.gz).
+const INNER_EXTENSIONS = new Set(["tar"]);
+
+// "dir/a.tar.gz" -> ["tar.gz", "gz"]; "a.zip" -> ["zip"]; no extension -> [].
+export function fileExtensions(filename: string | null | undefined): string[] {
+  const base = String(filename || "").split(/[\\/]/g).pop() || "";
+  const parts = base.toLowerCase().split(".");
+  // ".bashrc" is a name, not an extension.
+  if (parts.length < 2 || !parts[parts.length - 1] || (parts.length === 2 && parts[0] === "")) return [];
+  const last = parts[parts.length - 1];
+  const inner = parts.length >= 3 ? parts[parts.length - 2] : "";
+  return INNER_EXTENSIONS.has(inner) ? [`${inner}.${last}`, last] : [last];
+}
+
+function checkTerm(tok: Extract<Token, { t: "term" }>, nowMs: number): DateRange | undefined {
+  if (tok.key === "is" && tok.value && !UNKNOWN_URN_VALUES.has(tok.value) && tok.value !== INFERRED_VALUE && !(COMMIT_FLAGS as string[]).includes(tok.value)) {
+    fail(`unknown is: value "${tok.value}" (use unknown, ${INFERRED_VALUE}, ${COMMIT_FLAGS.join(", ")})`, tok.pos);
+  }
+  if (tok.key === "size" && tok.value && !parseSizeFilter(tok.value)) {
+    fail(`invalid size: value "${tok.value}" (e.g. size:>10mb, size:<=512kb)`, tok.pos);
+  }
+  if (tok.key === "depth" && tok.value && !parseDepthFilter(tok.value)) {
+    fail(`invalid depth: value "${tok.value}" (e.g. depth:3, depth:<=2)`, tok.pos);
+  }
+  if (tok.key === "urn" && /^\^(urn:?)?$/.test(tok.value)) {
+    fail(`urn: prefix "${tok.value}" is empty (e.g. urn:^feat:sessions)`, tok.pos);
+  }
+  if (tok.key && DATE_KEYS.has(tok.key) && tok.value) {
+    const r = resolveDateTerm(tok.key as DateKey, tok.value, nowMs);
+    if (!r.range) fail(r.error || "invalid date", tok.pos);
+    return r.range;
+  }
+  return undefined;
+}
+
+// Recursive descent over the token list. Empty key values ("file:" while typing) parse to null
+// and simply drop out of the expression.
+function parseTokens(tokens: Token[], srcLength: number, nowMs: number): QueryExpr | null {
+  let i = 0;
+  const peek = (): Token | undefined => tokens[i];
+  const endPos = (): number => (peek() ? (peek() as Token).pos : srcLength);
+
+  function combine(kind: "and" | "or", items: (QueryExpr | null)[]): QueryExpr | null {
+    const kept = items.filter((e): e is QueryExpr => e !== null);
+    if (kept.length === 0) return null;
+    return kept.length === 1 ? kept[0] : { kind, items: kept };
+  }
+
+  function startsOperand(tok: Token | undefined): boolean {
+    return !!tok && (tok.t === "term" || tok.t === "(" || tok.t === "-");
+  }
+
+  function parseOr(): QueryExpr | null {
+    const items = [parseAnd()];
+    while (peek()?.t === "OR") {
+      const op = peek() as Token;
+      i += 1;
+      if (!startsOperand(peek())) fail('"OR" needs a term on both sides', op.pos);
+      items.push(parseAnd());
+    }
+    return combine("or", items);
+  }
+
+  function parseAnd(): QueryExpr | null {
+    const first = peek();
+    if (!startsOperand(first)) {
+      if (!first) fail("expected a term", srcLength);
+      if (first.t === "OR" || first.t === "AND") fail(`"${first.t}" needs a term on both sides`, first.pos);
+      fail('unexpected ")"', first.pos);
+    }
+    const items = [parseUnary()];
+    for (;;) {
+      const tok = peek();
+      if (tok?.t === "AND") {
+        i += 1;
+        if (!startsOperand(peek())) fail('"AND" needs a term on both sides', tok.pos);
+        items.push(parseUnary());
         continue;
       }
+      if (!startsOperand(tok)) break;
+      items.push(parseUnary());
     }
-    q.terms.push(norm(t));
+    return combine("and", items);
   }
 
-  return q;
+  function parseUnary(): QueryExpr | null {
+    const tok = peek() as Token;
+    if (tok.t === "-") {
+      i += 1;
+      if (!startsOperand(peek())) fail('"-" must be followed by a term', tok.pos);
+      const inner = parseUnary();
+      return inner ? { kind: "not", expr: inner } : null;
+    }
+    return parsePrimary();
+  }
+
+  function parsePrimary(): QueryExpr | null {
+    const tok = peek() as Token;
+    if (tok.t === "(") {
+      i += 1;
+      if (peek()?.t === ")") fail("empty parentheses", tok.pos);
+      const inner = parseOr();
+      if (peek()?.t !== ")") fail('missing ")" for this "("', tok.pos);
+      i += 1;
+      return inner;
+    }
+    if (tok.t !== "term") return fail(`unexpected "${tok.t}"`, tok.pos);
+    i += 1;
+    const range = checkTerm(tok, nowMs);
+    if (!tok.value) return null;
+    const term: Extract<QueryExpr, { kind: "term" }> = { kind: "term", key: tok.key, value: tok.value, quoted: tok.quoted, pos: tok.pos };
+    if (range) term.range = range;
+    return term;
+  }
+
+  if (tokens.length === 0) return null;
+  const expr = parseOr();
+  if (i < tokens.length) fail(`unexpected "${(peek() as Token).t}"`, endPos());
+  return expr;
+}
+
+// opts.now (epoch ms) anchors today/yesterday/7d/this:week; tests pass a fixed clock.
+export function parseQuery(input: string | null | undefined, opts: { now?: number } = {}): Query {
+  const raw = String(input || "").trim();
+  if (!raw) return { raw: "", command: null, args: [], expr: null, error: null };
+  if (raw.startsWith(">")) {
+    const parts = raw.slice(1).trim().split(/\s+/g).filter(Boolean);
+    const cmd = parts[0] || "";
+    return { raw, command: cmd.toLowerCase(), args: parts.slice(1), expr: null, error: null };
+  }
+
+  try {
+    return { raw, command: null, args: [], expr: parseTokens(tokenize(raw), raw.length, opts.now ?? Date.now()), error: null };
+  } catch (e) {
+    if (!(e instanceof SyntaxError)) throw e;
+    return { raw, command: null, args: [], expr: null, error: e.message };
+  }
 }
 
 export type SessionRec = {
@@ -69,7 +379,8 @@ export type SessionRec = {
 };
 
 export type CommitRec = {
-  id: string;
+  id: string;                // unique commit id (see lib/identity)
+  downloadId: number | null; // chrome.downloads id; not unique across history clears/profiles
   sessionId: string | null;
   sessionUrl: string | null;
   capturedAt: string;
@@ -84,55 +395,198 @@ export type CommitRec = {
   totalBytes: number | null;
   urn: string | null;
   urnSource: string | null;
+  // Lifecycle (see lib/lifecycle)
+  error: string | null;
+  danger: string | null;
+  paused: boolean | null;
+  canResume: boolean | null;
+  bytesReceived: number | null;
+  exists: boolean | null;
+  erasedAt: string | null;
 };
 
-function includesAny(hay: string, needles: string[]): boolean {
-  const hh = hay.toLowerCase();
-  for (const n of needles) {
-    if (!n) continue;
-    if (hh.includes(n)) return true;
+// Evaluation is three-valued: null means "depends on a commit" when only a session is known.
+type Tri = boolean | null;
+
+// Haystacks are cached per record object. Records are replaced, never mutated, when they
+// change (storage reloads hand out new objects), so identity is a safe cache key.
+const sessionHayCache = new WeakMap<SessionRec, string>();
+const fileHayCache = new WeakMap<CommitRec, string>();
+const commitHostsCache = new WeakMap<CommitRec, string[]>();
+const commitExtsCache = new WeakMap<CommitRec, string[]>();
+const commitTokensCache = new WeakMap<CommitRec, string[]>();
+const sessionTokensCache = new WeakMap<SessionRec, string[]>();
+
+export function sessionHay(s: SessionRec | null): string {
+  if (!s) return "";
+  let hay = sessionHayCache.get(s);
+  if (hay === undefined) {
+    hay = `${s.title || ""} ${s.url || ""}`.trim().toLowerCase();
+    sessionHayCache.set(s, hay);
   }
-  return needles.length === 0;
+  return hay;
 }
 
-function dateOk(q: Query, tsIso: string | null | undefined): boolean {
-  const dk = localDateKey(tsIso);
-  if (!dk) return q.on === null && q.after === null && q.before === null;
-  if (q.on && dk !== q.on) return false;
-  if (q.after && dk < q.after) return false;
-  if (q.before && dk > q.before) return false;
-  return true;
+export function hostOf(url: string | null | undefined): string {
+  if (!url) return "";
+  try {
+    return new URL(url).hostname.toLowerCase();
+  } catch {
+    return "";
+  }
 }
 
-export function commitMatches(q: Query, commit: CommitRec, session: SessionRec | null): boolean {
-  if (q.isUnknownUrn && commit.urn) return false;
-  if (!dateOk(q, commit.capturedAt || commit.startTime)) return false;
+export function fileHay(c: CommitRec): string {
+  let hay = fileHayCache.get(c);
+  if (hay === undefined) {
+    hay = `${c.filename || ""} ${c.url || ""} ${c.finalUrl || ""} ${c.mime || ""}`.trim().toLowerCase();
+    fileHayCache.set(c, hay);
+  }
+  return hay;
+}
+
+// Hosts of url, finalUrl and referrer (what host: matches on a commit).
+export function commitHosts(c: CommitRec): string[] {
+  let hosts = commitHostsCache.get(c);
+  if (hosts === undefined) {
+    hosts = [c.url, c.finalUrl, c.referrer].map(hostOf).filter(Boolean);
+    commitHostsCache.set(c, hosts);
+  }
+  return hosts;
+}
 
-  const sessHay = `${session?.title || ""} ${session?.url || ""}`.trim();
-  if (!includesAny(sessHay, q.sessionTerms)) return false;
+function baseName(path: string | null | undefined): string {
+  return String(path || "").split(/[\\/]/g).pop() || "";
+}
 
-  const fileHay = `${commit.filename || ""} ${commit.url || ""} ${commit.finalUrl || ""} ${commit.mime || ""}`.trim();
-  if (!includesAny(fileHay, q.fileTerms)) return false;
+// Words typo-tolerant matching looks at: the file's name and URN segments.
+export function commitTokens(c: CommitRec): string[] {
+  let tokens = commitTokensCache.get(c);
+  if (tokens === undefined) {
+    const seg = c.urn ? urnToSegments(c.urn) : null;
+    tokens = [...wordsOf(baseName(c.filename)), ...(seg ? seg.segments : [])];
+    commitTokensCache.set(c, tokens);
+  }
+  return tokens;
+}
 
-  const urnHay = `${commit.urn || ""}`.trim().toLowerCase();
-  if (!includesAny(urnHay, q.urnTerms)) return false;
+export function sessionTokens(s: SessionRec): string[] {
+  let tokens = sessionTokensCache.get(s);
+  if (tokens === undefined) {
+    tokens = [...wordsOf(s.title), ...wordsOf(hostOf(s.url))];
+    sessionTokensCache.set(s, tokens);
+  }
+  return tokens;
+}
 
-  const allHay = `${sessHay} ${fileHay} ${urnHay}`.trim().toLowerCase();
-  if (!includesAny(allHay, q.terms)) return false;
+function commitTerm(key: QueryKey, value: string, c: CommitRec, range: DateRange | undefined): boolean {
+  switch (key) {
+    case "file":
+      return fileHay(c).includes(value);
+    case "urn":
+      return urnTermMatches(c.urn, value);
+    case "depth": {
+      const f = depthFilterOf(value);
+      const d = c.urn ? urnDepth(c.urn) : null;
+      return !!f && d !== null && compare(f.op, d, f.depth);
+    }
+    case "state":
+      return (c.state || "").toLowerCase().includes(value);
+    case "error":
+      return (c.error || "").toLowerCase().includes(value);
+    case "on":
+    case "after":
+    case "before":
+    case "this":
+      return !!range && inDateRange(range, c.capturedAt || c.startTime);
+    case "is":
+      if (UNKNOWN_URN_VALUES.has(value)) return !c.urn;
+      if (value === INFERRED_VALUE) return !!c.urn && isInferredUrnSource(c.urnSource);
+      return commitFlags(c).includes(value as CommitFlag);
+    case "host":
+      return commitHosts(c).some((h) => h.includes(value));
+    case "ext": {
+      let exts = commitExtsCache.get(c);
+      if (exts === undefined) {
+        exts = fileExtensions(c.filename);
+        commitExtsCache.set(c, exts);
+      }
+      return exts.includes(value.replace(/^\.+/, ""));
+    }
+    case "mime":
+      return (c.mime || "").toLowerCase().includes(value);
+    case "source":
+      return (c.urnSource || "").toLowerCase().includes(value);
+    case "size": {
+      const f = sizeFilterOf(value);
+      const n = c.totalBytes ?? c.bytesReceived;
+      if (!f || n === null || n === undefined) return false;
+      return compare(f.op, n, f.bytes);
+    }
+    default:
+      return false;
+  }
+}
 
-  return true;
+// fuzzy: session:, file: and bare terms also accept typos of whole words (ranked search).
+// Never applied under "-", where it would exclude more than was typed.
+function evalTerm(e: Extract<QueryExpr, { kind: "term" }>, c: CommitRec | null, s: SessionRec | null, fuzzy: boolean): Tri {
+  const sessionFuzzy = (): boolean => fuzzy && !!s && fuzzyMatchesAny(e.value, sessionTokens(s));
+  if (e.key === "session") return sessionHay(s).includes(e.value) || sessionFuzzy();
+  // host: the session's host decides on its own; otherwise it depends on the download URLs.
+  if (e.key === "host" && hostOf(s?.url).includes(e.value)) return true;
+  if (e.key === null) {
+    if (sessionHay(s).includes(e.value) || sessionFuzzy()) return true;
+    if (!c) return null;
+    if (fileHay(c).includes(e.value) || (c.urn || "").toLowerCase().includes(e.value)) return true;
+    return fuzzy && fuzzyMatchesAny(e.value, commitTokens(c));
+  }
+  if (!c) return null;
+  if (e.key === "file" && fuzzy && !fileHay(c).includes(e.value)) return fuzzyMatchesAny(e.value, commitTokens(c));
+  return commitTerm(e.key, e.value, c, e.range);
 }
 
-export function sessionMatchesWithoutCommits(q: Query, s: SessionRec): boolean {
-  const sessHay = `${s.title || ""} ${s.url || ""}`.trim().toLowerCase();
-  if (!includesAny(sessHay, q.sessionTerms)) return false;
+function evalExpr(e: QueryExpr, c: CommitRec | null, s: SessionRec | null, fuzzy: boolean): Tri {
+  switch (e.kind) {
+    case "term":
+      return evalTerm(e, c, s, fuzzy);
+    case "not": {
+      const v = evalExpr(e.expr, c, s, false);
+      return v === null ? null : !v;
+    }
+    case "and": {
+      let out: Tri = true;
+      for (const it of e.items) {
+        const v = evalExpr(it, c, s, fuzzy);
+        if (v === false) return false;
+        if (v === null) out = null;
+      }
+      return out;
+    }
+    case "or": {
+      let out: Tri = false;
+      for (const it of e.items) {
+        const v = evalExpr(it, c, s, fuzzy);
+        if (v === true) return true;
+        if (v === null) out = null;
+      }
+      return out;
+    }
+  }
+}
 
-  const allHay = sessHay;
-  if (!includesAny(allHay, q.terms)) return false;
+export type MatchOptions = { fuzzy?: boolean };
 
-  // If query needs commit-level filters, session-only match is not enough.
-  const needsCommits = q.fileTerms.length > 0 || q.urnTerms.length > 0 || q.on !== null || q.after !== null || q.before !== null || q.isUnknownUrn;
-  if (needsCommits) return false;
+export function commitMatches(q: Query, commit: CommitRec, session: SessionRec | null, opts: MatchOptions = {}): boolean {
+  if (q.error) return false;
+  if (!q.expr) return true;
+  return evalExpr(q.expr, commit, session, opts.fuzzy === true) === true;
+}
 
-  return true;
+// A session without (matching) commits is shown only when the query is decided by session
+// fields alone; anything that depends on commit fields needs a matching commit.
+export function sessionMatchesWithoutCommits(q: Query, s: SessionRec, opts: MatchOptions = {}): boolean {
+  if (q.error) return false;
+  if (!q.expr) return true;
+  return evalExpr(q.expr, null, s, opts.fuzzy === true) === true;
 }
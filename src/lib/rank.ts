@@ -0,0 +1,152 @@
+import { commitTokens, fileHay, sessionTokens, type CommitRec, type Query, type QueryExpr, type QueryKey, type SessionRec } from "./query.js";
+import { fuzzyTokenMatch, wordsOf } from "./fuzzy.js";
+import { urnToSegments } from "./urn.js";
+
+// Ranked search: scores by match quality and marks what matched. Filtering stays in lib/query;
+// this only orders and decorates what it returns.
+
+// A positive text term of the query. Negated terms are never scored or highlighted.
+export type Needle = { key: QueryKey | null; value: string };
+
+const TEXT_KEYS = new Set<QueryKey | null>([null, "session", "file", "urn", "host"]);
+
+// Score of each kind of hit; a needle counts once, at its best.
+const SCORE = {
+  urnSegment: 100,
+  urnSubstring: 80,
+  urnSegmentPrefix: 70,
+  fileToken: 60,
+  fileTokenPrefix: 45,
+  urnFuzzy: 40,
+  fileSubstring: 35,
+  fileFuzzy: 25,
+  urlSubstring: 15,
+  titleToken: 50,
+  titleSubstring: 30,
+  titleFuzzy: 20,
+  sessionUrl: 10
+};
+
+export function queryNeedles(q: Query): Needle[] {
+  const out: Needle[] = [];
+  const walk = (e: QueryExpr): void => {
+    if (e.kind === "not") return;
+    if (e.kind !== "term") {
+      for (const it of e.items) walk(it);
+      return;
+    }
+    if (!TEXT_KEYS.has(e.key)) return;
+    if (e.key !== "urn") {
+      out.push({ key: e.key, value: e.value });
+      return;
+    }
+    // urn:^feat:a / urn:feat:*:a -> the literal segments.
+    for (const seg of e.value.replace(/^\^/, "").replace(/^urn:/, "").split(/[:/*]+/g)) {
+      if (seg) out.push({ key: "urn", value: seg });
+    }
+  };
+  if (q.expr && !q.error) walk(q.expr);
+  return out;
+}
+
+// Needles that apply to a field: bare terms apply everywhere.
+export function needlesFor(needles: Needle[], ...keys: QueryKey[]): Needle[] {
+  return needles.filter((n) => n.key === null || keys.includes(n.key));
+}
+
+function baseName(path: string | null | undefined): string {
+  return String(path || "").split(/[\\/]/g).pop() || "";
+}
+
+function best(...scores: number[]): number {
+  return Math.max(0, ...scores);
+}
+
+function urnScore(c: CommitRec, v: string): number {
+  if (!c.urn) return 0;
+  const urn = c.urn.toLowerCase();
+  const seg = urnToSegments(urn);
+  const segs = seg ? seg.segments : [];
+  if (segs.includes(v)) return SCORE.urnSegment;
+  if (urn.includes(v)) return SCORE.urnSubstring;
+  if (segs.some((s) => s.startsWith(v))) return SCORE.urnSegmentPrefix;
+  if (segs.some((s) => fuzzyTokenMatch(v, s))) return SCORE.urnFuzzy;
+  return 0;
+}
+
+function fileScore(c: CommitRec, v: string): number {
+  const name = baseName(c.filename).toLowerCase();
+  const words = wordsOf(name);
+  if (words.includes(v)) return SCORE.fileToken;
+  if (words.some((w) => w.startsWith(v))) return SCORE.fileTokenPrefix;
+  if (name.includes(v)) return SCORE.fileSubstring;
+  if (commitTokens(c).some((t) => fuzzyTokenMatch(v, t))) return SCORE.fileFuzzy;
+  return 0;
+}
+
+function urlScore(c: CommitRec, v: string): number {
+  return [c.url, c.finalUrl, c.referrer].some((u) => (u || "").toLowerCase().includes(v)) ? SCORE.urlSubstring : 0;
+}
+
+export function scoreCommit(c: CommitRec, needles: Needle[]): number {
+  let total = 0;
+  for (const n of needles) {
+    const v = n.value;
+    if (n.key === "urn") total += urnScore(c, v);
+    else if (n.key === "file") total += best(fileScore(c, v), fileHay(c).includes(v) ? SCORE.urlSubstring : 0);
+    else if (n.key === "host") total += urlScore(c, v);
+    else if (n.key === null) total += best(urnScore(c, v), fileScore(c, v), urlScore(c, v));
+  }
+  return total;
+}
+
+export function scoreSession(s: SessionRec, needles: Needle[]): number {
+  const title = String(s.title || "").toLowerCase();
+  const words = wordsOf(title);
+  let total = 0;
+  for (const n of needles) {
+    if (n.key !== null && n.key !== "session" && n.key !== "host") continue;
+    const v = n.value;
+    if (n.key === "host") {
+      total += s.url.toLowerCase().includes(v) ? SCORE.sessionUrl : 0;
+      continue;
+    }
+    if (words.includes(v)) total += SCORE.titleToken;
+    else if (title.includes(v)) total += SCORE.titleSubstring;
+    else if (sessionTokens(s).some((t) => fuzzyTokenMatch(v, t))) total += SCORE.titleFuzzy;
+    else if (s.url.toLowerCase().includes(v)) total += SCORE.sessionUrl;
+  }
+  return total;
+}
+
+export type MarkedPart = { text: string; hit: boolean };
+
+// Splits text into plain and matched parts: substrings of a needle, and (fuzzy) words that are
+// typos of one.
+export function markMatches(text: string, needles: Needle[], fuzzy: boolean): MarkedPart[] {
+  if (!text || needles.length === 0) return text ? [{ text, hit: false }] : [];
+  const lower = text.toLowerCase();
+  const hits = Array.from({ length: text.length }, () => false);
+  // Lower-casing can change the length of some characters; positions are only trusted if not.
+  const aligned = lower.length === text.length;
+  for (const { value } of needles) {
+    if (!aligned || !value) continue;
+    for (let i = lower.indexOf(value); i >= 0; i = lower.indexOf(value, i + 1)) hits.fill(true, i, i + value.length);
+  }
+  if (fuzzy && aligned) {
+    const words = needles.flatMap((n) => wordsOf(n.value));
+    const re = /[\p{L}\p{N}]+/gu;
+    for (let m = re.exec(lower); m; m = re.exec(lower)) {
+      const w = m[0];
+      if (words.some((n) => fuzzyTokenMatch(n, w))) hits.fill(true, m.index, m.index + w.length);
+    }
+  }
+  const out: MarkedPart[] = [];
+  for (let i = 0; i < text.length; ) {
+    let j = i;
+    while (j < text.length && hits[j] === hits[i]) j += 1;
+    out.push({ text: text.slice(i, j), hit: hits[i] });
+    i = j;
+  }
+  return out;
+}
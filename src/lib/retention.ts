@@ -0,0 +1,113 @@
+import { type CommitRec } from "./query.js";
+import { matchesUrnPrefix } from "./tree.js";
+import { urnToSegments } from "./urn.js";
+
+export type SubtreeLimit = { prefix: string; max: number };
+
+// null means "no limit" for each rule.
+export type RetentionPolicy = {
+  enabled: boolean;
+  maxAgeDays: number | null;
+  maxPerRoot: number | null;      // per URN root (urn:feat, urn:test, unknown)
+  subtreeLimits: SubtreeLimit[];  // per URN prefix
+  keepLatestPerLeaf: number;      // always kept, regardless of the rules above
+};
+
+export type RetentionResult = {
+  keep: CommitRec[];
+  archive: CommitRec[];
+  reasons: { maxAge: number; maxPerRoot: number; subtree: number };
+};
+
+export const DEFAULT_RETENTION: RetentionPolicy = {
+  enabled: false,
+  maxAgeDays: null,
+  maxPerRoot: null,
+  subtreeLimits: [],
+  keepLatestPerLeaf: 1
+};
+
+function tsOf(c: CommitRec): number {
+  const t = Date.parse(c.capturedAt || c.startTime || "");
+  return Number.isFinite(t) ? t : 0;
+}
+
+function rootOf(c: CommitRec): string {
+  if (!c.urn) return "__unknown__";
+  return urnToSegments(c.urn)?.root || "__unknown__";
+}
+
+// Pure: decide which commits fall outside the policy. Nothing is destroyed here;
+// the caller archives `archive` before deleting it from the store.
+export function applyRetention(commits: CommitRec[], policy: RetentionPolicy, nowMs: number): RetentionResult {
+  const reasons = { maxAge: 0, maxPerRoot: 0, subtree: 0 };
+  if (!policy.enabled) return { keep: commits, archive: [], reasons };
+
+  // Newest first so "first N" means "latest N".
+  const sorted = [...commits].sort((a, b) => tsOf(b) - tsOf(a));
+
+  const protectedIds = new Set<string>();
+  if (policy.keepLatestPerLeaf > 0) {
+    const perLeaf = new Map<string, number>();
+    for (const c of sorted) {
+      if (!c.urn) continue;
+      const n = perLeaf.get(c.urn) || 0;
+      if (n < policy.keepLatestPerLeaf) protectedIds.add(c.id);
+      perLeaf.set(c.urn, n + 1);
+    }
+  }
+
+  const drop = new Set<string>();
+
+  if (policy.maxAgeDays !== null) {
+    const cutoff = nowMs - policy.maxAgeDays * 24 * 60 * 60 * 1000;
+    for (const c of sorted) {
+      if (protectedIds.has(c.id) || tsOf(c) >= cutoff) continue;
+      drop.add(c.id);
+      reasons.maxAge += 1;
+    }
+  }
+
+  function capGroup(members: CommitRec[], max: number): number {
+    let kept = 0;
+    let dropped = 0;
+    for (const c of members) {
+      if (drop.has(c.id)) continue;
+      if (protectedIds.has(c.id) || kept < max) {
+        kept += 1;
+        continue;
+      }
+      drop.add(c.id);
+      dropped += 1;
+    }
+    return dropped;
+  }
+
+  if (policy.maxPerRoot !== null) {
+    const byRoot = new Map<string, CommitRec[]>();
+    for (const c of sorted) {
+      const r = rootOf(c);
+      const arr = byRoot.get(r) || [];
+      arr.push(c);
+      byRoot.set(r, arr);
+    }
+    for (const members of byRoot.values()) reasons.maxPerRoot += capGroup(members, policy.maxPerRoot);
+  }
+
+  for (const lim of policy.subtreeLimits) {
+    const members = sorted.filter((c) => !!c.urn && matchesUrnPrefix(c.urn, lim.prefix));
+    reasons.subtree += capGroup(members, lim.max);
+  }
+
+  const keep: CommitRec[] = [];
+  const archive: CommitRec[] = [];
+  for (const c of commits) (drop.has(c.id) ? archive : keep).push(c);
+  return { keep, archive, reasons };
+}
+
+export function archiveFilename(dir: string, archivedAt: string, count: number): string {
+  const ts = archivedAt.replace(/\.\d+Z$/, "").replace(/[-:]/g, "").replace("T", "-");
+  const d = dir.replace(/^[\\/]+|[\\/]+$/g, "");
+  const name = `archive-${ts}-${count}.json`;
+  return d ? `${d}/${name}` : name;
+}
@@ -0,0 +1,114 @@
+import { getSync, setSync, SYNC_ITEM_BYTES, syncItemBytes } from "./storage.js";
+import { isBrokenCommit } from "./lifecycle.js";
+import { parseQuery, type CommitRec, type Query } from "./query.js";
+import { type TreeNode } from "./tree.js";
+
+// Named queries (>save / >unsave), shown as a "Saved" root in the tree.
+// Stored under their own sync key so they never push the settings item over its quota.
+export const SYNC_SAVED_SEARCHES = "savedSearches";
+
+// Tree id of the "Saved" root; entries are `${SAVED_ROOT}:<name>`. Never a valid URN prefix.
+export const SAVED_ROOT = "__saved__";
+
+export type SavedSearch = {
+  name: string;
+  query: string;
+  savedAt: string; // ISO timestamp
+};
+
+const MAX_NAME_LENGTH = 60;
+const MAX_SAVED_SEARCHES = 50;
+// Headroom under the per-item sync quota, as for the URN rules item.
+const MAX_SAVED_SEARCHES_BYTES = SYNC_ITEM_BYTES - 512;
+
+export function cleanSavedSearchName(name: string): string {
+  return String(name || "").trim().replace(/\s+/g, " ").slice(0, MAX_NAME_LENGTH);
+}
+
+export function savedSearchId(name: string): string {
+  return `${SAVED_ROOT}:${cleanSavedSearchName(name).toLowerCase()}`;
+}
+
+export function isSavedNodeId(id: string): boolean {
+  return id === SAVED_ROOT || id.startsWith(`${SAVED_ROOT}:`);
+}
+
+// Names are unique case-insensitively (the later entry wins); commands are never saved.
+export function normalizeSavedSearches(raw: unknown): SavedSearch[] {
+  if (!Array.isArray(raw)) return [];
+  const byId = new Map<string, SavedSearch>();
+  for (const it of raw) {
+    const name = cleanSavedSearchName(it?.name);
+    const query = String(it?.query || "").trim();
+    if (!name || !query || query.startsWith(">")) continue;
+    byId.set(savedSearchId(name), { name, query, savedAt: typeof it?.savedAt === "string" ? it.savedAt : "" });
+  }
+  return [...byId.values()].sort((a, b) => a.name.localeCompare(b.name));
+}
+
+export async function loadSavedSearches(): Promise<SavedSearch[]> {
+  const got = await getSync<{ [k: string]: unknown }>([SYNC_SAVED_SEARCHES]);
+  return normalizeSavedSearches(got[SYNC_SAVED_SEARCHES]);
+}
+
+// Why a list cannot be stored in its sync item, or null if it fits.
+export function savedSearchesLimitError(list: SavedSearch[]): string | null {
+  if (list.length > MAX_SAVED_SEARCHES) return `too many saved searches (at most ${MAX_SAVED_SEARCHES}); >unsave one first`;
+  const bytes = syncItemBytes(SYNC_SAVED_SEARCHES, list);
+  if (bytes > MAX_SAVED_SEARCHES_BYTES) return `saved searches would take ${bytes} bytes (at most ${MAX_SAVED_SEARCHES_BYTES}); >unsave one or shorten the query`;
+  return null;
+}
+
+// Adds or replaces (by name) a saved search. Refuses (throws) a list over the limits above, and
+// rejects when sync storage refuses the write.
+export async function putSavedSearch(name: string, query: string, nowIso = new Date().toISOString()): Promise<SavedSearch[]> {
+  const cur = await loadSavedSearches();
+  const next = normalizeSavedSearches([...cur, { name, query, savedAt: nowIso }]);
+  const err = savedSearchesLimitError(next);
+  if (err) throw new Error(err);
+  await setSync({ [SYNC_SAVED_SEARCHES]: next });
+  return next;
+}
+
+export async function deleteSavedSearch(name: string): Promise<{ removed: boolean; saved: SavedSearch[] }> {
+  const cur = await loadSavedSearches();
+  const id = savedSearchId(name);
+  const next = cur.filter((s) => savedSearchId(s.name) !== id);
+  if (next.length === cur.length) return { removed: false, saved: cur };
+  await setSync({ [SYNC_SAVED_SEARCHES]: next });
+  return { removed: true, saved: next };
+}
+
+function emptyNode(id: string, label: string, depth: number): TreeNode {
+  return { id, label, prefix: id, depth, commitCount: 0, failedCount: 0, sessionCount: 0, lastAt: null, children: [] };
+}
+
+function fill(n: TreeNode, commits: Iterable<CommitRec>): void {
+  const sessions = new Set<string>();
+  for (const c of commits) {
+    n.commitCount += 1;
+    if (isBrokenCommit(c)) n.failedCount += 1;
+    if (c.sessionId) sessions.add(c.sessionId);
+    const at = c.capturedAt || c.startTime;
+    if (at && (!n.lastAt || at > n.lastAt)) n.lastAt = at;
+  }
+  n.sessionCount = sessions.size;
+}
+
+// The "Saved" root with one leaf per search. `search` returns the matching commits (the panel
+// passes the search index); queries that no longer parse count nothing. Root counts are distinct.
+export function buildSavedRoot(saved: SavedSearch[], search: (q: Query) => CommitRec[]): TreeNode | null {
+  if (saved.length === 0) return null;
+  const root = emptyNode(SAVED_ROOT, "Saved", 0);
+  const all = new Map<string, CommitRec>();
+  for (const s of saved) {
+    const leaf = emptyNode(savedSearchId(s.name), s.name, 1);
+    const q = parseQuery(s.query);
+    const commits = q.error || q.command ? [] : search(q);
+    fill(leaf, commits);
+    for (const c of commits) all.set(c.id, c);
+    root.children.push(leaf);
+  }
+  fill(root, all.values());
+  return root;
+}
@@ -0,0 +1,213 @@
+import { type CommitRec, type SessionRec } from "./query.js";
+import { upgradeLegacyCommit } from "./identity.js";
+import { EMPTY_LIFECYCLE, type Lifecycle } from "./lifecycle.js";
+
+// Version of the chrome.storage.local layout. Bump it together with a new entry in MIGRATIONS.
+export const SCHEMA_VERSION = 4;
+export const LOCAL_SCHEMA_VERSION = "schemaVersion";
+
+// From this version on, commits are stored in IndexedDB (lib/commitStore) instead of storage.local.
+export const COMMITS_IN_IDB_SINCE = 2;
+
+// The storage.local keys >clear removes: the data and everything describing it (backup and trim
+// status, the extension's own download ids). Kept: schemaVersion (an empty store is still a valid
+// current-version store), profileEpoch, commitsRev (bumped by the clear itself) and search history.
+export const CLEARED_LOCAL_KEYS = [
+  "sessions", "commits", "pending", "ui", "fullReturn",
+  "backupProof", "backupFiles", "backupFailure", "retentionLog", "ownDownloads"
+];
+
+// Snapshot that migrations operate on. Loaded from storage as-is (untrusted shapes).
+// `commits` comes from storage.local below COMMITS_IN_IDB_SINCE and from IndexedDB afterwards.
+export type StoredData = {
+  sessions: Record<string, SessionRec>;
+  commits: CommitRec[];
+  pending: Record<string, unknown>;
+  ui: { query: string };
+};
+
+export type MigrationStep = { version: number; name: string; changes: string[] };
+
+export type MigrationResult = {
+  from: number;
+  to: number;
+  data: StoredData;
+  steps: MigrationStep[];
+};
+
+type Migration = {
+  version: number; // version reached after this step
+  name: string;
+  up: (data: StoredData) => string[];
+};
+
+function isObj(v: unknown): v is Record<string, any> {
+  return !!v && typeof v === "object" && !Array.isArray(v);
+}
+
+function plural(n: number, word: string): string {
+  return `${n} ${word}${n === 1 ? "" : "s"}`;
+}
+
+// v0 (0.5.x, unversioned) -> v1: coerce every record into the documented shapes.
+function normalizeV05(data: StoredData): string[] {
+  const changes: string[] = [];
+
+  // sessions
+  const sessions: Record<string, SessionRec> = {};
+  let droppedSessions = 0;
+  let fixedSessions = 0;
+  for (const [key, s] of Object.entries(isObj(data.sessions) ? data.sessions : {})) {
+    if (!isObj(s) || typeof s.url !== "string" || !s.url) {
+      droppedSessions += 1;
+      continue;
+    }
+    const createdAt = typeof s.createdAt === "string" ? s.createdAt : (typeof s.lastSeenAt === "string" ? s.lastSeenAt : new Date(0).toISOString());
+    const next: SessionRec = {
+      id: key,
+      url: s.url,
+      title: typeof s.title === "string" ? s.title : null,
+      createdAt,
+      lastSeenAt: typeof s.lastSeenAt === "string" ? s.lastSeenAt : createdAt,
+      lastDownloadAt: typeof s.lastDownloadAt === "string" ? s.lastDownloadAt : null,
+      downloadCount: typeof s.downloadCount === "number" && Number.isFinite(s.downloadCount) ? s.downloadCount : 0
+    };
+    if (JSON.stringify(next) !== JSON.stringify(s)) fixedSessions += 1;
+    sessions[key] = next;
+  }
+  if (!isObj(data.sessions) && data.sessions !== undefined) changes.push("sessions: reset non-object value");
+  if (droppedSessions) changes.push(`sessions: dropped ${plural(droppedSessions, "record")} without url`);
+  if (fixedSessions) changes.push(`sessions: normalized ${plural(fixedSessions, "record")}`);
+  data.sessions = sessions;
+
+  // commits
+  const rawCommits: unknown[] = Array.isArray(data.commits) ? data.commits : [];
+  if (!Array.isArray(data.commits) && data.commits !== undefined) changes.push("commits: reset non-array value");
+  const byId = new Map<string, CommitRec>();
+  let droppedCommits = 0;
+  let fixedCommits = 0;
+  for (const c of rawCommits) {
+    if (!isObj(c) || (typeof c.id !== "string" && typeof c.id !== "number") || c.id === "") {
+      droppedCommits += 1;
+      continue;
+    }
+    const str = (k: string): string | null => (typeof c[k] === "string" ? c[k] : null);
+    // v1 shape: no downloadId yet (added in v3), no lifecycle fields (v4).
+    const rec: Omit<CommitRec, "downloadId" | keyof Lifecycle> = {
+      id: String(c.id),
+      sessionId: str("sessionId"),
+      sessionUrl: str("sessionUrl"),
+      capturedAt: str("capturedAt") || str("startTime") || new Date(0).toISOString(),
+      startTime: str("startTime"),
+      endTime: str("endTime"),
+      state: str("state"),
+      filename: str("filename"),
+      url: str("url"),
+      finalUrl: str("finalUrl"),
+      referrer: str("referrer"),
+      mime: str("mime"),
+      totalBytes: typeof c.totalBytes === "number" && Number.isFinite(c.totalBytes) ? c.totalBytes : null,
+      urn: str("urn"),
+      urnSource: str("urnSource")
+    };
+    if (JSON.stringify(rec) !== JSON.stringify(c)) fixedCommits += 1;
+    if (byId.has(rec.id)) byId.delete(rec.id); // keep the last occurrence, in its position
+    byId.set(rec.id, rec as CommitRec);
+  }
+  const dupes = rawCommits.length - droppedCommits - byId.size;
+  if (droppedCommits) changes.push(`commits: dropped ${plural(droppedCommits, "record")} without id`);
+  if (dupes) changes.push(`commits: removed ${plural(dupes, "duplicate id")}`);
+  if (fixedCommits) changes.push(`commits: normalized ${plural(fixedCommits, "record")}`);
+  data.commits = [...byId.values()];
+
+  // pending / ui
+  if (!isObj(data.pending)) {
+    if (data.pending !== undefined) changes.push("pending: reset non-object value");
+    data.pending = {};
+  }
+  const ui = data.ui as unknown;
+  if (!isObj(ui) || typeof ui.query !== "string") {
+    if (ui !== undefined) changes.push("ui: reset invalid value");
+    data.ui = { query: isObj(ui) && ui.query != null ? String(ui.query) : "" };
+  }
+
+  return changes;
+}
+
+// v1 -> v2: the record shapes are unchanged; the caller persists commits to IndexedDB from now on.
+function moveCommitsToIdb(data: StoredData): string[] {
+  return data.commits.length ? [`commits: move ${plural(data.commits.length, "record")} from storage.local to IndexedDB`] : [];
+}
+
+// v2 -> v3: commit ids become globally unique (lib/identity). Legacy ids were bare download ids,
+// already unique in the store (its key), so each record is re-keyed on its own.
+function uniqueCommitIds(data: StoredData): string[] {
+  let rekeyed = 0;
+  data.commits = data.commits.map((c) => {
+    const next = upgradeLegacyCommit(c);
+    if (next.id !== c.id) rekeyed += 1;
+    return next;
+  });
+  return rekeyed ? [`commits: re-keyed ${plural(rekeyed, "record")} to unique ids`] : [];
+}
+
+// v3 -> v4: lifecycle fields (lib/lifecycle). Unknown for existing records, so null;
+// onChanged/backfill fill them in from now on.
+function addLifecycleFields(data: StoredData): string[] {
+  let added = 0;
+  data.commits = data.commits.map((c) => {
+    const rec = c as unknown as Record<string, unknown>;
+    const missing = Object.keys(EMPTY_LIFECYCLE).filter((k) => rec[k] === undefined);
+    if (missing.length === 0) return c;
+    added += 1;
+    const next = { ...rec };
+    for (const k of missing) next[k] = null;
+    return next as unknown as CommitRec;
+  });
+  return added ? [`commits: added lifecycle fields to ${plural(added, "record")}`] : [];
+}
+
+const MIGRATIONS: Migration[] = [
+  { version: 1, name: "normalize unversioned v0.5 records", up: normalizeV05 },
+  { version: 2, name: "move commits to IndexedDB", up: moveCommitsToIdb },
+  { version: 3, name: "globally unique commit ids", up: uniqueCommitIds },
+  { version: 4, name: "download lifecycle fields", up: addLifecycleFields }
+];
+
+export function readSchemaVersion(raw: Record<string, unknown>): number {
+  const v = raw[LOCAL_SCHEMA_VERSION];
+  return typeof v === "number" && Number.isInteger(v) && v >= 0 ? v : 0;
+}
+
+// Pure: runs every migration newer than the stored version on a copy of the data.
+// The caller decides whether to persist the result (dry-run simply doesn't).
+export function runMigrations(raw: Record<string, unknown>): MigrationResult {
+  const from = readSchemaVersion(raw);
+  const data = JSON.parse(JSON.stringify({
+    sessions: raw.sessions,
+    commits: raw.commits,
+    pending: raw.pending,
+    ui: raw.ui
+  }) || "{}") as StoredData;
+
+  const steps: MigrationStep[] = [];
+  let to = from;
+  for (const m of MIGRATIONS) {
+    if (m.version <= from) continue;
+    steps.push({ version: m.version, name: m.name, changes: m.up(data) });
+    to = m.version;
+  }
+  return { from, to, data, steps };
+}
+
+export function formatMigrationReport(res: MigrationResult): string {
+  if (res.from > SCHEMA_VERSION) return `schema v${res.from} is newer than this build (v${SCHEMA_VERSION}); nothing will be changed`;
+  if (res.steps.length === 0) return `schema v${res.from}: up to date`;
+  const lines = [`schema v${res.from} -> v${res.to}`];
+  for (const s of res.steps) {
+    lines.push(`- v${s.version}: ${s.name}`);
+    if (s.changes.length === 0) lines.push("    (no record changes)");
+    for (const c of s.changes) lines.push(`    ${c}`);
+  }
+  return lines.join("\n");
+}
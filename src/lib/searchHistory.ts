@@ -0,0 +1,96 @@
+import { getLocal, setLocal } from "./storage.js";
+
+// Per-device history of executed searches (Enter in the search box). Kept in local storage,
+// so it never syncs, and left out of backups unless `>backup history` asks for it.
+export const LOCAL_SEARCH_HISTORY = "searchHistory";
+
+export const MAX_HISTORY = 100; // unpinned entries; the oldest are dropped first
+export const MAX_PINNED = 20;
+
+export type SearchHistoryEntry = {
+  query: string;
+  lastAt: string; // ISO timestamp of the last run
+  uses: number;   // times run
+  hits: number;   // matching commits at the last run
+  pinned: boolean;
+};
+
+function count(v: unknown): number {
+  const n = typeof v === "number" ? v : Number(v);
+  return Number.isFinite(n) && n >= 0 ? Math.floor(n) : 0;
+}
+
+// Pinned entries first, then most recent first.
+function byRecall(a: SearchHistoryEntry, b: SearchHistoryEntry): number {
+  if (a.pinned !== b.pinned) return a.pinned ? -1 : 1;
+  return b.lastAt.localeCompare(a.lastAt);
+}
+
+// Deduplicated by query (the most recent entry wins), in recall order and within bounds.
+export function normalizeSearchHistory(raw: unknown): SearchHistoryEntry[] {
+  if (!Array.isArray(raw)) return [];
+  const byQuery = new Map<string, SearchHistoryEntry>();
+  for (const it of raw) {
+    const query = String(it?.query || "").trim();
+    if (!query || query.startsWith(">")) continue;
+    const e: SearchHistoryEntry = {
+      query,
+      lastAt: typeof it?.lastAt === "string" ? it.lastAt : "",
+      uses: Math.max(1, count(it?.uses)),
+      hits: count(it?.hits),
+      pinned: it?.pinned === true
+    };
+    const prev = byQuery.get(query);
+    if (!prev || e.lastAt >= prev.lastAt) byQuery.set(query, e);
+  }
+  const all = [...byQuery.values()].sort(byRecall);
+  const pinned = all.filter((e) => e.pinned).slice(0, MAX_PINNED);
+  const rest = all.filter((e) => !e.pinned).slice(0, MAX_HISTORY);
+  return [...pinned, ...rest];
+}
+
+export function recordSearch(list: SearchHistoryEntry[], query: string, hits: number, nowIso = new Date().toISOString()): SearchHistoryEntry[] {
+  const q = query.trim();
+  if (!q || q.startsWith(">")) return list;
+  const prev = list.find((e) => e.query === q);
+  const next: SearchHistoryEntry = { query: q, lastAt: nowIso, uses: (prev?.uses || 0) + 1, hits: count(hits), pinned: prev?.pinned === true };
+  return normalizeSearchHistory([next, ...list.filter((e) => e.query !== q)]);
+}
+
+export function setPinned(list: SearchHistoryEntry[], query: string, pinned: boolean): { list: SearchHistoryEntry[]; error: string | null } {
+  const q = query.trim();
+  if (!list.some((e) => e.query === q)) return { list, error: `not in history: ${q}` };
+  if (pinned && list.filter((e) => e.pinned && e.query !== q).length >= MAX_PINNED) {
+    return { list, error: `at most ${MAX_PINNED} searches can be pinned` };
+  }
+  return { list: normalizeSearchHistory(list.map((e) => (e.query === q ? { ...e, pinned } : e))), error: null };
+}
+
+export function clearSearchHistory(list: SearchHistoryEntry[], keepPinned: boolean): SearchHistoryEntry[] {
+  return keepPinned ? list.filter((e) => e.pinned) : [];
+}
+
+// Restoring a backup that carries history: same queries are combined, nothing is dropped
+// beyond the usual bounds.
+export function mergeSearchHistory(cur: SearchHistoryEntry[], incoming: SearchHistoryEntry[]): SearchHistoryEntry[] {
+  const byQuery = new Map(cur.map((e) => [e.query, e]));
+  for (const inc of incoming) {
+    const prev = byQuery.get(inc.query);
+    if (!prev) {
+      byQuery.set(inc.query, inc);
+      continue;
+    }
+    const latest = inc.lastAt > prev.lastAt ? inc : prev;
+    byQuery.set(inc.query, { ...latest, uses: Math.max(prev.uses, inc.uses), pinned: prev.pinned || inc.pinned });
+  }
+  return normalizeSearchHistory([...byQuery.values()]);
+}
+
+export async function loadSearchHistory(): Promise<SearchHistoryEntry[]> {
+  const got = await getLocal<{ [k: string]: unknown }>([LOCAL_SEARCH_HISTORY]);
+  return normalizeSearchHistory(got[LOCAL_SEARCH_HISTORY]);
+}
+
+export async function saveSearchHistory(list: SearchHistoryEntry[]): Promise<void> {
+  await setLocal({ [LOCAL_SEARCH_HISTORY]: list });
+}
@@ -0,0 +1,407 @@
+import {
+  commitMatches,
+  fileExtensions,
+  fileHay,
+  hostOf,
+  sessionHay,
+  urnTermPrefix,
+  type CommitRec,
+  type MatchOptions,
+  type Query,
+  type QueryExpr,
+  type SessionRec
+} from "./query.js";
+import { urnToSegments } from "./urn.js";
+import { localDateKey } from "./util.js";
+
+// In-memory index over the commit mirror in panel/full. It only narrows the candidates for a
+// query; every candidate is still checked with commitMatches, so results are exactly what a
+// full scan would return. Updated incrementally from commitsRev deltas.
+//
+// Substring keys use a trigram index over one lower-cased text per commit. Postings are
+// ascending doc numbers; a changed commit gets a new number and its old postings go stale
+// until the next compaction.
+
+export type SessionCounts = { total: number; known: number; unknown: number };
+
+type Doc = {
+  n: number;
+  commit: CommitRec;
+  day: string | null;
+  prefixes: string[];
+  paths: string[];
+  exts: string[];
+};
+
+export type SearchIndex = {
+  docs: Map<string, Doc>;       // by commit id
+  byNum: (Doc | undefined)[];   // doc number -> live doc
+  stale: number;                // postings that point at replaced/removed docs
+  grams: Map<string, number[]>;
+  long: Set<string>;            // text too long to index; always a candidate for substring terms
+  bySession: Map<string, Set<string>>;
+  byUrnPrefix: Map<string, Set<string>>;  // what urn:^prefix matches (see matchesUrnPrefix)
+  byUrnPath: Map<string, Set<string>>;    // normalized segment prefixes not already in byUrnPrefix
+  byDay: Map<string, Set<string>>;
+  byExt: Map<string, Set<string>>;
+  unknownUrn: Set<string>;
+  counts: Map<string, SessionCounts>;
+};
+
+// Keeps signed download URLs from blowing up the gram table.
+const MAX_INDEXED_TEXT = 512;
+
+export function createSearchIndex(): SearchIndex {
+  return {
+    docs: new Map(),
+    byNum: [],
+    stale: 0,
+    grams: new Map(),
+    long: new Set(),
+    bySession: new Map(),
+    byUrnPrefix: new Map(),
+    byUrnPath: new Map(),
+    byDay: new Map(),
+    byExt: new Map(),
+    unknownUrn: new Set(),
+    counts: new Map()
+  };
+}
+
+// Everything a substring term can look at (see commitTerm/evalTerm in lib/query).
+function commitText(c: CommitRec): string {
+  const hosts = [c.url, c.finalUrl, c.referrer].map(hostOf).join(" ");
+  return [fileHay(c), c.urn || "", c.state || "", c.error || "", c.urnSource || "", hosts].join("\n").toLowerCase();
+}
+
+function trigrams(s: string): Set<string> {
+  const out = new Set<string>();
+  for (let i = 0; i + 3 <= s.length; i += 1) out.add(s.slice(i, i + 3));
+  return out;
+}
+
+// Prefixes at every ":" or "/" boundary: exactly the prefixes matchesUrnPrefix accepts.
+function urnPrefixes(urn: string | null): string[] {
+  if (!urn) return [];
+  const u = urn.toLowerCase();
+  const out = [u];
+  for (let i = 0; i < u.length; i += 1) {
+    if (u[i] === ":" || u[i] === "/") out.push(u.slice(0, i));
+  }
+  return out;
+}
+
+// Normalized segment prefixes (what globs are matched against) that urnPrefixes lacks; empty
+// for canonical URNs.
+function urnPaths(urn: string | null, prefixes: string[]): string[] {
+  const seg = urn ? urnToSegments(urn) : null;
+  if (!seg) return [];
+  const out: string[] = [];
+  let p = seg.root;
+  for (const s of ["", ...seg.segments]) {
+    if (s) p = `${p}:${s}`;
+    if (!prefixes.includes(p)) out.push(p);
+  }
+  return out;
+}
+
+function addTo(map: Map<string, Set<string>>, key: string, id: string): void {
+  let set = map.get(key);
+  if (!set) {
+    set = new Set();
+    map.set(key, set);
+  }
+  set.add(id);
+}
+
+function removeFrom(map: Map<string, Set<string>>, key: string, id: string): void {
+  const set = map.get(key);
+  if (!set) return;
+  set.delete(id);
+  if (set.size === 0) map.delete(key);
+}
+
+function countsFor(idx: SearchIndex, sessionId: string): SessionCounts {
+  let n = idx.counts.get(sessionId);
+  if (!n) {
+    n = { total: 0, known: 0, unknown: 0 };
+    idx.counts.set(sessionId, n);
+  }
+  return n;
+}
+
+function unindex(idx: SearchIndex, id: string): void {
+  const doc = idx.docs.get(id);
+  if (!doc) return;
+  const c = doc.commit;
+  idx.docs.delete(id);
+  idx.byNum[doc.n] = undefined;
+  idx.long.delete(id);
+  idx.unknownUrn.delete(id);
+  if (c.sessionId) {
+    removeFrom(idx.bySession, c.sessionId, id);
+    const n = countsFor(idx, c.sessionId);
+    n.total -= 1;
+    if (c.urn) n.known -= 1;
+    else n.unknown -= 1;
+    if (n.total <= 0) idx.counts.delete(c.sessionId);
+  }
+  for (const p of doc.prefixes) removeFrom(idx.byUrnPrefix, p, id);
+  for (const p of doc.paths) removeFrom(idx.byUrnPath, p, id);
+  if (doc.day) removeFrom(idx.byDay, doc.day, id);
+  for (const e of doc.exts) removeFrom(idx.byExt, e, id);
+  idx.stale += 1;
+}
+
+function index(idx: SearchIndex, c: CommitRec): void {
+  const id = c.id;
+  const prefixes = urnPrefixes(c.urn);
+  const doc: Doc = {
+    n: idx.byNum.length,
+    commit: c,
+    day: localDateKey(c.capturedAt || c.startTime),
+    prefixes,
+    paths: urnPaths(c.urn, prefixes),
+    exts: fileExtensions(c.filename)
+  };
+  idx.docs.set(id, doc);
+  idx.byNum.push(doc);
+
+  const text = commitText(c);
+  if (text.length > MAX_INDEXED_TEXT) {
+    idx.long.add(id);
+  } else {
+    for (const g of trigrams(text)) {
+      const list = idx.grams.get(g);
+      if (list) list.push(doc.n);
+      else idx.grams.set(g, [doc.n]);
+    }
+  }
+
+  if (!c.urn) idx.unknownUrn.add(id);
+  if (c.sessionId) {
+    addTo(idx.bySession, c.sessionId, id);
+    const n = countsFor(idx, c.sessionId);
+    n.total += 1;
+    if (c.urn) n.known += 1;
+    else n.unknown += 1;
+  }
+  for (const p of doc.prefixes) addTo(idx.byUrnPrefix, p, id);
+  for (const p of doc.paths) addTo(idx.byUrnPath, p, id);
+  if (doc.day) addTo(idx.byDay, doc.day, id);
+  for (const e of doc.exts) addTo(idx.byExt, e, id);
+}
+
+// Rebuilds postings once more than half of them are stale.
+function maybeCompact(idx: SearchIndex): void {
+  if (idx.stale < 1000 || idx.stale < idx.docs.size) return;
+  rebuildSearchIndex(idx, [...idx.docs.values()].map((d) => d.commit));
+}
+
+export function rebuildSearchIndex(idx: SearchIndex, commits: CommitRec[]): void {
+  Object.assign(idx, createSearchIndex());
+  for (const c of commits) index(idx, c);
+}
+
+// Upserts (a commit with a known id replaces the old one).
+export function indexCommits(idx: SearchIndex, commits: CommitRec[]): void {
+  for (const c of commits) {
+    unindex(idx, c.id);
+    index(idx, c);
+  }
+  maybeCompact(idx);
+}
+
+export function removeCommits(idx: SearchIndex, ids: string[]): void {
+  for (const id of ids) unindex(idx, id);
+  maybeCompact(idx);
+}
+
+export function sessionCounts(idx: SearchIndex, sessionId: string): SessionCounts {
+  return idx.counts.get(sessionId) || { total: 0, known: 0, unknown: 0 };
+}
+
+// Every indexed commit, in no particular order. The views keep no other copy of the store.
+export function indexedCommits(idx: SearchIndex): CommitRec[] {
+  return [...idx.docs.values()].map((d) => d.commit);
+}
+
+export function commitsForSession(idx: SearchIndex, sessionId: string): CommitRec[] {
+  const ids = idx.bySession.get(sessionId);
+  if (!ids) return [];
+  const out: CommitRec[] = [];
+  for (const id of ids) {
+    const doc = idx.docs.get(id);
+    if (doc) out.push(doc.commit);
+  }
+  return out;
+}
+
+// --- candidates ---
+
+// A lazily built candidate set: size is an upper bound known before anything is copied, so
+// an AND only materializes its narrowest side and broad queries fall back to a plain scan.
+// exact = the set is precisely the matches (among commits with a known session), so the
+// per-commit check can be skipped. null = cannot narrow.
+type Plan = { size: number; exact: boolean; get: () => ReadonlySet<string> } | null;
+
+const EMPTY: ReadonlySet<string> = new Set();
+
+function fixed(ids: ReadonlySet<string> | undefined, exact: boolean): Plan {
+  const set = ids || EMPTY;
+  return { size: set.size, exact, get: () => set };
+}
+
+function unionOf(sets: ReadonlySet<string>[]): ReadonlySet<string> {
+  if (sets.length === 1) return sets[0];
+  const out = new Set<string>();
+  for (const set of sets) for (const id of set) out.add(id);
+  return out;
+}
+
+function anyOf(plans: Plan[]): Plan {
+  if (plans.some((p) => p === null)) return null;
+  const ps = plans as NonNullable<Plan>[];
+  return {
+    size: ps.reduce((n, p) => n + p.size, 0),
+    exact: ps.every((p) => p.exact),
+    get: () => unionOf(ps.map((p) => p.get()))
+  };
+}
+
+function has(list: number[], n: number): boolean {
+  let lo = 0;
+  let hi = list.length - 1;
+  while (lo <= hi) {
+    const mid = (lo + hi) >> 1;
+    if (list[mid] === n) return true;
+    if (list[mid] < n) lo = mid + 1;
+    else hi = mid - 1;
+  }
+  return false;
+}
+
+function gramPlan(idx: SearchIndex, value: string): Plan {
+  if (value.length < 3) return null;
+  const lists: number[][] = [];
+  for (const g of trigrams(value)) {
+    const list = idx.grams.get(g);
+    if (!list) return fixed(idx.long, false);
+    lists.push(list);
+  }
+  lists.sort((a, b) => a.length - b.length);
+  const [first, ...rest] = lists;
+  return {
+    size: first.length + idx.long.size,
+    exact: false,
+    get: () => {
+      const out = new Set(idx.long);
+      for (const n of first) {
+        const doc = idx.byNum[n];
+        if (doc && rest.every((l) => has(l, n))) out.add(doc.commit.id);
+      }
+      return out;
+    }
+  };
+}
+
+function sessionPlan(idx: SearchIndex, sessions: Record<string, SessionRec>, exact: boolean, test: (s: SessionRec) => boolean): Plan {
+  const sets: ReadonlySet<string>[] = [];
+  for (const s of Object.values(sessions)) {
+    const ids = idx.bySession.get(s.id);
+    if (ids && test(s)) sets.push(ids);
+  }
+  return { size: sets.reduce((n, set) => n + set.size, 0), exact, get: () => unionOf(sets) };
+}
+
+function dayPlan(idx: SearchIndex, from: number | null, to: number | null): Plan {
+  const sets: ReadonlySet<string>[] = [];
+  for (const [day, ids] of idx.byDay) {
+    const [y, m, d] = day.split("-").map(Number);
+    const start = new Date(y, m - 1, d).getTime();
+    const end = new Date(y, m - 1, d + 1).getTime();
+    if ((to !== null && start >= to) || (from !== null && end <= from)) continue;
+    sets.push(ids);
+  }
+  return { size: sets.reduce((n, set) => n + set.size, 0), exact: false, get: () => unionOf(sets) };
+}
+
+function termPlan(idx: SearchIndex, e: Extract<QueryExpr, { kind: "term" }>, sessions: Record<string, SessionRec>, fuzzy: boolean): Plan {
+  const v = e.value;
+  // Typos can match words the trigrams never saw.
+  if (fuzzy && (e.key === null || e.key === "session" || e.key === "file")) return null;
+  switch (e.key) {
+    case null:
+      return anyOf([sessionPlan(idx, sessions, false, (s) => sessionHay(s).includes(v)), gramPlan(idx, v)]);
+    case "session":
+      return sessionPlan(idx, sessions, true, (s) => sessionHay(s).includes(v));
+    case "host":
+      return anyOf([sessionPlan(idx, sessions, false, (s) => hostOf(s.url).includes(v)), gramPlan(idx, v)]);
+    case "file":
+    case "mime":
+    case "source":
+    case "state":
+    case "error":
+      return gramPlan(idx, v);
+    case "urn": {
+      const prefix = urnTermPrefix(v);
+      if (prefix && !v.includes("*")) return fixed(idx.byUrnPrefix.get(prefix), true);
+      if (prefix) return anyOf([fixed(idx.byUrnPrefix.get(prefix), false), fixed(idx.byUrnPath.get(prefix), false)]);
+      return v.startsWith("^") || v.includes("*") ? null : gramPlan(idx, v);
+    }
+    case "ext":
+      return fixed(idx.byExt.get(v.replace(/^\.+/, "")), true);
+    case "is":
+      return v === "unknown" || v === "unknownurn" || v === "unknown_urn" ? fixed(idx.unknownUrn, true) : null;
+    case "on":
+    case "after":
+    case "before":
+    case "this":
+      return e.range ? dayPlan(idx, e.range.from, e.range.to) : null;
+    default:
+      return null;
+  }
+}
+
+function plan(idx: SearchIndex, e: QueryExpr, sessions: Record<string, SessionRec>, fuzzy: boolean): Plan {
+  switch (e.kind) {
+    case "term":
+      return termPlan(idx, e, sessions, fuzzy);
+    case "not":
+      return null;
+    case "and": {
+      // The narrowest side bounds the result; the other sides are checked per commit.
+      let best: Plan = null;
+      for (const it of e.items) {
+        const p = plan(idx, it, sessions, fuzzy);
+        if (p && (!best || p.size < best.size)) best = p;
+      }
+      return best && { ...best, exact: false };
+    }
+    case "or":
+      return anyOf(e.items.map((it) => plan(idx, it, sessions, fuzzy)));
+  }
+}
+
+// Commits (with a known session) matching q, in no particular order.
+export function searchCommits(idx: SearchIndex, q: Query, sessions: Record<string, SessionRec>, opts: MatchOptions = {}): CommitRec[] {
+  if (q.error) return [];
+  const p = q.expr ? plan(idx, q.expr, sessions, opts.fuzzy === true) : null;
+  // Walking most of the index through a candidate set is slower than scanning it.
+  const narrowed = p !== null && p.size <= idx.docs.size / 2;
+  const verify = !!q.expr && !(narrowed && p.exact);
+  const out: CommitRec[] = [];
+  const consider = (c: CommitRec): void => {
+    const s = c.sessionId ? sessions[c.sessionId] : undefined;
+    if (s && (!verify || commitMatches(q, c, s, opts))) out.push(c);
+  };
+  if (narrowed) {
+    for (const id of p.get()) {
+      const doc = idx.docs.get(id);
+      if (doc) consider(doc.commit);
+    }
+  } else {
+    for (const doc of idx.docs.values()) consider(doc.commit);
+  }
+  return out;
+}
@@ -0,0 +1,203 @@
+import { getSync, setSync, SYNC_ITEM_BYTES, syncItemBytes } from "./storage.js";
+import { DEFAULT_RETENTION, type RetentionPolicy, type SubtreeLimit } from "./retention.js";
+import { DEFAULT_NAMESPACES, isValidNamespace, normalizeUrnCandidate, URN_SOURCES, type UrnOpts, type UrnRule, type UrnSourceKey } from "./urn.js";
+
+export const SYNC_SETTINGS = "settings";
+
+// URN rules, under their own key like saved searches: 30 rules of 200-char patterns would not fit
+// in the settings item. Older versions kept them in settings.urnRules; that is read until the
+// next save moves them here.
+export const SYNC_URN_RULES = "urnRules";
+
+export type BackupSchedule = {
+  enabled: boolean;
+  every: number;
+  unit: "hours" | "days";
+  folder: string; // relative to the downloads directory
+  keep: number;   // number of scheduled backup files to keep
+};
+
+// A URN namespace recognised in filenames (urn:<name>:...) and the colour of its tree root.
+export type UrnNamespace = {
+  name: string;
+  color: string; // #rrggbb
+};
+
+export type SyncSettings = {
+  urnOnly: boolean;
+  namespaces: UrnNamespace[]; // in tree root order; never empty
+  urnRules: UrnRule[];        // tried in order after the built-in token formats
+  urnSources: Record<UrnSourceKey, boolean>; // the extraction chain; all but filename are opt-in
+  rankedSearch: boolean; // order search results by match quality instead of by date
+  backupSchedule: BackupSchedule;
+  retention: RetentionPolicy;
+};
+
+export const DEFAULT_BACKUP_SCHEDULE: BackupSchedule = {
+  enabled: false,
+  every: 1,
+  unit: "days",
+  folder: "session-download-commits",
+  keep: 7
+};
+
+// Default colours, by position in the namespace list.
+export const NAMESPACE_PALETTE = ["#2f6fdf", "#1a8a4a", "#b4581a", "#8a3fb8", "#b8326a", "#247a8a", "#7a6a1a", "#55606e"];
+
+export const DEFAULT_NAMESPACES_SETTING: UrnNamespace[] = DEFAULT_NAMESPACES.map((name, i) => ({ name, color: NAMESPACE_PALETTE[i] }));
+
+export const DEFAULT_SETTINGS: SyncSettings = {
+  urnOnly: true,
+  namespaces: DEFAULT_NAMESPACES_SETTING,
+  urnRules: [],
+  urnSources: { filename: true, finalUrl: false, url: false, referrer: false, title: false },
+  rankedSearch: false,
+  backupSchedule: DEFAULT_BACKUP_SCHEDULE,
+  retention: DEFAULT_RETENTION
+};
+
+function posInt(v: unknown, fallback: number): number {
+  const n = typeof v === "number" ? v : Number(v);
+  return Number.isFinite(n) && n >= 1 ? Math.floor(n) : fallback;
+}
+
+function limitOrNull(v: unknown): number | null {
+  if (v === null || v === undefined || v === "") return null;
+  const n = typeof v === "number" ? v : Number(v);
+  return Number.isFinite(n) && n >= 1 ? Math.floor(n) : null;
+}
+
+function cleanSubtreeLimits(v: unknown): SubtreeLimit[] {
+  if (!Array.isArray(v)) return [];
+  const out: SubtreeLimit[] = [];
+  for (const it of v) {
+    const prefix = normalizeUrnCandidate(String(it?.prefix || ""), { namespaces: null });
+    const max = limitOrNull(it?.max);
+    if (prefix && max !== null) out.push({ prefix, max });
+  }
+  return out;
+}
+
+// Valid, unique names in the given order; an empty or unusable list falls back to the defaults.
+export function cleanNamespaces(v: unknown): UrnNamespace[] {
+  if (!Array.isArray(v)) return DEFAULT_NAMESPACES_SETTING;
+  const out: UrnNamespace[] = [];
+  for (const it of v) {
+    const name = String((typeof it === "string" ? it : it?.name) || "").trim().toLowerCase();
+    if (!isValidNamespace(name) || out.some((n) => n.name === name)) continue;
+    const color = String(it?.color || "").trim().toLowerCase();
+    out.push({ name, color: /^#[0-9a-f]{6}$/.test(color) ? color : NAMESPACE_PALETTE[out.length % NAMESPACE_PALETTE.length] });
+  }
+  return out.length > 0 ? out : DEFAULT_NAMESPACES_SETTING;
+}
+
+export function namespaceNames(s: SyncSettings): string[] {
+  return s.namespaces.map((n) => n.name);
+}
+
+const MAX_URN_RULES = 30;
+const MAX_RULE_TEXT = 200;
+const RULE_NAME_RE = /^[A-Za-z0-9_-]{1,40}$/;
+// Headroom under the per-item sync quota; non-ASCII patterns take up to 3 bytes per char.
+const MAX_URN_RULES_BYTES = SYNC_ITEM_BYTES - 512;
+
+// Rules without a usable name get rule<N>; names are unique. Patterns that do not compile are
+// kept (so the options page can show the error) and skipped at extraction time. Rules past the
+// byte budget of the urnRules item are dropped, like those past MAX_URN_RULES.
+export function cleanUrnRules(v: unknown): UrnRule[] {
+  if (!Array.isArray(v)) return [];
+  const out: UrnRule[] = [];
+  for (const it of v.slice(0, MAX_URN_RULES)) {
+    const pattern = String(it?.pattern || "").trim().slice(0, MAX_RULE_TEXT);
+    const template = String(it?.template || "").trim().slice(0, MAX_RULE_TEXT);
+    if (!pattern || !template) continue;
+    let name = String(it?.name || "").trim();
+    if (!RULE_NAME_RE.test(name) || out.some((r) => r.name === name)) {
+      let i = out.length + 1;
+      while (out.some((r) => r.name === `rule${i}`)) i += 1;
+      name = `rule${i}`;
+    }
+    if (syncItemBytes(SYNC_URN_RULES, [...out, { name, pattern, template }]) > MAX_URN_RULES_BYTES) break;
+    out.push({ name, pattern, template });
+  }
+  return out;
+}
+
+function cleanUrnSources(v: unknown): Record<UrnSourceKey, boolean> {
+  const r = (v && typeof v === "object" ? v : {}) as Record<string, unknown>;
+  const out = { ...DEFAULT_SETTINGS.urnSources };
+  for (const k of URN_SOURCES) out[k] = k === "filename" ? r[k] !== false : r[k] === true;
+  return out;
+}
+
+// What extraction in the service worker (and backfill) honours.
+export function urnOptsOf(s: SyncSettings): UrnOpts {
+  return { namespaces: namespaceNames(s), rules: s.urnRules, sources: s.urnSources };
+}
+
+function cleanFolder(v: unknown, fallback: string): string {
+  if (typeof v !== "string") return fallback;
+  // chrome.downloads only accepts relative paths without '..' segments.
+  const segs = v.split(/[\\/]+/g).map((s) => s.trim()).filter((s) => s && s !== "." && s !== "..");
+  return segs.join("/");
+}
+
+export function normalizeSettings(raw: unknown): SyncSettings {
+  const r = (raw && typeof raw === "object" ? raw : {}) as Record<string, any>;
+  const b = (r.backupSchedule && typeof r.backupSchedule === "object" ? r.backupSchedule : {}) as Record<string, unknown>;
+  const ret = (r.retention && typeof r.retention === "object" ? r.retention : {}) as Record<string, unknown>;
+  const keepLatest = typeof ret.keepLatestPerLeaf === "number" || typeof ret.keepLatestPerLeaf === "string" ? Number(ret.keepLatestPerLeaf) : DEFAULT_RETENTION.keepLatestPerLeaf;
+  return {
+    // Default: urn-only ON (record only downloads whose filename includes an URN token)
+    urnOnly: r.urnOnly !== false,
+    namespaces: cleanNamespaces(r.namespaces),
+    urnRules: cleanUrnRules(r.urnRules),
+    urnSources: cleanUrnSources(r.urnSources),
+    rankedSearch: r.rankedSearch === true,
+    backupSchedule: {
+      enabled: b.enabled === true,
+      every: posInt(b.every, DEFAULT_BACKUP_SCHEDULE.every),
+      unit: b.unit === "hours" ? "hours" : "days",
+      folder: cleanFolder(b.folder, DEFAULT_BACKUP_SCHEDULE.folder),
+      keep: posInt(b.keep, DEFAULT_BACKUP_SCHEDULE.keep)
+    },
+    retention: {
+      enabled: ret.enabled === true,
+      maxAgeDays: limitOrNull(ret.maxAgeDays),
+      maxPerRoot: limitOrNull(ret.maxPerRoot),
+      subtreeLimits: cleanSubtreeLimits(ret.subtreeLimits),
+      keepLatestPerLeaf: Number.isFinite(keepLatest) && keepLatest >= 0 ? Math.floor(keepLatest) : DEFAULT_RETENTION.keepLatestPerLeaf
+    }
+  };
+}
+
+// The stored settings item plus the rules, from their own key or (not yet moved) the legacy field.
+async function loadStored(): Promise<{ cur: Record<string, unknown>; rules: unknown; moved: boolean }> {
+  const got = await getSync<{ [k: string]: unknown }>([SYNC_SETTINGS, SYNC_URN_RULES]);
+  const cur = (got[SYNC_SETTINGS] && typeof got[SYNC_SETTINGS] === "object" ? got[SYNC_SETTINGS] : {}) as Record<string, unknown>;
+  const moved = got[SYNC_URN_RULES] !== undefined;
+  return { cur, rules: moved ? got[SYNC_URN_RULES] : cur.urnRules, moved };
+}
+
+export async function loadSettings(): Promise<SyncSettings> {
+  const { cur, rules } = await loadStored();
+  return normalizeSettings({ ...cur, urnRules: rules });
+}
+
+// Read-modify-write so that pages only touching one field never drop the others. Rejects when
+// sync storage refuses the write (quota), so callers can tell the user.
+export async function saveSettings(patch: Partial<SyncSettings>): Promise<SyncSettings> {
+  const { cur, rules, moved } = await loadStored();
+  const next = normalizeSettings({ ...cur, urnRules: rules, ...patch });
+  const { urnRules, ...rest } = next;
+  const keep = { ...cur };
+  delete keep.urnRules;
+  const items: Record<string, unknown> = { [SYNC_SETTINGS]: { ...keep, ...rest } };
+  if (patch.urnRules !== undefined || !moved) items[SYNC_URN_RULES] = urnRules;
+  await setSync(items);
+  return next;
+}
+
+export function backupPeriodMinutes(s: BackupSchedule): number {
+  return s.every * (s.unit === "days" ? 24 * 60 : 60);
+}
@@ -2,12 +2,28 @@ function p<T>(fn: (cb: (v: T) => void) => void): Promise<T> {
   return new Promise((resolve) => fn(resolve));
 }
 
+// Like p(), but rejects when the call set chrome.runtime.lastError (e.g. a sync quota error).
+function pv(fn: (cb: () => void) => void): Promise<void> {
+  return new Promise((resolve, reject) => fn(() => {
+    const err = chrome.runtime.lastError;
+    if (err) reject(new Error(err.message || "storage write failed"));
+    else resolve();
+  }));
+}
+
+// chrome.storage.sync.QUOTA_BYTES_PER_ITEM: the key plus the JSON of its value.
+export const SYNC_ITEM_BYTES = 8192;
+
+export function syncItemBytes(key: string, value: unknown): number {
+  return new TextEncoder().encode(key + JSON.stringify(value)).length;
+}
+
 export async function getLocal<T>(keys: string[] | string): Promise<T> {
   return await p<T>((cb) => chrome.storage.local.get(keys, cb));
 }
 
 export async function setLocal(items: Record<string, unknown>): Promise<void> {
-  await p<void>((cb) => chrome.storage.local.set(items, () => cb()));
+  await pv((cb) => chrome.storage.local.set(items, cb));
 }
 
 export async function getSync<T>(keys: string[] | string): Promise<T> {
@@ -15,5 +31,9 @@ export async function getSync<T>(keys: string[] | string): Promise<T> {
 }
 
 export async function setSync(items: Record<string, unknown>): Promise<void> {
-  await p<void>((cb) => chrome.storage.sync.set(items, () => cb()));
+  await pv((cb) => chrome.storage.sync.set(items, cb));
+}
+
+export async function removeSync(keys: string[] | string): Promise<void> {
+  await pv((cb) => chrome.storage.sync.remove(keys, cb));
 }
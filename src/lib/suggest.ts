@@ -0,0 +1,162 @@
+import { COMMIT_FLAGS } from "./lifecycle.js";
+import { hostOf, SUPPORTED_KEYS, type SessionRec } from "./query.js";
+import { type TreeModel, type TreeNode } from "./tree.js";
+import { localDateKey } from "./util.js";
+
+// Autocomplete for the search box: what to offer for the term under the cursor.
+// URN segments come from a TreeModel of the stored commits, so only paths that exist are offered.
+
+export type SuggestionKind = "key" | "urn" | "session" | "host" | "date" | "value";
+
+export type Suggestion = {
+  kind: SuggestionKind;
+  text: string;          // replaces the term, e.g. `urn:^feat:tree` or `session:"Refactor tree"`
+  label: string;         // what the list shows, e.g. `tree`
+  count: number | null;  // commits (urn) or sessions (host), when known
+};
+
+// Suggestions for input[from, to); to is the end of the term, which may run past the cursor.
+export type SuggestResult = { from: number; to: number; items: Suggestion[] };
+
+export type SuggestContext = {
+  model: TreeModel;
+  sessions: Record<string, SessionRec>;
+  now?: number;
+};
+
+const MAX_SUGGESTIONS = 8;
+
+// Word boundaries as the query tokenizer sees them (quotes keep spaces inside a term).
+function termBounds(input: string, cursor: number): { start: number; end: number } | null {
+  let start = 0;
+  let inQuote = false;
+  for (let i = 0; i < cursor; i += 1) {
+    const ch = input[i];
+    if (inQuote) {
+      if (ch === "\\") i += 1;
+      else if (ch === '"') inQuote = false;
+    } else if (ch === '"') {
+      inQuote = true;
+    } else if (/\s/.test(ch) || ch === "(") {
+      start = i + 1;
+    }
+  }
+  if (input[start] === "-") start += 1;
+  let end = cursor;
+  if (!inQuote) while (end < input.length && !/[\s()"]/.test(input[end])) end += 1;
+  return start <= cursor ? { start, end } : null;
+}
+
+function quoteIfNeeded(value: string): string {
+  return /[\s()"]/.test(value) ? `"${value.replace(/["\\]/g, (c) => `\\${c}`)}"` : value;
+}
+
+function keySuggestions(partial: string): Suggestion[] {
+  return [...SUPPORTED_KEYS]
+    .filter((k) => k.startsWith(partial))
+    .map((k) => ({ kind: "key" as const, text: `${k}:`, label: `${k}:`, count: null }));
+}
+
+// urn:feat:tr / urn:^feat:tr / urn:feat:*:pa -> child segments of the typed path.
+function urnSuggestions(value: string, model: TreeModel): Suggestion[] {
+  const anchor = value.startsWith("^") ? "^" : "";
+  const body = value.slice(anchor.length).replace(/^urn:/, "").replace(/\//g, ":");
+  const parts = body.split(":");
+  const partial = parts.pop() || "";
+
+  // Nodes reached by the completed segments; "*" stands for any one segment.
+  let nodes: TreeNode[] = model.roots.filter((r) => r.prefix !== "__unknown__");
+  let path: string[] = [];
+  if (parts.length > 0) {
+    const root = model.byId.get(`urn:${parts[0]}`);
+    if (!root) return [];
+    nodes = [root];
+    path = [parts[0]];
+    for (const seg of parts.slice(1)) {
+      if (seg === "**") return [];
+      nodes = seg === "*" ? nodes.flatMap((n) => n.children) : nodes.flatMap((n) => n.children.filter((c) => c.label === seg));
+      path.push(seg);
+    }
+    nodes = nodes.flatMap((n) => n.children);
+  }
+
+  // The same segment can sit under several nodes when a glob was typed.
+  const counts = new Map<string, number>();
+  for (const n of nodes) {
+    const label = n.depth === 0 ? n.prefix.slice("urn:".length) : n.label;
+    if (label.startsWith(partial)) counts.set(label, (counts.get(label) || 0) + n.commitCount);
+  }
+  return [...counts]
+    .sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))
+    .map(([label, count]) => ({ kind: "urn" as const, text: `urn:${anchor}${[...path, label].join(":")}`, label, count }));
+}
+
+function sessionSuggestions(partial: string, sessions: Record<string, SessionRec>): Suggestion[] {
+  const titles = new Map<string, number>();
+  const hosts = new Map<string, number>();
+  for (const s of Object.values(sessions)) {
+    const title = String(s.title || "").trim();
+    if (title && title.toLowerCase().includes(partial)) titles.set(title, (titles.get(title) || 0) + 1);
+    const host = hostOf(s.url);
+    if (host && host.includes(partial)) hosts.set(host, (hosts.get(host) || 0) + 1);
+  }
+  // Prefix hits first, then the most common.
+  const rank = (text: string, n: number): number => (text.toLowerCase().startsWith(partial) ? 1_000_000 : 0) + n;
+  const out: Suggestion[] = [
+    ...[...hosts].map(([h, n]) => ({ kind: "host" as const, text: `session:${h}`, label: h, count: n })),
+    ...[...titles].map(([t, n]) => ({ kind: "session" as const, text: `session:${quoteIfNeeded(t)}`, label: t, count: n }))
+  ];
+  return out.sort((a, b) => rank(b.label, b.count || 0) - rank(a.label, a.count || 0));
+}
+
+function dateSuggestions(key: string, partial: string, nowMs: number): Suggestion[] {
+  const today = localDateKey(new Date(nowMs).toISOString()) || "";
+  const values =
+    key === "this" ? ["day", "week", "month", "year"]
+    : key === "on" ? ["today", "yesterday", today, today.slice(0, 7)]
+    : ["today", "yesterday", "24h", "7d", "2w", "30d", today];
+  const out: Suggestion[] = values.filter((v) => v && v.startsWith(partial)).map((v) => ({ kind: "date" as const, text: `${key}:${v}`, label: v, count: null }));
+  // on: takes calendar days only; point at this: for the rolling ranges.
+  if (key === "on" && partial === "") {
+    for (const unit of ["week", "month"]) out.push({ kind: "date", text: `this:${unit}`, label: `this:${unit}`, count: null });
+  }
+  return out;
+}
+
+function valueSuggestions(key: string, partial: string): Suggestion[] {
+  const values = key === "is" ? ["unknown", "inferred", ...COMMIT_FLAGS] : [];
+  return values.filter((v) => v.startsWith(partial)).map((v) => ({ kind: "value" as const, text: `${key}:${v}`, label: v, count: null }));
+}
+
+// Suggestions for the term at the cursor, or null when there is nothing to offer.
+export function suggestAt(input: string, cursor: number, ctx: SuggestContext): SuggestResult | null {
+  if (input.trimStart().startsWith(">")) return null;
+  const bounds = termBounds(input, cursor);
+  if (!bounds) return null;
+  const typed = input.slice(bounds.start, cursor);
+  if (!typed) return null;
+
+  let items: Suggestion[] = [];
+  const idx = typed.indexOf(":");
+  const key = idx > 0 ? typed.slice(0, idx).toLowerCase() : "";
+  if (idx < 0) {
+    items = keySuggestions(typed.toLowerCase());
+  } else if (SUPPORTED_KEYS.has(key)) {
+    const partial = typed.slice(idx + 1).replace(/^"/, "").toLowerCase();
+    if (key === "urn") items = urnSuggestions(partial, ctx.model);
+    else if (key === "session") items = sessionSuggestions(partial, ctx.sessions);
+    else if (key === "on" || key === "after" || key === "before" || key === "this") items = dateSuggestions(key, partial, ctx.now ?? Date.now());
+    else items = valueSuggestions(key, partial);
+  }
+
+  // Nothing to add when the only suggestion is what is already there.
+  const current = input.slice(bounds.start, bounds.end).toLowerCase();
+  items = items.filter((s) => s.text.toLowerCase() !== current).slice(0, MAX_SUGGESTIONS);
+  return items.length > 0 ? { from: bounds.start, to: bounds.end, items } : null;
+}
+
+// Input with the suggestion applied, and where the cursor goes.
+export function applySuggestion(input: string, result: SuggestResult, s: Suggestion): { value: string; cursor: number } {
+  const value = input.slice(0, result.from) + s.text + input.slice(result.to);
+  return { value, cursor: result.from + s.text.length };
+}
@@ -1,5 +1,6 @@
 import { type CommitRec, type SessionRec } from "./query.js";
-import { urnToSegments } from "./urn.js";
+import { DEFAULT_NAMESPACES, urnToSegments } from "./urn.js";
+import { isBrokenCommit } from "./lifecycle.js";
 
 export type TreeNode = {
   id: string;        // stable id == prefix
@@ -7,6 +8,7 @@ export type TreeNode = {
   prefix: string;    // canonical urn prefix (or '__unknown__')
   depth: number;     // root=0
   commitCount: number;
+  failedCount: number; // failed, erased or removed downloads (see lib/lifecycle)
   sessionCount: number;
   lastAt: string | null; // ISO timestamp
   children: TreeNode[];
@@ -20,6 +22,9 @@ export type TreeModel = {
 
 export type BuildTreeOpts = {
   includeUnknown?: boolean;
+  // Root order (settings.namespaces; default DEFAULT_NAMESPACES). Stored URNs in other
+  // namespaces still get a root, after these.
+  namespaces?: readonly string[];
 };
 
 export function matchesUrnPrefix(urn: string, prefix: string): boolean {
@@ -29,6 +34,41 @@ export function matchesUrnPrefix(urn: string, prefix: string): boolean {
   return ch === ":" || ch === "/" || ch === "";
 }
 
+// Depth of a URN in the container tree: urn:feat is 0, urn:feat:a:b is 2. null if not a URN.
+export function urnDepth(urn: string): number | null {
+  const seg = urnToSegments(urn);
+  return seg ? seg.segments.length : null;
+}
+
+function globSegment(seg: string, pat: string): boolean {
+  if (pat === "*") return true;
+  if (!pat.includes("*")) return seg === pat;
+  const body = pat.split("*").map((p) => p.replace(/[.+?^$|()[\]{}\\]/g, "\\$&")).join(".*");
+  return new RegExp(`^${body}$`).test(seg);
+}
+
+function globPath(path: string[], i: number, pat: string[], j: number): boolean {
+  if (j === pat.length) return i === path.length;
+  if (pat[j] === "**") {
+    for (let k = i; k <= path.length; k += 1) {
+      if (globPath(path, k, pat, j + 1)) return true;
+    }
+    return false;
+  }
+  return i < path.length && globSegment(path[i], pat[j]) && globPath(path, i + 1, pat, j + 1);
+}
+
+// Whole-URN pattern over segments (the "urn:" head is optional): "*" is one segment or part of
+// one ("chrom*"), "**" is any number of segments including none. urn:feat:sessions:** is the
+// subtree, itself included.
+export function matchesUrnGlob(urn: string, pattern: string): boolean {
+  const seg = urnToSegments(urn);
+  if (!seg) return false;
+  const path = [seg.root.slice("urn:".length), ...seg.segments];
+  const pat = pattern.toLowerCase().replace(/^urn:/, "").split(/[:/]+/g).filter(Boolean);
+  return pat.length > 0 && globPath(path, 0, pat, 0);
+}
+
 export function buildUrnContainerTree(
   commits: CommitRec[],
   sessionsById: Record<string, SessionRec>,
@@ -36,17 +76,26 @@ export function buildUrnContainerTree(
 ): TreeModel {
   const includeUnknown = opts?.includeUnknown === true;
 
-  const rootFeat: TreeNode = { id: "urn:feat", label: "urn:feat", prefix: "urn:feat", depth: 0, commitCount: 0, sessionCount: 0, lastAt: null, children: [] };
-  const rootTest: TreeNode = { id: "urn:test", label: "urn:test", prefix: "urn:test", depth: 0, commitCount: 0, sessionCount: 0, lastAt: null, children: [] };
-  const rootUnknown: TreeNode = { id: "__unknown__", label: "(unknown urn)", prefix: "__unknown__", depth: 0, commitCount: 0, sessionCount: 0, lastAt: null, children: [] };
+  const rootUnknown: TreeNode = { id: "__unknown__", label: "(unknown urn)", prefix: "__unknown__", depth: 0, commitCount: 0, failedCount: 0, sessionCount: 0, lastAt: null, children: [] };
 
   const byId = new Map<string, TreeNode>();
   const parentById = new Map<string, string | null>();
 
-  byId.set(rootFeat.id, rootFeat);
-  byId.set(rootTest.id, rootTest);
-  parentById.set(rootFeat.id, null);
-  parentById.set(rootTest.id, null);
+  // Configured namespaces first, in their order; others are added as stored URNs need them.
+  const nsRoots: TreeNode[] = [];
+  const extraRoots: TreeNode[] = [];
+
+  function ensureRoot(root: string, configured: boolean): TreeNode {
+    const existing = byId.get(root);
+    if (existing) return existing;
+    const n: TreeNode = { id: root, label: root, prefix: root, depth: 0, commitCount: 0, failedCount: 0, sessionCount: 0, lastAt: null, children: [] };
+    byId.set(root, n);
+    parentById.set(root, null);
+    (configured ? nsRoots : extraRoots).push(n);
+    return n;
+  }
+
+  for (const ns of opts?.namespaces ?? DEFAULT_NAMESPACES) ensureRoot(`urn:${ns}`, true);
 
   if (includeUnknown) {
     byId.set(rootUnknown.id, rootUnknown);
@@ -78,7 +127,7 @@ export function buildUrnContainerTree(
     const id = prefix;
     const existing = byId.get(id);
     if (existing) return existing;
-    const n: TreeNode = { id, label, prefix, depth, commitCount: 0, sessionCount: 0, lastAt: null, children: [] };
+    const n: TreeNode = { id, label, prefix, depth, commitCount: 0, failedCount: 0, sessionCount: 0, lastAt: null, children: [] };
     byId.set(id, n);
     parentById.set(id, parent.id);
     parent.children.push(n);
@@ -87,6 +136,7 @@ export function buildUrnContainerTree(
 
   function bumpNode(n: TreeNode, commit: CommitRec): void {
     n.commitCount += 1;
+    if (isBrokenCommit(commit)) n.failedCount += 1;
     bumpSession(n.id, commit.sessionId);
     bumpLast(n.id, commit.capturedAt || commit.startTime);
   }
@@ -95,7 +145,7 @@ export function buildUrnContainerTree(
     if (c.urn) {
       const seg = urnToSegments(c.urn);
       if (!seg) continue;
-      const r = seg.root === "urn:feat" ? rootFeat : rootTest;
+      const r = ensureRoot(seg.root, false);
       bumpNode(r, c);
 
       let cur = r;
@@ -117,12 +167,10 @@ export function buildUrnContainerTree(
     for (const c of n.children) finalize(c);
   }
 
-  finalize(rootFeat);
-  finalize(rootTest);
-  if (includeUnknown) finalize(rootUnknown);
-
-  const roots: TreeNode[] = [rootFeat, rootTest];
+  extraRoots.sort((a, b) => a.label.localeCompare(b.label));
+  const roots: TreeNode[] = [...nsRoots, ...extraRoots];
   if (includeUnknown) roots.push(rootUnknown);
+  for (const r of roots) finalize(r);
 
   // Drop empty roots
   const kept = roots.filter((r) => r.commitCount > 0);
@@ -1,33 +1,82 @@
 export type UrnExtract = { urn: string | null; source: string | null };
 
+// Namespaces (urn:<ns>:...) recognised in filenames. Configurable in options (settings.namespaces);
+// these are the defaults.
+export const DEFAULT_NAMESPACES: readonly string[] = ["feat", "test"];
+
+// Lower-case alnum and "-". "_" is not allowed: it would be ambiguous in urn_<ns>_a_b tokens.
+const NAMESPACE_SRC = "[a-z0-9][a-z0-9-]{0,31}";
+const NAMESPACE_RE = new RegExp(`^${NAMESPACE_SRC}$`);
+
+export function isValidNamespace(ns: string): boolean {
+  return NAMESPACE_RE.test(ns);
+}
+
+// A user-defined mapping from filename to URN (settings.urnRules), tried in order after the
+// built-in token formats. The pattern is matched case-insensitively against the base name.
+export type UrnRule = {
+  name: string;
+  pattern: string;  // RegExp source, e.g. ^PROJ-(\d+)
+  template: string; // e.g. urn:feat:proj:$1 ($1..$9, $<group>, $& and $$ as in String#replace)
+};
+
+// Where a download's URN can come from, in the order they are tried (settings.urnSources).
+// filename covers the token formats and user rules; the others look for a token anywhere in the text.
+export const URN_SOURCES = ["filename", "finalUrl", "url", "referrer", "title"] as const;
+export type UrnSourceKey = (typeof URN_SOURCES)[number];
+
+export type UrnOpts = {
+  // Allowed namespaces (default: DEFAULT_NAMESPACES). null accepts any well-formed namespace,
+  // for URNs that are already stored (their namespace may have been removed from the list since).
+  namespaces?: readonly string[] | null;
+  rules?: readonly UrnRule[];
+  // Sources extractUrnFromDownload may use (default: filename only).
+  sources?: Readonly<Record<UrnSourceKey, boolean>>;
+};
+
+function allowedNamespaces(opts: UrnOpts): readonly string[] | null {
+  return opts.namespaces === undefined ? DEFAULT_NAMESPACES : opts.namespaces;
+}
+
 function trimPunctuation(s: string): string {
   return s.replace(/[)\]}>,.]+$/g, "").replace(/^[<[{(]+/g, "");
 }
 
-export function normalizeUrnCandidate(s: string): string | null {
-  const t = trimPunctuation(String(s || "").trim());
-  if (!t) return null;
+const CANDIDATE_RE = new RegExp(`^urn:(${NAMESPACE_SRC}):(.+)$`);
+
+type UrnCheck = { urn: string | null; failure: "shape" | "namespace" | "segment" | null; detail: string };
 
+function checkUrnCandidate(s: string, opts: UrnOpts): UrnCheck {
+  const t = trimPunctuation(String(s || "").trim());
   const lower = t.toLowerCase();
 
-  // Allowlist: urn:feat:* or urn:test:*
-  const m = lower.match(/^urn:(feat|test):(.+)$/);
-  if (!m) return null;
+  // Allowlist: urn:<ns>:* for the configured namespaces.
+  const m = lower.match(CANDIDATE_RE);
+  if (!m) return { urn: null, failure: "shape", detail: `"${t}" is not urn:<namespace>:<segments>` };
 
   const ns = m[1];
   const rest = m[2];
+  const allowed = allowedNamespaces(opts);
+  if (allowed && !allowed.includes(ns)) return { urn: null, failure: "namespace", detail: `namespace "${ns}" is not enabled (${allowed.join(", ")})` };
 
   // Accept either ':' or '/' as separators, but normalize to ':'.
   const segs = rest.split(/[:/]+/g).filter(Boolean);
-  if (segs.length === 0) return null;
+  if (segs.length === 0) return { urn: null, failure: "shape", detail: `no segments after urn:${ns}:` };
 
   // Strict segments: alnum + (- or _). No dots/spaces/parentheses.
   const segRe = /^[a-z0-9][a-z0-9_-]*$/;
   for (const seg of segs) {
-    if (!segRe.test(seg)) return null;
+    if (segRe.test(seg)) continue;
+    const bad = /[^a-z0-9_-]/.exec(seg);
+    const detail = bad ? `segment "${seg}" contains "${bad[0]}" (only a-z, 0-9, "-" and "_")` : `segment "${seg}" must start with a letter or digit`;
+    return { urn: null, failure: "segment", detail };
   }
 
-  return `urn:${ns}:${segs.join(":")}`;
+  return { urn: `urn:${ns}:${segs.join(":")}`, failure: null, detail: "ok" };
+}
+
+export function normalizeUrnCandidate(s: string, opts: UrnOpts = {}): string | null {
+  return checkUrnCandidate(s, opts).urn;
 }
 
 function decodePercentIfAny(s: string): string {
@@ -70,71 +119,280 @@ function takePrefix(s: string, isOk: (ch: string) => boolean): { token: string;
 // NOTE: each extension segment must start with a letter to avoid mis-parsing version dots (e.g. v0.1.2)
 const SUFFIX_RE = /^\s*(\(\d+\))?\s*(\.[A-Za-z][A-Za-z0-9_-]{0,15}){1,3}\s*$/;
 
-export function extractUrnFromFilename(filename: string | null | undefined): UrnExtract {
+// Where a token format (urn__<ns>__, urn_<ns>_, urn:<ns>:) starts. Namespaces are tried in
+// the configured order, so the first one listed wins when a filename has several tokens. A token
+// starts the text or follows a non-alphanumeric character: "return_test_results" and
+// "Saturn_feat_rings" hold no urn_test_ / urn_feat_ token.
+function tokenStart(lower: string, allowed: readonly string[] | null, sep: string): number {
+  if (!allowed) return lower.search(new RegExp(`(?<![a-z0-9])urn${sep}${NAMESPACE_SRC}${sep}`));
+  for (const ns of allowed) {
+    const idx = lower.search(new RegExp(`(?<![a-z0-9])urn${sep}${ns}${sep}`));
+    if (idx >= 0) return idx;
+  }
+  return -1;
+}
+
+type FilenameFormat = {
+  source: string; // urnSource on a hit
+  start: (lower: string, allowed: readonly string[] | null) => number;
+  isOk: (ch: string) => boolean;
+  decode: (token: string) => string;
+};
+
+// Tried in this order; the first that yields a URN wins.
+const FILENAME_FORMATS: FilenameFormat[] = [
+  // 1) URL-encoded urn%3Afeat%3A...
+  { source: "filename:urn%3A", start: (lower) => lower.indexOf("urn%3a"), isOk: isEncodedTokenChar, decode: decodePercentIfAny },
+  // 2) Double-underscore safe token: urn__feat__a__b -> urn:feat:a:b
+  { source: "filename:urn__", start: (lower, allowed) => tokenStart(lower, allowed, "__"), isOk: isTokenChar, decode: (t) => t.replace(/__/g, ":") },
+  // 3) Single-underscore legacy: urn_feat_a_b -> urn:feat:a:b (namespaces never contain "_")
+  { source: "filename:urn_", start: (lower, allowed) => tokenStart(lower, allowed, "_"), isOk: isTokenChar, decode: (t) => t.replace(/_/g, ":") },
+  // 4) Raw canonical in filename (may survive on mac/linux): urn:feat:...
+  { source: "filename:urn:", start: (lower, allowed) => tokenStart(lower, allowed, ":"), isOk: isRawUrnChar, decode: (t) => t }
+];
+
+// Why a filename format or rule gave no URN (see diagnoseFilename).
+export type UrnFailure = "not-found" | "suffix" | "shape" | "namespace" | "segment" | "rule-pattern" | "rule-no-match";
+
+export type UrnAttempt = {
+  format: string;         // the urnSource it would record, e.g. "filename:urn__" or "filename:rule:proj"
+  token: string | null;   // the token found in the filename (rules: the expanded template)
+  urn: string | null;
+  failure: UrnFailure | null;
+  detail: string;         // what failed, for people
+};
+
+function suffixDetail(rest: string): string {
+  if (!rest.trim()) return "nothing follows the token: an extension such as .zip is required";
+  if (/^\.\d/.test(rest)) return `the token ends before "${rest}": "." followed by a digit (a dotted version such as v0.1.2) is not an extension`;
+  if (/^\s+[^\s(.]/.test(rest)) return `the token ends at a space: "${rest}" is not an extension`;
+  return `the token ends at "${rest[0]}": "${rest}" is not an extension such as .zip or " (1).zip"`;
+}
+
+// diagnose: also look for tokens in namespaces that are not enabled, to say so.
+function attemptFormat(bn: string, lower: string, f: FilenameFormat, opts: UrnOpts, diagnose: boolean): UrnAttempt {
+  let start = f.start(lower, allowedNamespaces(opts));
+  if (start < 0 && diagnose) start = f.start(lower, null);
+  const p = start >= 0 ? takePrefix(bn.slice(start), f.isOk) : null;
+  if (!p) return { format: f.source, token: null, urn: null, failure: "not-found", detail: "no token in this format" };
+  const c = checkUrnCandidate(f.decode(p.token), opts);
+  if (!SUFFIX_RE.test(p.rest)) {
+    const detail = c.failure ? `${suffixDetail(p.rest)}; ${c.detail}` : suffixDetail(p.rest);
+    return { format: f.source, token: p.token, urn: null, failure: "suffix", detail };
+  }
+  return { format: f.source, token: p.token, urn: c.urn, failure: c.failure, detail: c.detail };
+}
+
+export function extractUrnFromFilename(filename: string | null | undefined, opts: UrnOpts = {}): UrnExtract {
   if (!filename) return { urn: null, source: null };
   const bn = baseName(String(filename));
+  const lower = bn.toLowerCase();
 
-  // 1) URL-encoded urn%3Afeat%3A...
-  const encIdx = bn.toLowerCase().indexOf("urn%3a");
-  if (encIdx >= 0) {
-    const sub = bn.slice(encIdx);
-    const p = takePrefix(sub, isEncodedTokenChar);
-    if (p && SUFFIX_RE.test(p.rest)) {
-      const decoded = decodePercentIfAny(p.token);
-      const urn = normalizeUrnCandidate(decoded);
-      if (urn) return { urn, source: "filename:urn%3A" };
-    }
+  for (const f of FILENAME_FORMATS) {
+    const a = attemptFormat(bn, lower, f, opts, false);
+    if (a.urn) return { urn: a.urn, source: a.format };
   }
 
-  // 2) Double-underscore safe token: urn__feat__a__b -> urn:feat:a:b
-  const duIdx = bn.toLowerCase().indexOf("urn__feat__");
-  const duIdx2 = bn.toLowerCase().indexOf("urn__test__");
-  const duStart = duIdx >= 0 ? duIdx : (duIdx2 >= 0 ? duIdx2 : -1);
-  if (duStart >= 0) {
-    const sub = bn.slice(duStart);
-    const p = takePrefix(sub, isTokenChar);
-    if (p && SUFFIX_RE.test(p.rest)) {
-      const decoded = p.token.replace(/__/g, ":");
-      const urn = normalizeUrnCandidate(decoded);
-      if (urn) return { urn, source: "filename:urn__" };
+  // 5) User-defined rules, first match that yields a valid URN.
+  for (const rule of opts.rules || []) {
+    const r = applyUrnRule(bn, rule, opts);
+    if (r.urn) return { urn: r.urn, source: `filename:rule:${rule.name}` };
+  }
+
+  return { urn: null, source: null };
+}
+
+const rulePatternCache = new Map<string, RegExp | string>();
+
+// The compiled pattern, or the reason it does not compile.
+function compileRulePattern(pattern: string): RegExp | string {
+  let re = rulePatternCache.get(pattern);
+  if (re === undefined) {
+    try {
+      re = new RegExp(pattern, "i");
+    } catch (e) {
+      re = e instanceof Error ? e.message : String(e);
     }
+    rulePatternCache.set(pattern, re);
+  }
+  return re;
+}
+
+export function urnRuleError(rule: UrnRule): string | null {
+  const re = compileRulePattern(rule.pattern);
+  return typeof re === "string" ? re : null;
+}
+
+function expandTemplate(template: string, m: RegExpExecArray): string {
+  return template.replace(/\$(\$|&|\d|<([^>]+)>)/g, (all, tok: string, group: string | undefined) => {
+    if (tok === "$") return "$";
+    if (tok === "&") return m[0];
+    if (group !== undefined) return m.groups?.[group] ?? "";
+    return m[Number(tok)] ?? "";
+  });
+}
+
+// What one rule makes of a filename: whether the pattern matched, the expanded template and the
+// URN it normalizes to (null when the result is not a valid URN in an allowed namespace).
+export type UrnRuleOutcome = {
+  rule: string;
+  matched: boolean;
+  expanded: string | null;
+  urn: string | null;
+  error: string | null; // the pattern does not compile
+};
+
+function applyUrnRule(bn: string, rule: UrnRule, opts: UrnOpts): UrnRuleOutcome {
+  const re = compileRulePattern(rule.pattern);
+  if (typeof re === "string") return { rule: rule.name, matched: false, expanded: null, urn: null, error: re };
+  const m = re.exec(bn);
+  if (!m) return { rule: rule.name, matched: false, expanded: null, urn: null, error: null };
+  const expanded = expandTemplate(rule.template, m);
+  return { rule: rule.name, matched: true, expanded, urn: normalizeUrnCandidate(expanded, opts), error: null };
+}
+
+// Every rule's outcome for a filename, in order (the options page tester shows these).
+export function traceUrnRules(filename: string, opts: UrnOpts = {}): UrnRuleOutcome[] {
+  const bn = baseName(String(filename || ""));
+  return (opts.rules || []).map((r) => applyUrnRule(bn, r, opts));
+}
+
+// A URN token anywhere in free text (a decoded URL, a page title). Nothing anchors the end of
+// the token as the extension does in filenames: it runs to the first character it cannot contain.
+export function extractUrnFromText(text: string | null | undefined, opts: UrnOpts = {}): { urn: string; format: string } | null {
+  if (!text) return null;
+  const s = String(text);
+  const lower = s.toLowerCase();
+  const allowed = allowedNamespaces(opts);
+  const formats: { sep: string; format: string; isOk: (ch: string) => boolean; decode: (t: string) => string }[] = [
+    { sep: ":", format: "urn:", isOk: (ch) => /[A-Za-z0-9:_-]/.test(ch), decode: (t) => t },
+    { sep: "__", format: "urn__", isOk: isTokenChar, decode: (t) => t.replace(/__/g, ":") },
+    { sep: "_", format: "urn_", isOk: isTokenChar, decode: (t) => t.replace(/_/g, ":") }
+  ];
+  for (const f of formats) {
+    const start = tokenStart(lower, allowed, f.sep);
+    if (start < 0) continue;
+    const p = takePrefix(s.slice(start), f.isOk);
+    const urn = p ? normalizeUrnCandidate(f.decode(p.token).replace(/:+$/, ""), opts) : null;
+    if (urn) return { urn, format: f.format };
+  }
+  return null;
+}
+
+function decodeUrl(url: string): string {
+  try {
+    return decodeURIComponent(url.replace(/\+/g, " "));
+  } catch {
+    return url;
   }
+}
+
+export type DownloadUrnInput = {
+  filename?: string | null;
+  finalUrl?: string | null;
+  url?: string | null;
+  referrer?: string | null;
+  title?: string | null; // the session tab's title
+};
 
-  // 3) Single-underscore legacy: urn_feat_a_b -> urn:feat:a:b
-  const suIdx = bn.toLowerCase().indexOf("urn_feat_");
-  const suIdx2 = bn.toLowerCase().indexOf("urn_test_");
-  const suStart = suIdx >= 0 ? suIdx : (suIdx2 >= 0 ? suIdx2 : -1);
-  if (suStart >= 0) {
-    const sub = bn.slice(suStart);
-    const p = takePrefix(sub, isTokenChar);
-    if (p && SUFFIX_RE.test(p.rest)) {
-      const decoded = p.token
-        .replace(/^urn_feat_/, "urn:feat:")
-        .replace(/^urn_test_/, "urn:test:")
-        .replace(/_/g, ":");
-      const urn = normalizeUrnCandidate(decoded);
-      if (urn) return { urn, source: "filename:urn_" };
+// The first enabled source that yields a URN. urnSource is "<source>:<format>", e.g.
+// "filename:urn__", "finalUrl:urn:" or "title:urn_"; anything not from the filename is inferred.
+export function extractUrnFromDownload(input: DownloadUrnInput, opts: UrnOpts = {}): UrnExtract {
+  for (const key of URN_SOURCES) {
+    if (opts.sources ? !opts.sources[key] : key !== "filename") continue;
+    if (key === "filename") {
+      const r = extractUrnFromFilename(input.filename, opts);
+      if (r.urn) return r;
+      continue;
     }
+    const v = input[key];
+    const hit = v ? extractUrnFromText(key === "title" ? v : decodeUrl(v), opts) : null;
+    if (hit) return { urn: hit.urn, source: `${key}:${hit.format}` };
   }
+  return { urn: null, source: null };
+}
 
-  // 4) Raw canonical in filename (may survive on mac/linux): urn:feat:...
-  const rawIdx = bn.toLowerCase().indexOf("urn:feat:");
-  const rawIdx2 = bn.toLowerCase().indexOf("urn:test:");
-  const rawStart = rawIdx >= 0 ? rawIdx : (rawIdx2 >= 0 ? rawIdx2 : -1);
-  if (rawStart >= 0) {
-    const sub = bn.slice(rawStart);
-    const p = takePrefix(sub, isRawUrnChar);
-    if (p && SUFFIX_RE.test(p.rest)) {
-      const urn = normalizeUrnCandidate(p.token);
-      if (urn) return { urn, source: "filename:urn:" };
+export function isInferredUrnSource(source: string | null | undefined): boolean {
+  return !!source && !source.startsWith("filename:");
+}
+
+export type FilenameDiagnosis = UrnExtract & {
+  attempts: UrnAttempt[];    // every built-in format, then every rule, in the order tried
+  suggestion: string | null; // a filename that would be accepted, when there is no URN
+};
+
+// A filename the urn__ format accepts, made from the first token found: segments are lower-cased
+// and whatever a segment cannot contain becomes "-". null when there is no token or extension to
+// start from, or the namespace is not enabled.
+function suggestFilename(bn: string, opts: UrnOpts): string | null {
+  const extM = /(\.[A-Za-z][A-Za-z0-9_-]{0,15}){1,3}$/.exec(bn);
+  if (!extM) return null;
+  const stem = bn.slice(0, extM.index).replace(/\s*\(\d+\)\s*$/, "");
+  const lower = stem.toLowerCase();
+  for (const f of FILENAME_FORMATS) {
+    let start = f.start(lower, allowedNamespaces(opts));
+    if (start < 0) start = f.start(lower, null);
+    if (start < 0) continue;
+    const m = /^urn:([^:]+):(.*)$/s.exec(f.decode(stem.slice(start)).toLowerCase());
+    if (!m) continue;
+    const segs = m[2]
+      .split(/[:/]+/g)
+      .map((seg) => seg.replace(/[^a-z0-9_-]+/g, "-").replace(/^[-_]+|[-_]+$/g, ""))
+      .filter(Boolean);
+    if (segs.length === 0) continue;
+    const name = `urn__${m[1]}__${segs.join("__")}${extM[0]}`;
+    return extractUrnFromFilename(name, opts).urn ? name : null;
+  }
+  return null;
+}
+
+// extractUrnFromFilename, explained: what each format and rule found and why it was rejected.
+export function diagnoseFilename(filename: string | null | undefined, opts: UrnOpts = {}): FilenameDiagnosis {
+  const bn = baseName(String(filename || ""));
+  const lower = bn.toLowerCase();
+  const attempts = FILENAME_FORMATS.map((f) => attemptFormat(bn, lower, f, opts, true));
+  for (const t of traceUrnRules(bn, opts)) {
+    const format = `filename:rule:${t.rule}`;
+    if (t.error) attempts.push({ format, token: null, urn: null, failure: "rule-pattern", detail: `pattern does not compile: ${t.error}` });
+    else if (!t.matched) attempts.push({ format, token: null, urn: null, failure: "rule-no-match", detail: "pattern does not match" });
+    else {
+      const c = checkUrnCandidate(t.expanded || "", opts);
+      attempts.push({ format, token: t.expanded, urn: c.urn, failure: c.failure, detail: c.detail });
     }
   }
+  const hit = extractUrnFromFilename(filename, opts);
+  return { ...hit, attempts, suggestion: hit.urn || !bn ? null : suggestFilename(bn, opts) };
+}
 
-  return { urn: null, source: null };
+export type UrnEncoding = {
+  urn: string | null;      // the normalized URN
+  token: string | null;    // urn__feat__a__b
+  filename: string | null; // token + extension, when one was given
+  error: string | null;
+};
+
+const EXTENSION_RE = /^[A-Za-z][A-Za-z0-9_-]{0,15}(\.[A-Za-z][A-Za-z0-9_-]{0,15}){0,2}$/;
+
+// The urn__ filename token for a logical URN (>encode): urn:feat:a:b + zip -> urn__feat__a__b.zip.
+// The token is checked to read back as the same URN.
+export function encodeUrnFilename(input: string, ext: string | null = null, opts: UrnOpts = {}): UrnEncoding {
+  const c = checkUrnCandidate(input, opts);
+  if (!c.urn) return { urn: null, token: null, filename: null, error: c.detail };
+  const token = c.urn.replace(/:/g, "__");
+  const e = String(ext || "").replace(/^\.+/, "");
+  if (e && !EXTENSION_RE.test(e)) {
+    return { urn: c.urn, token: null, filename: null, error: `"${e}" is not an extension such as zip or tar.gz` };
+  }
+  if (extractUrnFromFilename(`${token}.${e || "zip"}`, opts).urn !== c.urn) {
+    const seg = c.urn.split(":").slice(2).find((s) => s.includes("__") || s.endsWith("_")) || "";
+    return { urn: c.urn, token: null, filename: null, error: `segment "${seg}" cannot be written as a urn__ token ("__" or a trailing "_" would read as ":")` };
+  }
+  return { urn: c.urn, token, filename: e ? `${token}.${e}` : null, error: null };
 }
 
+// Splits a stored URN. Any well-formed namespace is accepted, configured or not.
 export function urnToSegments(urn: string): { root: string; segments: string[] } | null {
-  const u = normalizeUrnCandidate(urn);
+  const u = normalizeUrnCandidate(urn, { namespaces: null });
   if (!u) return null;
   const parts = u.split(":");
   const root = `${parts[0]}:${parts[1]}`;
@@ -0,0 +1,21 @@
+// Offscreen document: turns backup/archive text from the service worker into blob URLs that
+// chrome.downloads can fetch (service workers cannot create them).
+
+chrome.runtime.onMessage.addListener((msg: any, _sender: any, sendResponse: (v?: any) => void) => {
+  if (!msg || typeof msg.type !== "string") return;
+
+  if (msg.type === "OFFSCREEN_BLOB_URL" && typeof msg.text === "string") {
+    try {
+      const blob = new Blob([msg.text], { type: typeof msg.mime === "string" ? msg.mime : "application/octet-stream" });
+      sendResponse({ ok: true, url: URL.createObjectURL(blob) });
+    } catch (e) {
+      sendResponse({ ok: false, error: String(e) });
+    }
+    return;
+  }
+
+  if (msg.type === "OFFSCREEN_REVOKE_URL" && typeof msg.url === "string") {
+    URL.revokeObjectURL(msg.url);
+    sendResponse({ ok: true });
+  }
+});
@@ -0,0 +1,283 @@
+import { loadSettings, saveSettings, type BackupSchedule, type UrnNamespace } from "./lib/settings.js";
+import { type RetentionPolicy } from "./lib/retention.js";
+import { extractUrnFromFilename, traceUrnRules, urnRuleError, type UrnRule, type UrnSourceKey } from "./lib/urn.js";
+import { buildNamingContract, loadNamingTemplates, namingTemplateFor, saveNamingTemplate, type NamingLang, type NamingTemplates } from "./lib/naming.js";
+import { formatLocal } from "./lib/util.js";
+
+function $(id: string): HTMLElement {
+  const el = document.getElementById(id);
+  if (!el) throw new Error(`missing #${id}`);
+  return el;
+}
+
+const nsList = $("nsList") as HTMLTextAreaElement;
+const nsStatus = $("nsStatus");
+
+const sourceBoxes: Record<UrnSourceKey, HTMLInputElement> = {
+  filename: $("srcFilename") as HTMLInputElement,
+  finalUrl: $("srcFinalUrl") as HTMLInputElement,
+  url: $("srcUrl") as HTMLInputElement,
+  referrer: $("srcReferrer") as HTMLInputElement,
+  title: $("srcTitle") as HTMLInputElement
+};
+const srcStatus = $("srcStatus");
+
+const ruleList = $("ruleList") as HTMLTextAreaElement;
+const ruleSamples = $("ruleSamples") as HTMLTextAreaElement;
+const ruleTest = $("ruleTest");
+const ruleStatus = $("ruleStatus");
+
+const namingLang = $("namingLang") as HTMLSelectElement;
+const namingReset = $("namingReset") as HTMLButtonElement;
+const namingTemplate = $("namingTemplate") as HTMLTextAreaElement;
+const namingPreview = $("namingPreview");
+const namingStatus = $("namingStatus");
+
+const bkEnabled = $("bkEnabled") as HTMLInputElement;
+const bkEvery = $("bkEvery") as HTMLInputElement;
+const bkUnit = $("bkUnit") as HTMLSelectElement;
+const bkFolder = $("bkFolder") as HTMLInputElement;
+const bkKeep = $("bkKeep") as HTMLInputElement;
+const bkStatus = $("bkStatus");
+
+const rtEnabled = $("rtEnabled") as HTMLInputElement;
+const rtMaxAge = $("rtMaxAge") as HTMLInputElement;
+const rtMaxRoot = $("rtMaxRoot") as HTMLInputElement;
+const rtKeepLeaf = $("rtKeepLeaf") as HTMLInputElement;
+const rtSubtree = $("rtSubtree") as HTMLTextAreaElement;
+const rtStatus = $("rtStatus");
+
+// Sync storage can refuse a write (e.g. over quota); say so next to the box instead of dropping it.
+function showSaveError(status: HTMLElement, e: unknown): void {
+  status.textContent = `! 保存できませんでした: ${e instanceof Error ? e.message : String(e)}`;
+}
+
+// Namespaces as last saved; the rule tester checks results against them.
+let namespaces: string[] = [];
+
+function fillNamespaces(list: UrnNamespace[]): void {
+  namespaces = list.map((n) => n.name);
+  nsList.value = list.map((n) => `${n.name} ${n.color}`).join("\n");
+}
+
+async function saveNamespaces(): Promise<void> {
+  const lines = nsList.value.split(/\n/g).map((line) => line.trim()).filter(Boolean);
+  const typed = lines.map((line) => {
+    const [name = "", color = ""] = line.split(/\s+/g);
+    return { name, color };
+  });
+  const next = await saveSettings({ namespaces: typed });
+  // Lines that did not survive normalization (invalid name, duplicate) are reported, not kept.
+  const kept = new Set(next.namespaces.map((n) => n.name));
+  const dropped = typed.filter((n) => !kept.has(n.name.toLowerCase())).map((n) => n.name);
+  nsStatus.textContent = dropped.length > 0 ? `- 無視した名前空間: ${dropped.join(", ")}` : "";
+  fillNamespaces(next.namespaces);
+  renderRuleTest();
+}
+
+function fillSources(sources: Record<UrnSourceKey, boolean>): void {
+  for (const [k, box] of Object.entries(sourceBoxes)) box.checked = sources[k as UrnSourceKey];
+}
+
+async function saveSources(): Promise<void> {
+  const sources = Object.fromEntries(Object.entries(sourceBoxes).map(([k, box]) => [k, box.checked])) as Record<UrnSourceKey, boolean>;
+  const next = await saveSettings({ urnSources: sources });
+  srcStatus.textContent = "";
+  fillSources(next.urnSources);
+}
+
+// One rule per line: "name: pattern -> template" (the name is optional).
+function parseRuleLines(text: string): { rules: UrnRule[]; bad: string[] } {
+  const rules: UrnRule[] = [];
+  const bad: string[] = [];
+  for (const line of text.split(/\n/g).map((l) => l.trim()).filter(Boolean)) {
+    const idx = line.lastIndexOf(" -> ");
+    if (idx < 0) {
+      bad.push(line);
+      continue;
+    }
+    const head = line.slice(0, idx).trim();
+    const m = /^([A-Za-z0-9_-]{1,40}):\s+(.+)$/.exec(head);
+    rules.push({ name: m ? m[1] : "", pattern: m ? m[2] : head, template: line.slice(idx + 4).trim() });
+  }
+  return { rules, bad };
+}
+
+function fillRules(rules: UrnRule[]): void {
+  ruleList.value = rules.map((r) => `${r.name}: ${r.pattern} -> ${r.template}`).join("\n");
+}
+
+async function saveRules(): Promise<void> {
+  const { rules } = parseRuleLines(ruleList.value);
+  const next = await saveSettings({ urnRules: rules });
+  // Complete rules past the count or size limit are not stored; say how many were cut.
+  const cut = rules.filter((r) => r.pattern.trim() && r.template.trim()).length - next.urnRules.length;
+  ruleStatus.textContent = cut > 0 ? `- 上限（${next.urnRules.length}件まで保存）を超えたため ${cut} 件のルールを保存しませんでした` : "";
+  fillRules(next.urnRules);
+  renderRuleTest();
+}
+
+// Classifies the sample filenames with the rules as typed (saved or not).
+function renderRuleTest(): void {
+  const { rules, bad } = parseRuleLines(ruleList.value);
+  const lines: string[] = [];
+  for (const line of bad) lines.push(`! 読めない行（" -> " がありません）: ${line}`);
+  for (const r of rules) {
+    const err = urnRuleError(r);
+    if (err) lines.push(`! ${r.name || r.pattern}: 正規表現エラー ${err}`);
+  }
+  const opts = { namespaces, rules };
+  for (const name of ruleSamples.value.split(/\n/g).map((l) => l.trim()).filter(Boolean)) {
+    const got = extractUrnFromFilename(name, opts);
+    lines.push(got.urn ? `${name}\n  → ${got.urn} (${got.source})` : `${name}\n  → (URNなし)`);
+    if (got.source && !got.source.startsWith("filename:rule:")) continue;
+    // Rules that matched but did not give a usable URN.
+    for (const t of traceUrnRules(name, opts)) {
+      if (t.matched && !t.urn) lines.push(`  × ${t.rule || "(名前なし)"}: ${t.expanded} は有効なURNではありません（名前空間: ${namespaces.join(", ")}）`);
+      if (t.urn) break;
+    }
+  }
+  ruleTest.textContent = lines.join("\n");
+}
+
+let namingTemplates: NamingTemplates = {};
+
+function fillNamingTemplate(): void {
+  namingTemplate.value = namingTemplateFor(namingTemplates, namingLang.value as NamingLang);
+  renderNamingPreview();
+}
+
+async function saveNamingTemplateText(text: string | null): Promise<void> {
+  const lang = namingLang.value as NamingLang;
+  namingTemplates = await saveNamingTemplate(lang, text);
+  // Templates past the sync item size are cut; the textarea then shows what was kept.
+  const typed = (text ?? "").replace(/\r\n/g, "\n").trim();
+  namingStatus.textContent = typed && namingTemplates[lang] && namingTemplates[lang] !== typed ? "- 容量上限（8KB）を超えたため末尾を切り詰めて保存しました" : "";
+  fillNamingTemplate();
+}
+
+// The template as typed, filled for a sample container.
+function renderNamingPreview(): void {
+  const ctx = { prefix: "urn:feat:sessions", children: ["chrome", "firefox"], namespaces };
+  namingPreview.textContent = buildNamingContract(namingTemplate.value, ctx, namingLang.value as NamingLang);
+}
+
+function fillBackup(b: BackupSchedule): void {
+  bkEnabled.checked = b.enabled;
+  bkEvery.value = String(b.every);
+  bkUnit.value = b.unit;
+  bkFolder.value = b.folder;
+  bkKeep.value = String(b.keep);
+}
+
+async function saveBackup(): Promise<void> {
+  const next = await saveSettings({
+    backupSchedule: {
+      enabled: bkEnabled.checked,
+      every: Number(bkEvery.value),
+      unit: bkUnit.value === "hours" ? "hours" : "days",
+      folder: bkFolder.value,
+      keep: Number(bkKeep.value)
+    }
+  });
+  // Show the normalized values (e.g. cleaned-up folder path).
+  fillBackup(next.backupSchedule);
+}
+
+function fillRetention(r: RetentionPolicy): void {
+  rtEnabled.checked = r.enabled;
+  rtMaxAge.value = r.maxAgeDays === null ? "" : String(r.maxAgeDays);
+  rtMaxRoot.value = r.maxPerRoot === null ? "" : String(r.maxPerRoot);
+  rtKeepLeaf.value = String(r.keepLatestPerLeaf);
+  rtSubtree.value = r.subtreeLimits.map((l) => `${l.prefix}=${l.max}`).join("\n");
+}
+
+async function saveRetention(): Promise<void> {
+  const subtreeLimits = rtSubtree.value
+    .split(/\n/g)
+    .map((line) => line.trim())
+    .filter(Boolean)
+    .map((line) => {
+      const idx = line.lastIndexOf("=");
+      return { prefix: idx > 0 ? line.slice(0, idx).trim() : line, max: idx > 0 ? Number(line.slice(idx + 1)) : NaN };
+    });
+  const next = await saveSettings({
+    retention: {
+      enabled: rtEnabled.checked,
+      maxAgeDays: rtMaxAge.value ? Number(rtMaxAge.value) : null,
+      maxPerRoot: rtMaxRoot.value ? Number(rtMaxRoot.value) : null,
+      subtreeLimits,
+      keepLatestPerLeaf: Number(rtKeepLeaf.value)
+    }
+  });
+  fillRetention(next.retention);
+}
+
+async function renderRetentionStatus(): Promise<void> {
+  const got = await new Promise<any>((resolve) => chrome.storage.local.get(["retentionLog"], resolve));
+  const log = (got.retentionLog as any[]) || [];
+  if (log.length === 0) {
+    rtStatus.textContent = "- まだアーカイブはありません";
+    return;
+  }
+  rtStatus.textContent = log.slice(-5).reverse().map((r) => `- ${formatLocal(r.at)} ${r.archived}件 → ${r.filename}`).join("\n");
+}
+
+async function renderBackupStatus(): Promise<void> {
+  const got = await new Promise<any>((resolve) => chrome.storage.local.get(["backupProof", "backupFailure"], resolve));
+  const proof = got.backupProof;
+  const failure = got.backupFailure;
+  const lines: string[] = [];
+  if (failure) lines.push(`! バックアップ失敗: ${formatLocal(failure.at)} (${failure.trigger}) ${failure.error}`);
+  if (!proof) {
+    lines.push("- まだバックアップはありません");
+  } else {
+    lines.push(`- 最終バックアップ: ${formatLocal(proof.createdAt)} (${proof.trigger || "manual"}) ${proof.filename || ""}`, `- hash: ${proof.hash}`);
+    if (proof.checkedAt) lines.push(`- 最終チェック（変更なし）: ${formatLocal(proof.checkedAt)}`);
+  }
+  bkStatus.textContent = lines.join("\n");
+}
+
+nsList.addEventListener("change", () => { saveNamespaces().catch((e) => showSaveError(nsStatus, e)); });
+for (const box of Object.values(sourceBoxes)) {
+  box.addEventListener("change", () => { saveSources().catch((e) => showSaveError(srcStatus, e)); });
+}
+ruleList.addEventListener("change", () => { saveRules().catch((e) => showSaveError(ruleStatus, e)); });
+ruleList.addEventListener("input", renderRuleTest);
+ruleSamples.addEventListener("input", renderRuleTest);
+
+namingLang.addEventListener("change", fillNamingTemplate);
+namingTemplate.addEventListener("change", () => { saveNamingTemplateText(namingTemplate.value).catch((e) => showSaveError(namingStatus, e)); });
+namingTemplate.addEventListener("input", renderNamingPreview);
+namingReset.addEventListener("click", () => { saveNamingTemplateText(null).catch((e) => showSaveError(namingStatus, e)); });
+
+for (const el of [bkEnabled, bkEvery, bkUnit, bkFolder, bkKeep]) {
+  el.addEventListener("change", () => { saveBackup().catch((e) => showSaveError(bkStatus, e)); });
+}
+
+for (const el of [rtEnabled, rtMaxAge, rtMaxRoot, rtKeepLeaf, rtSubtree]) {
+  el.addEventListener("change", () => { saveRetention().catch((e) => showSaveError(rtStatus, e)); });
+}
+
+chrome.storage.onChanged.addListener((_changes: any, area: string) => {
+  if (area !== "local") return;
+  void renderBackupStatus();
+  void renderRetentionStatus();
+});
+
+async function init(): Promise<void> {
+  const settings = await loadSettings();
+  fillNamespaces(settings.namespaces);
+  fillSources(settings.urnSources);
+  fillRules(settings.urnRules);
+  ruleSamples.value = ["PROJ-142_spec.pdf", "feature-login-v3.zip", "urn__feat__sessions__chrome.zip"].join("\n");
+  renderRuleTest();
+  namingTemplates = await loadNamingTemplates();
+  fillNamingTemplate();
+  fillBackup(settings.backupSchedule);
+  fillRetention(settings.retention);
+  await renderBackupStatus();
+  await renderRetentionStatus();
+}
+
+void init();
@@ -1,25 +1,35 @@
-import { parseQuery, commitMatches, sessionMatchesWithoutCommits, type CommitRec, type SessionRec } from "./lib/query.js";
+import { parseQuery, commitMatches, sessionMatchesWithoutCommits, type CommitRec, type MatchOptions, type QueryKey, type SessionRec } from "./lib/query.js";
+import { markMatches, needlesFor, queryNeedles, scoreCommit, scoreSession, type Needle } from "./lib/rank.js";
+import { applySuggestion, suggestAt, type Suggestion, type SuggestResult } from "./lib/suggest.js";
+import { isBrokenCommit, lifecycleLabels } from "./lib/lifecycle.js";
 import { formatLocal, localDateKey } from "./lib/util.js";
-import { getSync, setSync } from "./lib/storage.js";
+import { DEFAULT_SETTINGS, loadSettings, namespaceNames, saveSettings, urnOptsOf, type SyncSettings } from "./lib/settings.js";
+import { diagnoseFilename, encodeUrnFilename, type FilenameDiagnosis } from "./lib/urn.js";
+import { getCommits, getCommitsBySession, notifyCommitsChanged, replaceAllCommits, scanCommits, LOCAL_COMMITS_REV, type CommitsRev } from "./lib/commitStore.js";
+import { createSearchIndex, indexCommits, indexedCommits, removeCommits, searchCommits, sessionCounts } from "./lib/searchIndex.js";
 import { buildUrnContainerTree, matchesUrnPrefix, prefixToBreadcrumb, ancestorsInclusive, type TreeModel, type TreeNode } from "./lib/tree.js";
+import { parseBackfillRange } from "./lib/backfill.js";
+import { clearSearchHistory, loadSearchHistory, recordSearch, saveSearchHistory, setPinned, type SearchHistoryEntry } from "./lib/searchHistory.js";
+import { buildSavedRoot, deleteSavedSearch, isSavedNodeId, loadSavedSearches, putSavedSearch, savedSearchId, SYNC_SAVED_SEARCHES, type SavedSearch } from "./lib/savedSearches.js";
+import { buildNamingContract, isNamingLang, loadNamingTemplates, namingContextFor, namingPrefixOf, namingTemplateFor, type NamingLang, type NamingTemplates } from "./lib/naming.js";
+import { backupStateHash, decryptBackup, isEncryptedBackupText, parseBackupPayload, verifyBackupHash, planRestore, formatRestoreCounts, type BackupFailure, type BackupProof, type RestoreCounts } from "./lib/backup.js";
+import { CLEARED_LOCAL_KEYS } from "./lib/schema.js";
 
 const LOCAL_SESSIONS = "sessions";
-const LOCAL_COMMITS = "commits";
 const LOCAL_UI = "ui";
 const LOCAL_BACKUP_PROOF = "backupProof";
-
-const SYNC_SETTINGS = "settings";
-
-type SyncSettings = {
-  urnOnly: boolean;
-};
+const LOCAL_BACKUP_FAILURE = "backupFailure";
+const LOCAL_RETENTION_LOG = "retentionLog";
 
 type LocalState = {
   sessions: Record<string, SessionRec>;
-  commits: CommitRec[];
   uiQuery: string;
-  backupProof: { createdAt: string; hash: string } | null;
+  backupProof: BackupProof | null;
+  backupFailure: BackupFailure | null;
+  lastTrim: { at: string; archived: number; filename: string } | null;
   settings: SyncSettings;
+  savedSearches: SavedSearch[];
+  searchHistory: SearchHistoryEntry[];
 };
 
 function $(id: string): HTMLElement {
@@ -29,7 +39,10 @@ function $(id: string): HTMLElement {
 }
 
 const input = $("q") as HTMLInputElement;
+const qErrorHost = $("qError");
+const suggestHost = $("suggest");
 const urnOnlyBox = $("urnOnly") as HTMLInputElement;
+const rankedBox = $("ranked") as HTMLInputElement;
 
 const crumbsHost = $("crumbs");
 const treeMeta = $("treeMeta");
@@ -45,10 +58,13 @@ const commitsHost = $("commits");
 
 let state: LocalState = {
   sessions: {},
-  commits: [],
   uiQuery: "",
   backupProof: null,
-  settings: { urnOnly: true }
+  backupFailure: null,
+  lastTrim: null,
+  settings: DEFAULT_SETTINGS,
+  savedSearches: [],
+  searchHistory: []
 };
 
 let selectedPrefix: string | null = null;
@@ -59,6 +75,27 @@ let collapsedInitialized = false;
 
 let showCheat = false;
 
+// The last search typed before switching to a >command (what >save and >pin use), and how
+// many commits it matched.
+let lastSearch = "";
+let lastHits = 0;
+
+// Position in state.searchHistory while recalling with Up/Down; -1 = not recalling.
+let historyCursor = -1;
+
+// "Saved" tree root; its counts are only recomputed when commits, sessions or the list change.
+let savedRoot: TreeNode | null | undefined;
+
+// Set by render() for the current query: what to highlight, and whether ranked (fuzzy) mode is on.
+let needles: Needle[] = [];
+let matchOpts: MatchOptions = {};
+
+// Autocomplete under the search box (and >naming). URN segments come from every stored commit,
+// not the filtered tree, so a half-typed term does not hide its own completions.
+let suggestModel: TreeModel | null = null;
+let suggestion: SuggestResult | null = null;
+let suggestIndex = 0;
+
 function stableSessionsArray(sessions: Record<string, SessionRec>): SessionRec[] {
   return Object.values(sessions).sort((a, b) => {
     const ta = a.lastDownloadAt || a.lastSeenAt || a.createdAt;
@@ -67,6 +104,13 @@ function stableSessionsArray(sessions: Record<string, SessionRec>): SessionRec[]
   });
 }
 
+// Escaped text with the query's matches wrapped in <mark>.
+function markHtml(text: string, ...keys: QueryKey[]): string {
+  return markMatches(text, needlesFor(needles, ...keys), matchOpts.fuzzy === true)
+    .map((p) => (p.hit ? `<mark>${escapeHtml(p.text)}</mark>` : escapeHtml(p.text)))
+    .join("");
+}
+
 function escapeHtml(s: string): string {
   return s.replace(/[&<>\"']/g, (c) => ({ "&":"&amp;","<":"&lt;",">":"&gt;",'"':"&quot;","'":"&#39;" }[c] || c));
 }
@@ -95,58 +139,6 @@ function shortDate(tsIso: string | null | undefined): string {
   return k || "";
 }
 
-function buildNamingContractText(): string {
-  // NOTE: Avoid code blocks here; users paste into chat as a short “contract”.
-  return [
-    "【ファイル命名規約（この拡張がURNツリー化するための契約）】",
-    "",
-    "前提: この拡張は“ダウンロードファイル名”からURNトークンを抽出してツリー化します。",
-    "",
-    "必須ルール:",
-    "1) ファイル名にURNトークンを必ず含めてください（推奨: 先頭）。",
-    "2) 拡張子は必須です（例: .zip / .pdf / .html / .tar.gz）。",
-    "   - 多段拡張子も許可します（例: .tar.gz / .jsonl.gz / .zip.crdownload）。",
-    "3) Windows等でコロン(:)が使えないため、URNは安全トークン形式で埋め込みます。",
-    "4) トークン形式:",
-    "   - Feature: urn__feat__<seg1>__<seg2>__...__<leaf>",
-    "   - Test:    urn__test__<seg1>__<seg2>__...__<leaf>",
-    "   ※ ‘__’ がURNの区切り（:）相当です。",
-    "5) segは [a-z0-9_-] のみ（ドット(.) / スペース / 括弧 / 日本語 / 絵文字は不可）。",
-    "   - ブラウザが重複ダウンロードで付ける ' (1)' / '(1)' は許可（URNトークンの外側のサフィックスとして扱います）。",
-    "   - バージョン表記は v1-2-3 / v1_2_3 のように '.' を使わないでください（例: v0.1.2 は不可）。",
-    "6) トークンが無い/無効なファイルはURNツリーに入りません（urn-only ON の場合は記録されません）。",
-    "",
-    "例）論理URN: urn:feat:sessions:chrome:download-commits",
-    "    ファイル名例: urn__feat__sessions__chrome__download-commits.zip"
-  ].join("\n");
-}
-
-function buildBackupPayload(): { schema: string; exportedAt: string; sessions: Record<string, SessionRec>; commits: CommitRec[] } {
-  // Keep deterministic order for readability.
-  const sessionsArr = stableSessionsArray(state.sessions);
-  const sessions: Record<string, SessionRec> = {};
-  for (const s of sessionsArr) sessions[s.id] = s;
-
-  // newest last
-  const commits = [...state.commits].sort((a, b) => String(a.capturedAt).localeCompare(String(b.capturedAt)));
-
-  return {
-    schema: "session-download-commits:backup:v1",
-    exportedAt: new Date().toISOString(),
-    sessions,
-    commits
-  };
-}
-
-async function sha256Hex(inputStr: string): Promise<string> {
-  const enc = new TextEncoder();
-  const buf = await crypto.subtle.digest("SHA-256", enc.encode(inputStr));
-  const bytes = new Uint8Array(buf);
-  let out = "";
-  for (const b of bytes) out += b.toString(16).padStart(2, "0");
-  return out;
-}
-
 async function copyToClipboard(text: string): Promise<boolean> {
   try {
     await navigator.clipboard.writeText(text);
@@ -173,7 +165,67 @@ async function copyToClipboard(text: string): Promise<boolean> {
   }
 }
 
-async function runCommand(cmd: string): Promise<void> {
+function pickFileText(accept: string): Promise<string | null> {
+  return new Promise((resolve) => {
+    const el = document.createElement("input");
+    el.type = "file";
+    el.accept = accept;
+    el.addEventListener("change", () => {
+      const f = el.files && el.files[0];
+      if (!f) return resolve(null);
+      f.text().then(resolve, () => resolve(null));
+    });
+    el.addEventListener("cancel", () => resolve(null));
+    el.click();
+  });
+}
+
+async function runRestore(args: string[]): Promise<void> {
+  const opts = args.map((a) => a.toLowerCase());
+  const mode = opts.includes("replace") ? "replace" : "merge";
+
+  const text = opts.includes("paste")
+    ? window.prompt("バックアップJSON（backup:v1 / v1-enc）を貼り付けてください")
+    : await pickFileText(".json,application/json");
+  if (!text) return;
+
+  let plainText = text;
+  if (isEncryptedBackupText(text)) {
+    const passphrase = window.prompt("暗号化バックアップのパスフレーズを入力してください");
+    if (!passphrase) return;
+    const dec = await decryptBackup(text, passphrase);
+    if (!dec.text) {
+      alert(`復号できませんでした: ${dec.error}`);
+      return;
+    }
+    plainText = dec.text;
+  }
+
+  const parsed = parseBackupPayload(plainText);
+  if (!parsed.payload) {
+    alert(`バックアップを読み込めませんでした: ${parsed.error}`);
+    return;
+  }
+  if (!(await verifyBackupHash(parsed.payload))) {
+    alert("バックアップのhashが一致しません（破損または編集されています）。");
+    return;
+  }
+
+  const plan = planRestore({ sessions: state.sessions, commits: indexedCommits(searchIndex) }, parsed.payload, mode);
+  const ok = window.confirm(`${formatRestoreCounts(plan)}\n\nこの内容で復元しますか？`);
+  if (!ok) return;
+
+  const res = await chrome.runtime.sendMessage({ type: "RESTORE_BACKUP", json: plainText, mode });
+  if (!res || !res.ok) {
+    alert(`復元に失敗しました: ${res?.error || "unknown error"}`);
+    return;
+  }
+  const fmt = (c: RestoreCounts) => `+${c.added} ~${c.updated} =${c.skipped}` + (mode === "replace" ? ` -${c.removed}` : "");
+  const history = typeof res.history === "number" ? `\n検索履歴: ${res.history}件をマージ` : "";
+  alert(`復元しました（${mode}）\nsessions: ${fmt(res.sessionCounts)}\ncommits: ${fmt(res.commitCounts)}${history}`);
+}
+
+async function runCommand(cmd: string, args: string[]): Promise<void> {
   const c = cmd.toLowerCase();
   if (!c) return;
 
@@ -184,32 +236,136 @@ async function runCommand(cmd: string): Promise<void> {
   }
 
   if (c === "backup") {
-    const payload = buildBackupPayload();
-    const json = JSON.stringify(payload, null, 2);
-    const hash = (await sha256Hex(json)).slice(0, 16);
-    const ok = await copyToClipboard(json);
-    if (!ok) {
-      alert("Clipboardにコピーできませんでした。権限/ポリシーを確認してください。");
+    let passphrase: string | undefined;
+    if (args.some((a) => a.toLowerCase() === "enc")) {
+      const p1 = window.prompt("バックアップ暗号化のパスフレーズを入力してください");
+      if (!p1) return;
+      const p2 = window.prompt("確認のため、もう一度入力してください");
+      if (p1 !== p2) {
+        alert("パスフレーズが一致しません。");
+        return;
+      }
+      passphrase = p1;
+    }
+    const history = args.some((a) => a.toLowerCase() === "history");
+    const res = await chrome.runtime.sendMessage({ type: "WRITE_BACKUP", passphrase, history });
+    if (!res || !res.ok) {
+      alert(`バックアップファイルを書き出せませんでした: ${res?.error || "unknown error"}`);
       return;
     }
-    await chrome.storage.local.set({ [LOCAL_BACKUP_PROOF]: { createdAt: new Date().toISOString(), hash } });
-    state.backupProof = { createdAt: new Date().toISOString(), hash };
+    state.backupProof = res.proof as BackupProof;
+    alert(`バックアップを保存しました（ダウンロードフォルダ）${history ? "（検索履歴を含む）" : ""}\n${res.proof.filename}\nhash: ${res.proof.hash}`);
+    return;
+  }
 
-    const subject = encodeURIComponent(`SessionDL backup ${new Date().toISOString()}`);
-    const url = `https://mail.google.com/mail/?view=cm&fs=1&su=${subject}`;
-    chrome.tabs.create({ url });
-    alert("バックアップJSONをClipboardにコピーしました。Gmailに貼り付けて保存してください。");
+  if (c === "restore") {
+    await runRestore(args);
+    return;
+  }
+
+  if (c === "backfill") {
+    const parsed = parseBackfillRange(args);
+    if (!parsed.range) {
+      alert(parsed.error);
+      return;
+    }
+    const { from, to } = parsed.range;
+    const preview = await chrome.runtime.sendMessage({ type: "BACKFILL_PREVIEW", from, to });
+    if (!preview || !preview.ok) {
+      alert(`ダウンロード履歴を読み込めませんでした: ${preview?.error || "unknown error"}`);
+      return;
+    }
+    const label = `${from || "最初"} 〜 ${to || "今日"}`;
+    if (preview.count === 0) {
+      alert(`Backfill（${label}）: 追加対象はありません。\n\n${preview.preview}`);
+      return;
+    }
+    if (!window.confirm(`Backfill（${label}）\n${preview.preview}\n\nこの内容で追加しますか？`)) return;
+    const res = await chrome.runtime.sendMessage({ type: "BACKFILL_APPLY", from, to });
+    if (!res || !res.ok) {
+      alert(`Backfillに失敗しました: ${res?.error || "unknown error"}`);
+      return;
+    }
+    alert(`Backfill: ${res.added}件を追加しました。`);
+    return;
+  }
+
+  if (c === "trim") {
+    const res = await chrome.runtime.sendMessage({ type: "RUN_RETENTION" });
+    if (!res || !res.ok) {
+      alert(`Retentionの実行に失敗しました: ${res?.error || "unknown error"}`);
+      return;
+    }
+    if (!res.rec) {
+      alert(state.settings.retention.enabled ? "Retention: アーカイブ対象はありません。" : "Retentionは無効です（オプションで設定してください）。");
+      return;
+    }
+    alert(`Retention: ${res.rec.archived}件をアーカイブしました\n${res.rec.filename}`);
+    return;
+  }
+
+  if (c === "migrate") {
+    const res = await chrome.runtime.sendMessage({ type: "MIGRATE_DRY_RUN" });
+    alert(res && res.ok ? `[dry-run] ${res.report}` : `migration check failed: ${res?.error || "unknown error"}`);
     return;
   }
 
   if (c === "naming" || c === "contract") {
-    const text = buildNamingContractText();
+    // >naming [ja|en] [prefix]; without a prefix, the selected container (if it is one).
+    const langArg = args.find((a) => isNamingLang(a.toLowerCase()));
+    const lang: NamingLang = langArg ? (langArg.toLowerCase() as NamingLang) : "ja";
+    const rest = args.filter((a) => a !== langArg);
+    let prefix: string | null = null;
+    if (rest.length > 0) {
+      prefix = namingPrefixOf(rest.join(""));
+      if (!prefix) {
+        alert(`URNプレフィックスとして解釈できません: ${rest.join(" ")}（例: >naming feat:sessions）`);
+        return;
+      }
+    } else if (selectedPrefix && selectedPrefix !== "__unknown__" && !isSavedNodeId(selectedPrefix)) {
+      prefix = selectedPrefix;
+    }
+    let templates: NamingTemplates = {};
+    try {
+      templates = await loadNamingTemplates();
+    } catch {
+      // built-in templates
+    }
+    const ctx = namingContextFor(storedTreeModel(), prefix, namespaceNames(state.settings));
+    const text = buildNamingContract(namingTemplateFor(templates, lang), ctx, lang);
     const ok = await copyToClipboard(text);
     if (!ok) {
       alert("Clipboardにコピーできませんでした。権限/ポリシーを確認してください。");
       return;
     }
-    alert("命名規約（URNトークン）をClipboardにコピーしました。セッションに貼り付けて使ってください。");
+    alert(`命名規約（URNトークン${prefix ? `, ${prefix}` : ""}）をClipboardにコピーしました。セッションに貼り付けて使ってください。`);
+    return;
+  }
+
+  if (c === "encode") {
+    const e = encodeUrnFilename(args[0] || "", args[1] || null, urnOptsOf(state.settings));
+    if (e.error || !e.token) {
+      alert(`使い方: >encode <論理URN> [拡張子]\n${e.error || ""}`);
+      return;
+    }
+    const text = e.filename || e.token;
+    if (!(await copyToClipboard(text))) {
+      alert("Clipboardにコピーできませんでした。権限/ポリシーを確認してください。");
+      return;
+    }
+    alert(`コピーしました: ${text}${e.filename ? "" : "\n（拡張子を付けて使ってください）"}`);
+    return;
+  }
+
+  if (c === "check") {
+    const d = diagnoseFilename(args.join(" "), urnOptsOf(state.settings));
+    if (!d.urn) {
+      const why = d.attempts.filter((a) => a.failure !== "not-found").map((a) => `- ${a.format}: ${a.detail}`);
+      alert(`URNなし\n${why.join("\n") || "- URNトークンが見つかりません"}${d.suggestion ? `\n候補: ${d.suggestion}` : ""}`);
+      return;
+    }
+    if (await copyToClipboard(d.urn)) alert(`${d.urn}（${d.source}）をコピーしました`);
+    else alert(`${d.urn}（${d.source}）`);
     return;
   }
 
@@ -219,14 +375,95 @@ async function runCommand(cmd: string): Promise<void> {
       alert("clearはブロックされています。先に >backup を実行してください。");
       return;
     }
-    await chrome.storage.local.remove([LOCAL_SESSIONS, LOCAL_COMMITS, "pending", LOCAL_UI, "fullReturn", LOCAL_BACKUP_PROOF]);
+    const currentHash = await backupStateHash(state.sessions, indexedCommits(searchIndex));
+    if (proof.hash !== currentHash) {
+      alert("clearはブロックされています。最後のバックアップ以降にデータが変わっています。もう一度 >backup を実行してください。");
+      return;
+    }
+    await chrome.storage.local.remove(CLEARED_LOCAL_KEYS);
+    await replaceAllCommits([]);
+    await notifyCommitsChanged(null);
     selectedPrefix = null;
     selectedSessionId = null;
+    await reloadCommits(null);
     await reload();
     render();
     return;
   }
 
+  if (c === "save") {
+    const name = args.join(" ");
+    if (!name) {
+      alert("使い方: >save <名前>（直前の検索条件を保存します）");
+      return;
+    }
+    const q = parseQuery(lastSearch);
+    if (!q.raw) {
+      alert("保存する検索条件がありません。先に検索してから >save <名前> を実行してください。");
+      return;
+    }
+    if (q.error) {
+      alert(`検索式エラーのため保存できません: ${q.error}`);
+      return;
+    }
+    try {
+      state.savedSearches = await putSavedSearch(name, q.raw);
+    } catch (e) {
+      alert(`検索を保存できませんでした: ${e instanceof Error ? e.message : String(e)}`);
+      return;
+    }
+    savedRoot = undefined;
+    input.value = q.raw;
+    await onQueryChange();
+    return;
+  }
+
+  if (c === "unsave") {
+    const name = args.join(" ");
+    let res: Awaited<ReturnType<typeof deleteSavedSearch>>;
+    try {
+      res = await deleteSavedSearch(name);
+    } catch (e) {
+      alert(`保存済みの検索を削除できませんでした: ${e instanceof Error ? e.message : String(e)}`);
+      return;
+    }
+    if (!res.removed) {
+      alert(`保存済みの検索「${name}」はありません。`);
+      return;
+    }
+    state.savedSearches = res.saved;
+    savedRoot = undefined;
+    input.value = lastSearch;
+    await onQueryChange();
+    return;
+  }
+
+  if (c === "history") {
+    if (args[0]?.toLowerCase() !== "clear") return;
+    const all = args[1]?.toLowerCase() === "all";
+    if (!window.confirm(all ? "検索履歴をすべて削除しますか？（ピン留めも含む）" : "ピン留め以外の検索履歴を削除しますか？")) return;
+    state.searchHistory = clearSearchHistory(state.searchHistory, !all);
+    await saveSearchHistory(state.searchHistory);
+    input.value = ">history";
+    await onQueryChange();
+    return;
+  }
+
+  if (c === "pin" || c === "unpin") {
+    const q = parseQuery(lastSearch);
+    if (!q.raw || q.error) {
+      alert("ピン留めする検索条件がありません。先に検索してから実行してください。");
+      return;
+    }
+    if (c === "pin" && !state.searchHistory.some((e) => e.query === q.raw)) {
+      state.searchHistory = recordSearch(state.searchHistory, q.raw, lastHits);
+    }
+    input.value = q.raw;
+    await pinSearch(q.raw, c === "pin");
+    await onQueryChange();
+    return;
+  }
+
   if (c === "close") {
     await closePanel();
     return;
@@ -251,22 +488,56 @@ async function closePanel(): Promise<void> {
   await chrome.runtime.sendMessage({ type: "CLOSE_PANEL", windowId });
 }
 
+// The search index is the panel's only copy of the commit store, patched from commitsRev
+// deltas. A full reload pages through the store into a fresh index and swaps it in, so a
+// render in between never sees half of it.
+const searchIndex = createSearchIndex();
+
+// Commits of the open sheet's session, read through the store's sessionId index. seq is the
+// commitsSeq they were read at; a newer one means they are shown until the re-read lands.
+let commitsSeq = 0;
+let sheetCommits: { sessionId: string; seq: number; commits: CommitRec[] } | null = null;
+let sheetLoading: string | null = null;
+
+async function reloadCommits(rev: CommitsRev | null): Promise<void> {
+  if (!rev || rev.full) {
+    const next = createSearchIndex();
+    await scanCommits((page) => indexCommits(next, page));
+    Object.assign(searchIndex, next);
+  } else {
+    const got = await getCommits(rev.ids);
+    const found = new Set(got.map((c) => c.id));
+    removeCommits(searchIndex, rev.ids.filter((id) => !found.has(id)));
+    indexCommits(searchIndex, got);
+  }
+  commitsSeq += 1;
+  suggestModel = null;
+  savedRoot = undefined;
+}
+
 async function reload(): Promise<void> {
-  const got = await new Promise<any>((resolve) => chrome.storage.local.get([LOCAL_SESSIONS, LOCAL_COMMITS, LOCAL_UI, LOCAL_BACKUP_PROOF], resolve));
+  const got = await new Promise<any>((resolve) => chrome.storage.local.get([LOCAL_SESSIONS, LOCAL_UI, LOCAL_BACKUP_PROOF, LOCAL_BACKUP_FAILURE, LOCAL_RETENTION_LOG], resolve));
   state.sessions = (got[LOCAL_SESSIONS] as Record<string, SessionRec>) || {};
-  state.commits = (got[LOCAL_COMMITS] as CommitRec[]) || [];
   state.uiQuery = String((got[LOCAL_UI] && (got[LOCAL_UI] as any).query) || "");
   state.backupProof = (got[LOCAL_BACKUP_PROOF] as any) || null;
+  state.backupFailure = (got[LOCAL_BACKUP_FAILURE] as any) || null;
+  const trims = (got[LOCAL_RETENTION_LOG] as any[]) || [];
+  state.lastTrim = trims.length ? trims[trims.length - 1] : null;
 
   try {
-    const gotSync = await getSync<{ [k: string]: unknown }>([SYNC_SETTINGS]);
-    const raw = (gotSync[SYNC_SETTINGS] as any) || {};
-    state.settings = { urnOnly: raw.urnOnly !== false };
+    state.settings = await loadSettings();
+  } catch {
+    state.settings = DEFAULT_SETTINGS;
+  }
+  try {
+    state.savedSearches = await loadSavedSearches();
   } catch {
-    state.settings = { urnOnly: true };
+    state.savedSearches = [];
   }
+  state.searchHistory = await loadSearchHistory();
 
   urnOnlyBox.checked = state.settings.urnOnly;
+  rankedBox.checked = state.settings.rankedSearch;
 
   if (document.activeElement !== input) input.value = state.uiQuery;
 }
@@ -329,7 +600,9 @@ function renderCrumbs(): void {
 function renderTree(model: TreeModel): void {
   treeHost.innerHTML = "";
 
-  if (model.roots.length === 0) {
+  if (savedRoot === undefined) savedRoot = buildSavedRoot(state.savedSearches, (q) => searchCommits(searchIndex, q, state.sessions));
+
+  if (model.roots.length === 0 && !savedRoot) {
     const div = document.createElement("div");
     div.className = "empty";
     div.textContent = "コンテナがありません（まだダウンロードがありません）";
@@ -338,13 +611,44 @@ function renderTree(model: TreeModel): void {
   }
 
   for (const r of model.roots) renderTreeNode(r);
+  if (savedRoot) renderTreeNode(savedRoot);
+}
+
+function savedSearchFor(id: string): SavedSearch | undefined {
+  return state.savedSearches.find((s) => savedSearchId(s.name) === id);
+}
+
+function applySavedSearch(id: string): void {
+  const s = savedSearchFor(id);
+  if (!s) return;
+  showCheat = false;
+  selectedPrefix = null;
+  selectedSessionId = null;
+  input.value = s.query;
+  void onQueryChange();
+}
+
+// Colour of the configured namespace a URN prefix lies in (urn:<ns>:...), if any.
+function namespaceColor(prefix: string): string | null {
+  const [head, ns] = prefix.split(":");
+  if (head !== "urn" || !ns) return null;
+  return state.settings.namespaces.find((n) => n.name === ns)?.color ?? null;
 }
 
 function renderTreeNode(n: TreeNode): void {
+  const saved = isSavedNodeId(n.id) ? savedSearchFor(n.id) : undefined;
+  // A saved search counts as selected while its query is the one in the box.
+  const selected = saved ? saved.query === input.value.trim() : selectedPrefix === n.prefix;
   const row = document.createElement("div");
-  row.className = "trow" + (selectedPrefix === n.prefix ? " selected" : "");
+  row.className = "trow" + (selected ? " selected" : "");
   row.dataset.node = n.prefix;
   row.style.marginLeft = `${n.depth * 10}px`;
+  const color = namespaceColor(n.prefix);
+  if (color) {
+    row.dataset.ns = n.prefix.split(":")[1];
+    row.style.setProperty("--ns", color);
+    if (n.depth === 0) row.classList.add("nsRoot");
+  }
 
   const twisty = document.createElement("button");
   twisty.className = "twisty";
@@ -364,14 +668,15 @@ function renderTreeNode(n: TreeNode): void {
 
   const label = document.createElement("div");
   label.className = "tlabel";
-  label.textContent = n.depth === 0 ? n.label : n.label;
-  label.title = n.prefix;
+  label.innerHTML = isSavedNodeId(n.id) ? escapeHtml(n.label) : markHtml(n.label, "urn");
+  label.title = saved ? saved.query : n.prefix;
 
   const chips = document.createElement("div");
   chips.className = "tchips";
   chips.innerHTML = `
     <span class="chip"><strong>S:${n.sessionCount}</strong></span>
     <span class="chip"><strong>C:${n.commitCount}</strong></span>
+    ${n.failedCount > 0 ? `<span class="chip warn" title="failed / erased / removed">!${n.failedCount}</span>` : ""}
     <span class="chip">Last:${escapeHtml(shortDate(n.lastAt))}</span>
   `;
 
@@ -380,6 +685,11 @@ function renderTreeNode(n: TreeNode): void {
   row.appendChild(chips);
 
   row.addEventListener("click", () => {
+    if (isSavedNodeId(n.id)) {
+      if (saved) applySavedSearch(n.id);
+      else twisty.click();
+      return;
+    }
     showCheat = false;
     selectedPrefix = (selectedPrefix === n.prefix) ? null : n.prefix;
     selectedSessionId = null;
@@ -393,22 +703,40 @@ function renderTreeNode(n: TreeNode): void {
   for (const c of n.children) renderTreeNode(c);
 }
 
-function countKnownUrnForSession(sessionId: string): number {
-  let n = 0;
-  for (const c of state.commits) {
-    if (c.sessionId !== sessionId) continue;
-    if (c.urn) n += 1;
-  }
-  return n;
+// What each format and rule made of a filename, and a filename that would work (see diagnoseFilename).
+function diagnosisRowsHtml(d: FilenameDiagnosis): string {
+  const tried = d.attempts.filter((a) => a.failure !== "not-found");
+  const rows = tried.length === 0
+    ? `<div class="diagRow">URNトークンが見つかりません（例: <span class="mono">urn__feat__area__name.zip</span>）</div>`
+    : tried.map((a) => `<div class="diagRow"><span class="kbd">${escapeHtml(a.format.replace(/^filename:/, ""))}</span> ${a.token ? `<span class="mono">${escapeHtml(a.token)}</span> — ` : ""}${escapeHtml(a.detail)}</div>`).join("");
+  const fix = d.suggestion ? `<div class="diagRow">候補: <span class="mono">${escapeHtml(d.suggestion)}</span></div>` : "";
+  return rows + fix;
 }
 
-function countUnknownUrnForSession(sessionId: string): number {
-  let n = 0;
-  for (const c of state.commits) {
-    if (c.sessionId !== sessionId) continue;
-    if (!c.urn) n += 1;
-  }
-  return n;
+// Why an unknown commit's filename gave no URN.
+function diagnosisHtml(c: CommitRec): string {
+  if (c.urn || !c.filename) return "";
+  const d = diagnoseFilename(c.filename, urnOptsOf(state.settings));
+  return `<details class="diag"><summary>URNなしの理由</summary>${diagnosisRowsHtml(d)}</details>`;
+}
+
+// >encode <urn> [ext]: the filename token, or why the URN is not valid.
+function encodeResultHtml(urn: string, ext: string | null): string {
+  if (!urn) return `<div class="diagRow">論理URNを入力してください（例: <span class="mono">urn:feat:sessions:chrome zip</span>）</div>`;
+  const e = encodeUrnFilename(urn, ext, urnOptsOf(state.settings));
+  if (e.error) return `<div class="diagRow">無効: ${escapeHtml(e.error)}</div>`;
+  return `
+    <div class="diagRow">URN: <span class="mono">${escapeHtml(e.urn || "")}</span></div>
+    <div class="diagRow">ファイル名: <span class="mono">${escapeHtml(e.filename || `${e.token}.<拡張子>`)}</span></div>
+    ${e.filename ? "" : `<div class="diagRow">拡張子は必須です（例: <span class="kbd">&gt;encode ${escapeHtml(e.urn || "")} zip</span>）</div>`}`;
+}
+
+// >check <filename>: the URN the extractor would record, or why there is none.
+function checkResultHtml(filename: string): string {
+  if (!filename) return `<div class="diagRow">ファイル名を入力してください（例: <span class="mono">urn__feat__a__b.zip</span>）</div>`;
+  const d = diagnoseFilename(filename, urnOptsOf(state.settings));
+  if (d.urn) return `<div class="diagRow">→ <span class="mono">${escapeHtml(d.urn)}</span>（${escapeHtml(d.source || "")}）</div>`;
+  return `<div class="diagRow">→ URNなし</div>${diagnosisRowsHtml(d)}`;
 }
 
 function renderCommandHint(cmd: string): void {
@@ -418,33 +746,129 @@ function renderCommandHint(cmd: string): void {
   div.innerHTML = `
     <div>Command mode: <span class="kbd">&gt;${escapeHtml(cmd)}</span></div>
     <div style="margin-top:8px;line-height:1.55">
-      <div><span class="kbd">&gt;naming</span> 命名規約（URNトークン）をClipboardへコピー</div>
+      <div><span class="kbd">&gt;naming [en] [prefix]</span> 命名規約（選択中のコンテナ / 英語版）をClipboardへコピー</div>
+      <div><span class="kbd">&gt;encode &lt;urn&gt; [ext]</span> 論理URNを検証してファイル名トークンをコピー / <span class="kbd">&gt;check &lt;filename&gt;</span> そのファイル名から記録されるURNを確認</div>
       <div><span class="kbd">&gt;full</span> フル幅ビューを開く（閉じたら戻る）</div>
-      <div><span class="kbd">&gt;backup</span> Clipboardコピー → Gmailを開く</div>
-      <div><span class="kbd">&gt;clear</span> 先にbackup済みのときのみ全削除</div>
+      <div><span class="kbd">&gt;backup [enc] [history]</span> バックアップJSONをダウンロードフォルダへ保存（enc: パスフレーズで暗号化 / history: 検索履歴も含める）</div>
+      <div><span class="kbd">&gt;restore [paste] [replace]</span> バックアップJSONを復元（既定: ファイル選択 / merge）</div>
+      <div><span class="kbd">&gt;clear</span> 現在の状態をbackup済みのときのみ全削除</div>
+      <div><span class="kbd">&gt;backfill [from] [to]</span> Chromeのダウンロード履歴から未記録分を追加（日付: YYYY-MM-DD、プレビューあり）</div>
+      <div><span class="kbd">&gt;trim</span> Retentionルールを今すぐ適用（対象はアーカイブファイルへ退避）</div>
+      <div><span class="kbd">&gt;migrate</span> ストレージスキーマ移行のdry-run（変更内容を表示）</div>
+      <div><span class="kbd">&gt;save &lt;name&gt;</span> 直前の検索条件を保存（ツリーの Saved に表示、クリックで適用）</div>
+      <div><span class="kbd">&gt;unsave &lt;name&gt;</span> 保存した検索を削除</div>
+      <div><span class="kbd">&gt;history [text]</span> 検索履歴（Enterで記録、端末ごと） / <span class="kbd">&gt;history clear [all]</span> 削除</div>
+      <div><span class="kbd">&gt;pin</span> / <span class="kbd">&gt;unpin</span> 直前の検索を履歴にピン留め / 解除（空欄で ↑↓ の先頭に出ます）</div>
       <div><span class="kbd">&gt;close</span> パネルを閉じる</div>
     </div>`;
   sessionsHost.appendChild(div);
   sheet.classList.remove("open");
 }
 
+// Live result of >encode / >check while typing; Enter copies it.
+function renderUrnTool(cmd: string, args: string[]): void {
+  sessionsHost.innerHTML = "";
+  sheet.classList.remove("open");
+  const div = document.createElement("div");
+  div.className = "empty diag";
+  div.innerHTML = cmd === "encode"
+    ? `<div><strong>Encode</strong> 論理URN → ファイル名トークン（Enterでコピー）</div>${encodeResultHtml(args[0] || "", args[1] || null)}`
+    : `<div><strong>Check</strong> ファイル名 → 記録されるURN（Enterでコピー）</div>${checkResultHtml(args.join(" "))}`;
+  sessionsHost.appendChild(div);
+}
+
+function renderHistory(filter: string): void {
+  sessionsHost.innerHTML = "";
+  sheet.classList.remove("open");
+  const needle = filter.toLowerCase();
+  const list = state.searchHistory.filter((e) => e.query.toLowerCase().includes(needle));
+
+  const div = document.createElement("div");
+  div.className = "empty";
+  div.innerHTML = `
+    <div><strong>History</strong> クリックで適用 / ☆でピン留め / 空欄で <span class="kbd">↑</span><span class="kbd">↓</span> でも呼び出し</div>
+    <div style="margin-top:4px"><span class="kbd">&gt;history clear</span> ピン留め以外を削除 / <span class="kbd">&gt;history clear all</span> すべて削除</div>`;
+  const rows = document.createElement("div");
+  rows.style.marginTop = "8px";
+  if (list.length === 0) rows.textContent = filter ? "該当する履歴がありません" : "履歴はありません（検索してEnterで記録）";
+  for (const e of list) {
+    const row = document.createElement("div");
+    row.className = "historyRow";
+    row.title = `最終: ${formatLocal(e.lastAt)}`;
+    row.innerHTML = `
+      <button class="star${e.pinned ? " pinned" : ""}" title="${e.pinned ? "ピン留めを外す" : "ピン留め"}">${e.pinned ? "★" : "☆"}</button>
+      <span class="historyQuery">${escapeHtml(e.query)}</span>
+      <span class="historyMeta">${e.uses}回 · C:${e.hits} · ${escapeHtml(shortDate(e.lastAt))}</span>`;
+    (row.querySelector(".star") as HTMLElement).addEventListener("click", (ev) => {
+      ev.stopPropagation();
+      void pinSearch(e.query, !e.pinned);
+    });
+    row.addEventListener("click", () => {
+      input.value = e.query;
+      void onQueryChange();
+      input.focus();
+    });
+    rows.appendChild(row);
+  }
+  div.appendChild(rows);
+  sessionsHost.appendChild(div);
+}
+
+async function pinSearch(query: string, pinned: boolean): Promise<void> {
+  const res = setPinned(state.searchHistory, query, pinned);
+  if (res.error) {
+    alert(`ピン留めを変更できません: ${res.error}`);
+    return;
+  }
+  state.searchHistory = res.list;
+  await saveSearchHistory(res.list);
+  render();
+}
+
+function recordCurrentSearch(): void {
+  const q = parseQuery(input.value);
+  if (!q.raw || q.command || q.error) return;
+  state.searchHistory = recordSearch(state.searchHistory, q.raw, lastHits);
+  void saveSearchHistory(state.searchHistory);
+}
+
+// Up/Down in the empty box (or while stepping through recalled entries): pinned first, then newest.
+function handleHistoryKey(ev: KeyboardEvent): boolean {
+  if (ev.key !== "ArrowUp" && ev.key !== "ArrowDown") return false;
+  const list = state.searchHistory;
+  const recalling = historyCursor >= 0 && list[historyCursor]?.query === input.value;
+  if (!recalling) historyCursor = -1;
+  if (!recalling && input.value !== "") return false;
+  ev.preventDefault();
+  if (list.length === 0) return true;
+  historyCursor = ev.key === "ArrowUp" ? Math.min(historyCursor + 1, list.length - 1) : historyCursor - 1;
+  input.value = historyCursor >= 0 ? list[historyCursor].query : "";
+  input.setSelectionRange(input.value.length, input.value.length);
+  void onQueryChange();
+  return true;
+}
+
+function renderQueryError(q: ReturnType<typeof parseQuery>): void {
+  qErrorHost.hidden = !q.error;
+  qErrorHost.textContent = q.error ? `検索式エラー: ${q.error}` : "";
+}
+
 function render(): void {
   const q = parseQuery(input.value);
+  renderQueryError(q);
+  if (!q.command) lastSearch = q.raw;
+  const ranked = state.settings.rankedSearch && !!q.expr;
+  matchOpts = { fuzzy: ranked };
+  needles = queryNeedles(q);
+
+  // Matching commits (with a known session), narrowed by the search index.
+  const matched = q.command ? [] : searchCommits(searchIndex, q, state.sessions, matchOpts);
+  if (!q.command) lastHits = matched.length;
 
   // Build tree from matching commits when searching; hide non-matching containers.
-  const treeCommits: CommitRec[] = [];
-  if (!q.raw || q.command) {
-    treeCommits.push(...state.commits);
-  } else {
-    for (const c of state.commits) {
-      if (!c.sessionId) continue;
-      const s = state.sessions[c.sessionId] || null;
-      if (!s) continue;
-      if (commitMatches(q, c, s)) treeCommits.push(c);
-    }
-  }
+  const treeCommits = !q.raw || q.command ? indexedCommits(searchIndex) : matched;
   const includeUnknown = treeCommits.some((c) => !c.urn);
-  const model = buildUrnContainerTree(treeCommits, state.sessions, { includeUnknown });
+  const model = buildUrnContainerTree(treeCommits, state.sessions, { includeUnknown, namespaces: namespaceNames(state.settings) });
 
   initCollapsedDefault(model);
   ensureSelectionVisible(model);
@@ -456,24 +880,38 @@ function render(): void {
   const uniqSessions = new Set<string>();
   for (const c of treeCommits) if (c.sessionId) uniqSessions.add(c.sessionId);
   treeMeta.textContent = `S:${uniqSessions.size} C:${treeCommits.length}`;
+  if (state.lastTrim) {
+    treeMeta.textContent += ` · trimmed:${state.lastTrim.archived} (${shortDate(state.lastTrim.at)})`;
+    treeMeta.title = `Retentionで${state.lastTrim.archived}件をアーカイブ: ${state.lastTrim.filename}`;
+  } else {
+    treeMeta.title = "";
+  }
+  if (state.backupFailure) {
+    treeMeta.textContent += ` · backup failed (${shortDate(state.backupFailure.at)})`;
+    treeMeta.title = [treeMeta.title, `バックアップを書き出せませんでした（${state.backupFailure.trigger}）: ${state.backupFailure.error}`].filter(Boolean).join("\n");
+  }
 
   renderTree(model);
 
+  if (q.command === "history") {
+    renderHistory(q.args.join(" "));
+    return;
+  }
+  if (q.command === "encode" || q.command === "check") {
+    renderUrnTool(q.command, q.args);
+    return;
+  }
   if (q.command) {
     renderCommandHint(q.command);
     return;
   }
 
   const sessionsArr = stableSessionsArray(state.sessions);
-  const sessionById = state.sessions;
 
   // Filter commits for sessions list (selection-aware)
   const sessionsFromCommits = new Set<string>();
-  for (const c of state.commits) {
-    if (!c.sessionId) continue;
-    const s = sessionById[c.sessionId] || null;
-    if (!s) continue;
-
+  const bestCommitScore = new Map<string, number>();
+  for (const c of matched) {
     if (selectedPrefix) {
       if (selectedPrefix === "__unknown__") {
         if (c.urn) continue;
@@ -482,7 +920,9 @@ function render(): void {
       }
     }
 
-    if (commitMatches(q, c, s)) sessionsFromCommits.add(c.sessionId);
+    const sid = c.sessionId as string;
+    sessionsFromCommits.add(sid);
+    if (ranked) bestCommitScore.set(sid, Math.max(bestCommitScore.get(sid) || 0, scoreCommit(c, needles)));
   }
 
   const filteredSessions: SessionRec[] = [];
@@ -490,9 +930,14 @@ function render(): void {
     if (selectedPrefix) {
       if (sessionsFromCommits.has(s.id)) filteredSessions.push(s);
     } else {
-      if (sessionsFromCommits.has(s.id) || sessionMatchesWithoutCommits(q, s)) filteredSessions.push(s);
+      if (sessionsFromCommits.has(s.id) || sessionMatchesWithoutCommits(q, s, matchOpts)) filteredSessions.push(s);
     }
   }
+  // Ranked: best match first; ties keep the chronological order (sort is stable).
+  if (ranked) {
+    const score = new Map(filteredSessions.map((s) => [s.id, scoreSession(s, needles) + (bestCommitScore.get(s.id) || 0)]));
+    filteredSessions.sort((a, b) => (score.get(b.id) || 0) - (score.get(a.id) || 0));
+  }
 
   if (selectedSessionId && !filteredSessions.some((s) => s.id === selectedSessionId)) selectedSessionId = null;
 
@@ -508,17 +953,36 @@ function render(): void {
         <div class="kbd">type: &gt;cmd</div>
       </div>
       <div style="margin-top:8px;line-height:1.6">
-        <div><span class="kbd">&gt;naming</span> 命名規約（URNトークン）をClipboardへコピー</div>
+        <div><span class="kbd">&gt;naming [en|ja] [prefix]</span> 命名規約をClipboardへコピー（prefix省略時は選択中のコンテナ。テンプレートはオプションで編集）</div>
+        <div><span class="kbd">&gt;encode &lt;urn&gt; [ext]</span> 論理URN → ファイル名トークン / <span class="kbd">&gt;check &lt;filename&gt;</span> ファイル名 → URN</div>
         <div><span class="kbd">&gt;full</span> フル幅ビューを開く（閉じたら戻る）</div>
-        <div><span class="kbd">&gt;backup</span> Clipboardコピー → Gmailを開く</div>
-        <div><span class="kbd">&gt;clear</span> 先にbackup済みのときのみ全削除</div>
+        <div><span class="kbd">&gt;backup [enc] [history]</span> バックアップJSONをダウンロードフォルダへ保存（enc: パスフレーズで暗号化 / history: 検索履歴も含める）</div>
+        <div><span class="kbd">&gt;restore [paste] [replace]</span> バックアップJSONを復元（既定: ファイル選択 / merge）</div>
+        <div><span class="kbd">&gt;clear</span> 現在の状態をbackup済みのときのみ全削除</div>
+        <div><span class="kbd">&gt;backfill [from] [to]</span> Chromeのダウンロード履歴から未記録分を追加（日付: YYYY-MM-DD、プレビューあり）</div>
+        <div><span class="kbd">&gt;trim</span> Retentionルールを今すぐ適用（対象はアーカイブファイルへ退避）</div>
+        <div><span class="kbd">&gt;migrate</span> ストレージスキーマ移行のdry-run（変更内容を表示）</div>
+        <div><span class="kbd">&gt;save &lt;name&gt;</span> 直前の検索条件を保存（ツリーの Saved に表示、クリックで適用）</div>
+        <div><span class="kbd">&gt;unsave &lt;name&gt;</span> 保存した検索を削除</div>
+        <div><span class="kbd">&gt;history [text]</span> 検索履歴（Enterで記録、端末ごと） / <span class="kbd">&gt;history clear [all]</span> 削除</div>
+        <div><span class="kbd">&gt;pin</span> / <span class="kbd">&gt;unpin</span> 直前の検索を履歴にピン留め / 解除（空欄で ↑↓ の先頭に出ます）</div>
         <div><span class="kbd">&gt;close</span> パネルを閉じる</div>
       </div>
       <div style="margin-top:10px;line-height:1.6">
         <div><strong>Search keys</strong></div>
         <div><span class="kbd">session:chatgpt</span> / <span class="kbd">file:.zip</span> / <span class="kbd">urn:sessions</span></div>
         <div><span class="kbd">on:2026-02-10</span> / <span class="kbd">after:2026-02-01</span> / <span class="kbd">before:2026-02-28</span></div>
-        <div><span class="kbd">is:unknown</span>（URNなしのみ）</div>
+        <div><span class="kbd">on:today</span> / <span class="kbd">on:yesterday</span> / <span class="kbd">after:7d</span> / <span class="kbd">after:2w</span> / <span class="kbd">after:12h</span>（相対）</div>
+        <div><span class="kbd">this:week</span> / <span class="kbd">this:month</span> / <span class="kbd">after:14:00</span>（今日の時刻） / <span class="kbd">after:2026-02-10T14:00</span> / <span class="kbd">on:2026-02</span></div>
+        <div><span class="kbd">urn:^feat:sessions</span>（前方一致） / <span class="kbd">urn:feat:*:chrome:*</span>（*=1セグメント） / <span class="kbd">urn:feat:sessions:**</span>（配下すべて） / <span class="kbd">depth:3</span> / <span class="kbd">depth:&lt;=2</span></div>
+        <div><span class="kbd">is:unknown</span>（URNなしのみ） / <span class="kbd">is:inferred</span>（URNをURL・タイトルから推測したもの）</div>
+        <div><span class="kbd">host:github.com</span> / <span class="kbd">ext:tar.gz</span> / <span class="kbd">mime:image</span> / <span class="kbd">source:filename:urn__</span></div>
+        <div><span class="kbd">size:&gt;10mb</span> / <span class="kbd">size:&lt;=512kb</span>（&gt; &gt;= &lt; &lt;= =、単位 b/kb/mb/gb）</div>
+        <div><span class="kbd">state:interrupted</span> / <span class="kbd">error:network</span>（失敗理由）</div>
+        <div><span class="kbd">is:failed</span> / <span class="kbd">is:erased</span> / <span class="kbd">is:removed</span> / <span class="kbd">is:paused</span> / <span class="kbd">is:dangerous</span></div>
+        <div><span class="kbd">Tab</span> 補完（キー / 実在するURNセグメント / session: のタイトル・ホスト / on: の日付）、<span class="kbd">↑</span><span class="kbd">↓</span> で選択</div>
+        <div><span class="kbd">-urn:test</span>（除外） / <span class="kbd">file:.zip OR file:.pdf</span> / <span class="kbd">( … )</span> / <span class="kbd">"quoted phrase"</span></div>
+        <div><b>rank</b> オン: 一致度順（URNセグメント完全一致 &gt; ファイル名の単語 &gt; URL部分一致）、タイプミスも許容 / オフ: 日付順</div>
       </div>`;
     sessionsHost.appendChild(div);
   }
@@ -546,14 +1010,13 @@ function render(): void {
     const sub = shortUrl(s.url);
     const last = s.lastDownloadAt || s.lastSeenAt || s.createdAt;
 
-    const known = countKnownUrnForSession(s.id);
-    const unknown = countUnknownUrnForSession(s.id);
+    const { known, unknown } = sessionCounts(searchIndex, s.id);
 
     card.innerHTML = `
       <div class="row">
-        <div class="title">${escapeHtml(title)}</div>
+        <div class="title">${markHtml(title, "session")}</div>
       </div>
-      <div class="sub">${escapeHtml(sub)}</div>
+      <div class="sub">${markHtml(sub, "session", "host")}</div>
       <div class="meta">
         <span class="pill"><strong>${s.downloadCount || 0}</strong> commits</span>
         <span class="pill"><strong>${known}</strong> urn</span>
@@ -584,6 +1047,29 @@ function render(): void {
   renderSheet(q);
 }
 
+// The cached commits for a session (possibly one commitsRev behind), or null while the first
+// read is in flight. Starts a read when the cache is missing or stale.
+function sheetCommitsFor(sessionId: string): CommitRec[] | null {
+  const cached = sheetCommits && sheetCommits.sessionId === sessionId ? sheetCommits : null;
+  if ((!cached || cached.seq !== commitsSeq) && sheetLoading !== sessionId) void loadSheetCommits(sessionId);
+  return cached ? cached.commits : null;
+}
+
+async function loadSheetCommits(sessionId: string): Promise<void> {
+  sheetLoading = sessionId;
+  const seq = commitsSeq;
+  try {
+    const commits = await getCommitsBySession(sessionId);
+    sheetCommits = { sessionId, seq, commits };
+  } catch (e) {
+    console.error("loading session commits failed", e);
+    return;
+  } finally {
+    if (sheetLoading === sessionId) sheetLoading = null;
+  }
+  if (selectedSessionId === sessionId) renderSheet(parseQuery(input.value));
+}
+
 function renderSheet(q: ReturnType<typeof parseQuery>): void {
   if (!selectedSessionId) {
     sheet.classList.remove("open");
@@ -607,10 +1093,14 @@ function renderSheet(q: ReturnType<typeof parseQuery>): void {
     - Esc: close sheet → Esc again: close panel<br/>
     - Tree selection + search で絞り込み`;
 
-  const commits: CommitRec[] = [];
-  for (const c of state.commits) {
-    if (c.sessionId !== selectedSessionId) continue;
+  const loaded = sheetCommitsFor(selectedSessionId);
+  if (!loaded) {
+    commitsHost.innerHTML = `<div class="empty">読み込み中…</div>`;
+    return;
+  }
 
+  const commits: CommitRec[] = [];
+  for (const c of loaded) {
     if (selectedPrefix) {
       if (selectedPrefix === "__unknown__") {
         if (c.urn) continue;
@@ -619,10 +1109,14 @@ function renderSheet(q: ReturnType<typeof parseQuery>): void {
       }
     }
 
-    if (!commitMatches(q, c, s)) continue;
+    if (!commitMatches(q, c, s, matchOpts)) continue;
     commits.push(c);
   }
   commits.sort((a, b) => String(b.capturedAt).localeCompare(String(a.capturedAt)));
+  if (matchOpts.fuzzy) {
+    const score = new Map(commits.map((c) => [c.id, scoreCommit(c, needles)]));
+    commits.sort((a, b) => (score.get(b.id) || 0) - (score.get(a.id) || 0));
+  }
 
   commitsHost.innerHTML = "";
   if (commits.length === 0) {
@@ -635,44 +1129,139 @@ function renderSheet(q: ReturnType<typeof parseQuery>): void {
 
   for (const c of commits.slice(0, 200)) {
     const div = document.createElement("div");
-    div.className = "commit";
+    div.className = "commit" + (isBrokenCommit(c) ? " broken" : "");
     const file = c.filename || "(no filename)";
     const urn = c.urn || "(unknown)";
     const st = c.state || "";
+    const lifecycle = lifecycleLabels(c).map((l) => `<span class="pill">${escapeHtml(l)}</span>`).join("");
     div.innerHTML = `
       <div class="commitTop">
-        <div class="commitFile">${escapeHtml(file)}</div>
+        <div class="commitFile">${markHtml(file, "file")}</div>
         <div class="commitTime">${escapeHtml(formatLocal(c.capturedAt || c.startTime))}</div>
       </div>
       <div class="commitMeta">
         <span class="pill"><strong>${escapeHtml(st)}</strong></span>
-        <span class="pill">${escapeHtml(urn)}</span>
+        <span class="pill">${markHtml(urn, "urn")}</span>
+        ${lifecycle}
       </div>
+      ${diagnosisHtml(c)}
     `;
     commitsHost.appendChild(div);
   }
 }
 
+function suggestionHint(s: Suggestion): string {
+  if (s.kind === "urn") return `C:${s.count}`;
+  if (s.kind === "host") return `ホスト S:${s.count}`;
+  if (s.kind === "session") return "セッション";
+  if (s.kind === "key") return "キー";
+  if (s.kind === "date") return "日付";
+  return "値";
+}
+
+function renderSuggestions(): void {
+  suggestHost.hidden = !suggestion;
+  suggestHost.innerHTML = "";
+  if (!suggestion) return;
+  suggestion.items.forEach((s, i) => {
+    const row = document.createElement("div");
+    row.className = "suggestItem" + (i === suggestIndex ? " active" : "");
+    row.setAttribute("role", "option");
+    row.innerHTML = `<span>${escapeHtml(s.label)}</span><span class="suggestKind">${escapeHtml(suggestionHint(s))}</span>`;
+    // mousedown, not click: keeps focus (and the cursor) in the search box.
+    row.addEventListener("mousedown", (ev) => {
+      ev.preventDefault();
+      acceptSuggestion(i);
+    });
+    suggestHost.appendChild(row);
+  });
+}
+
+function storedTreeModel(): TreeModel {
+  suggestModel ??= buildUrnContainerTree(indexedCommits(searchIndex), state.sessions, { namespaces: namespaceNames(state.settings) });
+  return suggestModel;
+}
+
+function updateSuggestions(): void {
+  if (document.activeElement !== input) {
+    hideSuggestions();
+    return;
+  }
+  const cursor = input.selectionStart ?? input.value.length;
+  suggestion = suggestAt(input.value, cursor, { model: storedTreeModel(), sessions: state.sessions });
+  suggestIndex = 0;
+  renderSuggestions();
+}
+
+function hideSuggestions(): void {
+  suggestion = null;
+  renderSuggestions();
+}
+
+function acceptSuggestion(i: number): void {
+  if (!suggestion || !suggestion.items[i]) return;
+  const next = applySuggestion(input.value, suggestion, suggestion.items[i]);
+  input.value = next.value;
+  input.setSelectionRange(next.cursor, next.cursor);
+  void onQueryChange();
+  updateSuggestions();
+}
+
+// Arrow keys move through the list, Tab accepts, Escape closes it (and only it).
+function handleSuggestKey(ev: KeyboardEvent): boolean {
+  if (!suggestion) return false;
+  const n = suggestion.items.length;
+  if (ev.key === "ArrowDown" || ev.key === "ArrowUp") {
+    suggestIndex = (suggestIndex + (ev.key === "ArrowDown" ? 1 : n - 1)) % n;
+    renderSuggestions();
+  } else if (ev.key === "Tab") {
+    acceptSuggestion(suggestIndex);
+  } else if (ev.key === "Escape") {
+    ev.stopPropagation();
+    hideSuggestions();
+  } else {
+    return false;
+  }
+  ev.preventDefault();
+  return true;
+}
+
 async function onQueryChange(): Promise<void> {
   const v = input.value;
   await chrome.runtime.sendMessage({ type: "SET_UI_STATE", query: v });
   render();
 }
 
-input.addEventListener("input", () => { showCheat = false; void onQueryChange(); });
+input.addEventListener("input", () => { showCheat = false; historyCursor = -1; void onQueryChange(); updateSuggestions(); });
+input.addEventListener("keyup", (ev) => {
+  if (["ArrowLeft", "ArrowRight", "Home", "End"].includes(ev.key)) updateSuggestions();
+});
+input.addEventListener("click", () => updateSuggestions());
+input.addEventListener("blur", () => hideSuggestions());
 
 urnOnlyBox.addEventListener("change", () => {
   const checked = !!urnOnlyBox.checked;
   state.settings = { ...state.settings, urnOnly: checked };
-  void setSync({ [SYNC_SETTINGS]: state.settings });
+  void saveSettings({ urnOnly: checked });
+});
+
+rankedBox.addEventListener("change", () => {
+  const checked = !!rankedBox.checked;
+  state.settings = { ...state.settings, rankedSearch: checked };
+  void saveSettings({ rankedSearch: checked });
+  render();
 });
 
 input.addEventListener("keydown", (ev) => {
+  if (handleSuggestKey(ev)) return;
+  if (handleHistoryKey(ev)) return;
   if (ev.key === "Enter") {
     const q = parseQuery(input.value);
     if (q.command) {
       ev.preventDefault();
-      void runCommand(q.command);
+      void runCommand(q.command, q.args);
+    } else {
+      recordCurrentSearch();
     }
   }
 });
@@ -700,15 +1289,20 @@ window.addEventListener("keydown", (ev) => {
   }
 });
 
-chrome.storage.onChanged.addListener((_changes: any, area: string) => {
+chrome.storage.onChanged.addListener((changes: any, area: string) => {
   if (area !== "local" && area !== "sync") return;
   void (async () => {
+    if (area === "local" && changes[LOCAL_COMMITS_REV]) await reloadCommits((changes[LOCAL_COMMITS_REV].newValue as CommitsRev) || null);
+    // Saved-search counts only depend on commits (handled above), sessions and the list; not
+    // on the UI state written on every keystroke.
+    if (changes[LOCAL_SESSIONS] || changes[SYNC_SAVED_SEARCHES]) savedRoot = undefined;
     await reload();
     render();
   })();
 });
 
 async function init(): Promise<void> {
+  await reloadCommits(null);
   await reload();
   input.value = state.uiQuery;
   render();
@@ -1,6 +1,16 @@
-import { getLocal, setLocal, getSync, setSync } from "./lib/storage.js";
+import { getLocal, setLocal, setSync } from "./lib/storage.js";
+import { SYNC_SETTINGS, backupPeriodMinutes, loadSettings, saveSettings, urnOptsOf, type SyncSettings } from "./lib/settings.js";
 import { canonicalizeUrl, isHttpUrl, nowIso, sha256Hex } from "./lib/util.js";
-import { extractUrnFromFilename } from "./lib/urn.js";
+import { extractUrnFromDownload } from "./lib/urn.js";
+import { backupFilename, backupStateHash, buildBackupPayload, encryptBackup, parseBackupPayload, planRestore, verifyBackupHash, type BackupFailure, type BackupProof, type RestorePlan } from "./lib/backup.js";
+import { downloadText, forgetOwnDownload, isOwnDownload, isOwnDownloadId } from "./lib/downloads.js";
+import { COMMITS_IN_IDB_SINCE, LOCAL_SCHEMA_VERSION, SCHEMA_VERSION, formatMigrationReport, readSchemaVersion, runMigrations, type MigrationResult } from "./lib/schema.js";
+import { deleteCommits, getAllCommits, getCommit, getCommitsByDownloadId, notifyCommitsChanged, putCommit, putCommits, replaceAllCommits } from "./lib/commitStore.js";
+import { commitIdFor, downloadEventTarget, newProfileEpoch } from "./lib/identity.js";
+import { applyDownloadDelta, lifecycleFromItem, withLifecycleDefaults, type Lifecycle } from "./lib/lifecycle.js";
+import { backfillSearchQuery, formatBackfillPreview, planBackfill, type BackfillPlan, type BackfillRange, type HistoryItem } from "./lib/backfill.js";
+import { applyRetention, archiveFilename, type RetentionResult } from "./lib/retention.js";
+import { loadSearchHistory, mergeSearchHistory, saveSearchHistory } from "./lib/searchHistory.js";
 
 type SessionRec = {
   id: string;
@@ -13,7 +23,8 @@ type SessionRec = {
 };
 
 type CommitRec = {
-  id: string;
+  id: string;                // unique commit id (see lib/identity)
+  downloadId: number | null; // chrome.downloads id; not unique across history clears/profiles
   sessionId: string | null;
   sessionUrl: string | null;
   capturedAt: string;
@@ -28,6 +39,14 @@ type CommitRec = {
   totalBytes: number | null;
   urn: string | null;
   urnSource: string | null;
+  // Lifecycle (see lib/lifecycle)
+  error: string | null;
+  danger: string | null;
+  paused: boolean | null;
+  canResume: boolean | null;
+  bytesReceived: number | null;
+  exists: boolean | null;
+  erasedAt: string | null;
 };
 
 type PendingRec = {
@@ -45,11 +64,11 @@ type PendingRec = {
   referrer: string | null;
   mime: string | null;
   totalBytes: number | null;
-};
+} & Lifecycle;
 
+// Commits are not part of this snapshot: they live in IndexedDB (lib/commitStore).
 type LocalState = {
   sessions: Record<string, SessionRec>;
-  commits: CommitRec[];
   pending: Record<string, PendingRec>;
 };
 
@@ -58,14 +77,31 @@ const LOCAL_COMMITS = "commits";
 const LOCAL_PENDING = "pending";
 const LOCAL_UI = "ui";
 const LOCAL_FULL_RETURN = "fullReturn";
-
-const SYNC_SETTINGS = "settings";
-
-type SyncSettings = {
-  urnOnly: boolean;
+const LOCAL_BACKUP_PROOF = "backupProof";
+const LOCAL_BACKUP_FILES = "backupFiles";
+const LOCAL_BACKUP_FAILURE = "backupFailure";
+
+const LOCAL_RETENTION_LOG = "retentionLog";
+const LOCAL_PROFILE_EPOCH = "profileEpoch";
+
+const ALARM_BACKUP = "scheduled-backup";
+const ALARM_RETENTION = "retention";
+const RETENTION_PERIOD_MIN = 6 * 60;
+const MAX_RETENTION_LOG = 20;
+
+type RetentionLogRec = {
+  at: string;
+  archived: number;
+  filename: string;
+  reasons: RetentionResult["reasons"];
 };
 
-const MAX_COMMITS = 5000;
+type BackupFileRec = {
+  downloadId: number;
+  filename: string;
+  createdAt: string;
+  hash: string;
+};
 
 const MAX_PENDING_AGE_MS = 1000 * 60 * 60 * 24 * 2; // 48h best-effort cleanup
 
@@ -85,25 +121,10 @@ function prunePending(state: LocalState): void {
   }
 }
 
-async function loadSettings(): Promise<SyncSettings> {
-  const got = await getSync<{ [k: string]: unknown }>([SYNC_SETTINGS]);
-  const raw = (got[SYNC_SETTINGS] as any) || {};
-  // Default: urn-only ON (record only downloads whose filename includes an URN token)
-  const urnOnly = raw.urnOnly !== false;
-  return { urnOnly };
-}
-
 async function ensureSettingsDefaults(): Promise<void> {
   try {
-    const got = await getSync<{ [k: string]: unknown }>([SYNC_SETTINGS]);
-    if (!got || typeof (got as any)[SYNC_SETTINGS] !== "object") {
-      await setSync({ [SYNC_SETTINGS]: { urnOnly: true } });
-      return;
-    }
-    const cur = ((got as any)[SYNC_SETTINGS] || {}) as any;
-    if (typeof cur.urnOnly !== "boolean") {
-      await setSync({ [SYNC_SETTINGS]: { ...cur, urnOnly: true } });
-    }
+    // saveSettings normalizes, so an empty patch fills in any missing defaults.
+    await saveSettings({});
   } catch (e) {
     // best-effort
     console.warn("ensureSettingsDefaults failed", e);
@@ -117,16 +138,77 @@ function withLock(fn: () => Promise<void>): Promise<void> {
   return lock;
 }
 
+async function migrateStorage(dryRun: boolean): Promise<MigrationResult> {
+  const raw = await getLocal<{ [k: string]: unknown }>([LOCAL_SCHEMA_VERSION, LOCAL_SESSIONS, LOCAL_COMMITS, LOCAL_PENDING, LOCAL_UI]);
+  const from = readSchemaVersion(raw);
+  if (from >= SCHEMA_VERSION) {
+    // The usual start: nothing pending, so the history is neither loaded nor copied (`data` stays
+    // empty; callers only report). Data written by a newer build is never touched.
+    const res: MigrationResult = { from, to: from, data: { sessions: {}, commits: [], pending: {}, ui: { query: "" } }, steps: [] };
+    if (from > SCHEMA_VERSION) console.warn(formatMigrationReport(res));
+    return res;
+  }
+  // Every step from v2 on rewrites commits, and from v2 on they live in IndexedDB.
+  if (from >= COMMITS_IN_IDB_SINCE) raw[LOCAL_COMMITS] = await getAllCommits();
+  const res = runMigrations(raw);
+  if (!dryRun && res.steps.length > 0) {
+    // IndexedDB first: if we die before the version bump, the next start simply redoes the move.
+    if (res.to >= COMMITS_IN_IDB_SINCE) await replaceAllCommits(res.data.commits);
+    await setLocal({
+      [LOCAL_SESSIONS]: res.data.sessions,
+      [LOCAL_PENDING]: res.data.pending,
+      [LOCAL_UI]: res.data.ui,
+      [LOCAL_SCHEMA_VERSION]: res.to,
+      ...(res.to < COMMITS_IN_IDB_SINCE ? { [LOCAL_COMMITS]: res.data.commits } : {})
+    });
+    if (res.to >= COMMITS_IN_IDB_SINCE) await chrome.storage.local.remove(LOCAL_COMMITS);
+    await notifyCommitsChanged(null);
+    console.info(formatMigrationReport(res));
+  }
+  return res;
+}
+
+let profileEpoch: string | null = null;
+
+// Random per install: storage.local is per profile and is wiped together with the extension.
+async function getProfileEpoch(): Promise<string> {
+  if (profileEpoch) return profileEpoch;
+  const got = await getLocal<{ [k: string]: unknown }>([LOCAL_PROFILE_EPOCH]);
+  const stored = got[LOCAL_PROFILE_EPOCH];
+  if (typeof stored === "string" && stored) {
+    profileEpoch = stored;
+  } else {
+    profileEpoch = newProfileEpoch();
+    await setLocal({ [LOCAL_PROFILE_EPOCH]: profileEpoch });
+  }
+  return profileEpoch;
+}
+
+// chrome reuses download ids after the history is cleared; only this profile's newest commit is live.
+async function findLiveCommit(downloadId: number): Promise<CommitRec | null> {
+  const epoch = await getProfileEpoch();
+  const mine = (await getCommitsByDownloadId(downloadId)).filter((c) => c.id.startsWith(`${epoch}-`));
+  if (mine.length === 0) return null;
+  mine.sort((a, b) => (b.startTime || b.capturedAt).localeCompare(a.startTime || a.capturedAt));
+  return mine[0];
+}
+
 async function loadState(): Promise<LocalState> {
-  const got = await getLocal<{ [k: string]: unknown }>([LOCAL_SESSIONS, LOCAL_COMMITS, LOCAL_PENDING]);
+  const got = await getLocal<{ [k: string]: unknown }>([LOCAL_SESSIONS, LOCAL_PENDING]);
   const sessions = (got[LOCAL_SESSIONS] as Record<string, SessionRec>) || {};
-  const commits = (got[LOCAL_COMMITS] as CommitRec[]) || [];
   const pending = (got[LOCAL_PENDING] as Record<string, PendingRec>) || {};
-  return { sessions, commits, pending };
+  return { sessions, pending };
 }
 
 async function saveState(state: LocalState): Promise<void> {
-  await setLocal({ [LOCAL_SESSIONS]: state.sessions, [LOCAL_COMMITS]: state.commits, [LOCAL_PENDING]: state.pending });
+  await setLocal({ [LOCAL_SESSIONS]: state.sessions, [LOCAL_PENDING]: state.pending });
+}
+
+// Title of the session tab, for the "title" URN source: the one just read from the tab, else the
+// last one recorded for the session.
+function sessionTitleOf(state: LocalState, sessionUrl: string | null, title: string | null): string | null {
+  if (title || !sessionUrl) return title;
+  return Object.values(state.sessions).find((s) => s.url === sessionUrl)?.title ?? null;
 }
 
 async function ensureSession(url: string, title: string | null, state: LocalState): Promise<SessionRec> {
@@ -160,14 +242,11 @@ async function ensureSession(url: string, title: string | null, state: LocalStat
   return created;
 }
 
-async function addCommit(commit: CommitRec, state: LocalState): Promise<void> {
-  // upsert commit by id
-  const idx = state.commits.findIndex((c) => c.id === commit.id);
-  if (idx >= 0) state.commits[idx] = { ...state.commits[idx], ...commit };
-  else state.commits.push(commit);
-
-  // keep newest last; trim if needed
-  if (state.commits.length > MAX_COMMITS) state.commits = state.commits.slice(state.commits.length - MAX_COMMITS);
+async function addCommit(commit: CommitRec): Promise<void> {
+  // upsert commit by id; only the changed record is written.
+  const cur = await getCommit(commit.id);
+  await putCommit(cur ? { ...cur, ...commit } : commit);
+  await notifyCommitsChanged([commit.id]);
 }
 
 async function updateSessionStats(sessionId: string, state: LocalState): Promise<void> {
@@ -182,6 +261,181 @@ async function updateSessionStats(sessionId: string, state: LocalState): Promise
   };
 }
 
+// Sessions and commits read under the lock, so a download recorded between the two reads cannot
+// leave a backup (and its hash) with commits whose session is missing. Callers must not hold the
+// lock; it is released before anything is downloaded.
+async function readSnapshot(): Promise<{ sessions: Record<string, SessionRec>; commits: CommitRec[] }> {
+  const snap: { sessions: Record<string, SessionRec>; commits: CommitRec[]; error: unknown } = { sessions: {}, commits: [], error: null };
+  await withLock(async () => {
+    try {
+      snap.sessions = (await loadState()).sessions;
+      snap.commits = await getAllCommits();
+    } catch (e) {
+      snap.error = e;
+    }
+  });
+  if (snap.error) throw snap.error;
+  return { sessions: snap.sessions, commits: snap.commits };
+}
+
+async function writeBackup(
+  folder: string,
+  trigger: BackupProof["trigger"],
+  passphrase?: string,
+  withHistory = false
+): Promise<{ proof: BackupProof; downloadId: number }> {
+  const { sessions, commits } = await readSnapshot();
+  const payload = buildBackupPayload(sessions, commits, withHistory ? { searchHistory: await loadSearchHistory() } : {});
+  const hash = await backupStateHash(sessions, commits);
+  payload.hash = hash;
+
+  const encrypted = !!passphrase;
+  const body = passphrase ? await encryptBackup(payload, passphrase) : payload;
+  const filename = backupFilename(folder, payload.exportedAt, hash, encrypted);
+  let downloadId: number;
+  try {
+    downloadId = await downloadText(JSON.stringify(body, null, 2), filename, "application/json");
+  } catch (e) {
+    const failure: BackupFailure = { at: nowIso(), trigger: trigger || "manual", error: e instanceof Error ? e.message : String(e) };
+    await setLocal({ [LOCAL_BACKUP_FAILURE]: failure });
+    throw e;
+  }
+
+  const proof: BackupProof = { createdAt: nowIso(), hash, filename, trigger, encrypted };
+  await setLocal({ [LOCAL_BACKUP_PROOF]: proof, [LOCAL_BACKUP_FAILURE]: null });
+  return { proof, downloadId };
+}
+
+function removeDownloadFile(downloadId: number): Promise<void> {
+  return new Promise((resolve) => {
+    chrome.downloads.removeFile(downloadId, () => {
+      // The user may have moved/deleted the file already; still drop it from download history.
+      void chrome.runtime.lastError;
+      chrome.downloads.erase({ id: downloadId }, () => resolve());
+    });
+  });
+}
+
+async function runScheduledBackup(): Promise<void> {
+  const settings = await loadSettings();
+  const sched = settings.backupSchedule;
+  if (!sched.enabled) return;
+
+  const snap = await readSnapshot();
+  const hash = await backupStateHash(snap.sessions, snap.commits);
+  const got = await getLocal<{ [k: string]: unknown }>([LOCAL_BACKUP_PROOF, LOCAL_BACKUP_FILES]);
+  const last = (got[LOCAL_BACKUP_PROOF] as BackupProof | undefined) || null;
+
+  if (last && last.hash === hash) {
+    // Nothing changed since the last backup; just record that we checked.
+    await setLocal({ [LOCAL_BACKUP_PROOF]: { ...last, checkedAt: nowIso() } });
+    return;
+  }
+
+  const { proof, downloadId } = await writeBackup(sched.folder, "schedule");
+
+  // Rotation: keep the newest K scheduled files.
+  const files = [...((got[LOCAL_BACKUP_FILES] as BackupFileRec[]) || []), { downloadId, filename: proof.filename || "", createdAt: proof.createdAt, hash }];
+  const drop = files.length > sched.keep ? files.slice(0, files.length - sched.keep) : [];
+  for (const f of drop) await removeDownloadFile(f.downloadId);
+  await setLocal({ [LOCAL_BACKUP_FILES]: files.slice(drop.length) });
+}
+
+// Commits outside the retention policy are written to an archive file (a regular backup:v1
+// payload, so >restore can bring them back) and only then removed from the store.
+async function enforceRetention(): Promise<RetentionLogRec | null> {
+  const settings = await loadSettings();
+  if (!settings.retention.enabled) return null;
+
+  const res = applyRetention(await getAllCommits(), settings.retention, Date.now());
+  if (res.archive.length === 0) return null;
+
+  const state = await loadState();
+  const sessions: Record<string, SessionRec> = {};
+  for (const c of res.archive) {
+    if (c.sessionId && state.sessions[c.sessionId]) sessions[c.sessionId] = state.sessions[c.sessionId];
+  }
+  const payload = buildBackupPayload(sessions, res.archive);
+  payload.hash = await backupStateHash(payload.sessions, payload.commits);
+
+  const at = nowIso();
+  const filename = archiveFilename(settings.backupSchedule.folder, at, res.archive.length);
+  // Runs under the lock: a stalled archive download times out (rejects) and the trim is skipped,
+  // rather than holding up every download event behind it.
+  await downloadText(JSON.stringify(payload, null, 2), filename, "application/json");
+
+  const ids = res.archive.map((c) => c.id);
+  await deleteCommits(ids);
+  await notifyCommitsChanged(ids);
+
+  const rec: RetentionLogRec = { at, archived: ids.length, filename, reasons: res.reasons };
+  const got = await getLocal<{ [k: string]: unknown }>([LOCAL_RETENTION_LOG]);
+  const log = [...((got[LOCAL_RETENTION_LOG] as RetentionLogRec[]) || []), rec].slice(-MAX_RETENTION_LOG);
+  await setLocal({ [LOCAL_RETENTION_LOG]: log });
+  return rec;
+}
+
+function searchDownloads(query: object): Promise<HistoryItem[]> {
+  return new Promise((resolve) => {
+    chrome.downloads.search(query, (items: HistoryItem[]) => resolve(items || []));
+  });
+}
+
+async function planBackfillFor(range: BackfillRange): Promise<BackfillPlan> {
+  const settings = await loadSettings();
+  const items = await searchDownloads(backfillSearchQuery(range));
+  return planBackfill(items, await getAllCommits(), {
+    epoch: await getProfileEpoch(),
+    urnOnly: settings.urnOnly,
+    ownExtensionId: chrome.runtime.id,
+    now: nowIso(),
+    urn: urnOptsOf(settings)
+  });
+}
+
+// Re-plans under the lock so downloads recorded since the preview are not added twice.
+async function applyBackfill(range: BackfillRange): Promise<BackfillPlan> {
+  const plan = await planBackfillFor(range);
+  if (plan.add.length === 0) return plan;
+
+  const state = await loadState();
+  for (const c of plan.add) {
+    const sess = c.sessionUrl
+      ? await ensureSession(c.sessionUrl, null, state)
+      : await ensureSession("urn:unknown:session", "(unknown session)", state);
+    c.sessionId = sess.id;
+    c.sessionUrl = sess.url;
+    // Session stats reflect the download's own time, not the time of the backfill.
+    const s = state.sessions[sess.id];
+    const at = c.startTime || c.capturedAt;
+    state.sessions[sess.id] = {
+      ...s,
+      downloadCount: (s.downloadCount || 0) + 1,
+      lastDownloadAt: !s.lastDownloadAt || at > s.lastDownloadAt ? at : s.lastDownloadAt
+    };
+  }
+  await putCommits(plan.add);
+  await saveState(state);
+  await notifyCommitsChanged(plan.add.map((c) => c.id));
+  await maybeSyncSessionsIndex(state.sessions);
+  return plan;
+}
+
+async function syncAlarm(name: string, periodMin: number | null): Promise<void> {
+  if (periodMin === null) {
+    await chrome.alarms.clear(name);
+    return;
+  }
+  const cur = await chrome.alarms.get(name);
+  if (cur && cur.periodInMinutes === periodMin) return;
+  await chrome.alarms.create(name, { delayInMinutes: periodMin, periodInMinutes: periodMin });
+}
+
+async function syncAlarms(settings: SyncSettings): Promise<void> {
+  await syncAlarm(ALARM_BACKUP, settings.backupSchedule.enabled ? backupPeriodMinutes(settings.backupSchedule) : null);
+  await syncAlarm(ALARM_RETENTION, settings.retention.enabled ? RETENTION_PERIOD_MIN : null);
+}
+
 async function pickActiveTab(): Promise<{ id: number; windowId: number; url: string | null; title: string | null } | null> {
   return await new Promise((resolve) => {
     chrome.tabs.query({ active: true, lastFocusedWindow: true }, (tabs: any[]) => {
@@ -258,6 +512,11 @@ async function closePanelForWindow(windowId: number): Promise<void> {
 }
 
 
+// Queued first, so every listener below (all of which go through withLock) sees migrated data.
+void withLock(async () => {
+  await migrateStorage(false);
+});
+
 chrome.runtime.onInstalled.addListener(() => {
   try {
     chrome.sidePanel?.setPanelBehavior?.({ openPanelOnActionClick: true });
@@ -266,7 +525,30 @@ chrome.runtime.onInstalled.addListener(() => {
   }
 
   // Default settings (best-effort)
-  void ensureSettingsDefaults();
+  void (async () => {
+    await ensureSettingsDefaults();
+    await syncAlarms(await loadSettings());
+  })();
+});
+
+chrome.runtime.onStartup.addListener(() => {
+  void loadSettings().then(syncAlarms).catch((e) => console.warn("syncAlarms failed", e));
+});
+
+chrome.storage.onChanged.addListener((changes: any, area: string) => {
+  if (area !== "sync" || !changes[SYNC_SETTINGS]) return;
+  void loadSettings().then(syncAlarms).catch((e) => console.warn("syncAlarms failed", e));
+});
+
+chrome.alarms.onAlarm.addListener((alarm: any) => {
+  if (!alarm) return;
+  if (alarm.name === ALARM_BACKUP) {
+    runScheduledBackup().catch((e) => console.error("scheduled backup failed", e));
+  } else if (alarm.name === ALARM_RETENTION) {
+    void withLock(async () => {
+      await enforceRetention();
+    });
+  }
 });
 
 
@@ -328,6 +610,86 @@ chrome.runtime.onMessage.addListener((msg: any, sender: any, sendResponse: (v?:
       return;
     }
 
+    if (msg.type === "MIGRATE_DRY_RUN") {
+      const res = await migrateStorage(true);
+      sendResponse({ ok: true, report: formatMigrationReport(res) });
+      return;
+    }
+
+    if (msg.type === "RUN_RETENTION") {
+      const result: { rec: RetentionLogRec | null; error: string | null } = { rec: null, error: null };
+      await withLock(async () => {
+        try {
+          result.rec = await enforceRetention();
+        } catch (e) {
+          result.error = String(e);
+        }
+      });
+      sendResponse(result.error ? { ok: false, error: result.error } : { ok: true, rec: result.rec });
+      return;
+    }
+
+    if (msg.type === "BACKFILL_PREVIEW") {
+      const range: BackfillRange = { from: msg.from || null, to: msg.to || null };
+      const plan = await planBackfillFor(range);
+      sendResponse({ ok: true, count: plan.add.length, preview: formatBackfillPreview(plan) });
+      return;
+    }
+
+    if (msg.type === "BACKFILL_APPLY") {
+      const range: BackfillRange = { from: msg.from || null, to: msg.to || null };
+      const result: { plan: BackfillPlan | null; error: string | null } = { plan: null, error: null };
+      await withLock(async () => {
+        try {
+          result.plan = await applyBackfill(range);
+        } catch (e) {
+          result.error = String(e);
+        }
+      });
+      sendResponse(result.plan ? { ok: true, added: result.plan.add.length } : { ok: false, error: result.error || "backfill failed" });
+      return;
+    }
+
+    if (msg.type === "WRITE_BACKUP") {
+      const settings = await loadSettings();
+      const passphrase = typeof msg.passphrase === "string" && msg.passphrase ? msg.passphrase : undefined;
+      const { proof } = await writeBackup(settings.backupSchedule.folder, "manual", passphrase, msg.history === true);
+      sendResponse({ ok: true, proof });
+      return;
+    }
+
+    if (msg.type === "RESTORE_BACKUP" && typeof msg.json === "string") {
+      const parsed = parseBackupPayload(msg.json);
+      const payload = parsed.payload;
+      if (!payload) {
+        sendResponse({ ok: false, error: parsed.error });
+        return;
+      }
+      if (!(await verifyBackupHash(payload))) {
+        sendResponse({ ok: false, error: "backup hash mismatch (file is corrupted or was edited)" });
+        return;
+      }
+      const mode = msg.mode === "replace" ? "replace" : "merge";
+      const result: { plan: RestorePlan | null } = { plan: null };
+      await withLock(async () => {
+        const state = await loadState();
+        const next = planRestore({ sessions: state.sessions, commits: await getAllCommits() }, payload, mode);
+        state.sessions = next.sessions;
+        await replaceAllCommits(next.commits);
+        await saveState(state);
+        await notifyCommitsChanged(null);
+        await maybeSyncSessionsIndex(state.sessions);
+        result.plan = next;
+      });
+      if (!result.plan) {
+        sendResponse({ ok: false, error: "restore failed" });
+        return;
+      }
+      if (payload.searchHistory) await saveSearchHistory(mergeSearchHistory(await loadSearchHistory(), payload.searchHistory));
+      sendResponse({ ok: true, sessionCounts: result.plan.sessionCounts, commitCounts: result.plan.commitCounts, history: payload.searchHistory?.length ?? null });
+      return;
+    }
+
     if (msg.type === "SET_UI_STATE" && typeof msg.query === "string") {
       await setLocal({ [LOCAL_UI]: { query: msg.query } });
       sendResponse({ ok: true });
@@ -342,6 +704,8 @@ chrome.runtime.onMessage.addListener((msg: any, sender: any, sendResponse: (v?:
 });
 
 chrome.downloads.onCreated.addListener((item: any) => {
+  // Our own backup/export files are not session artifacts.
+  if (isOwnDownload(item)) return;
   withLock(async () => {
     const settings = await loadSettings();
 
@@ -361,8 +725,17 @@ chrome.downloads.onCreated.addListener((item: any) => {
         sessionTitle = tab.title;
       }
     }
+    if (settings.urnSources.title && sessionUrl && !sessionTitleOf(state, sessionUrl, sessionTitle)) {
+      // Referrer given: the tab is only read when its title is wanted and not yet known.
+      const tab = await pickActiveTab();
+      if (tab && isHttpUrl(tab.url) && canonicalizeUrl(tab.url || "") === sessionUrl) sessionTitle = tab.title;
+    }
 
-    const urn = extractUrnFromFilename(item.filename);
+    const urn = extractUrnFromDownload(
+      { filename: item.filename, finalUrl: item.finalUrl, url: item.url, referrer: item.referrer, title: sessionTitleOf(state, sessionUrl, sessionTitle) },
+      urnOptsOf(settings)
+    );
+    // pending stays keyed by the live download id; commits get the unique id.
     const id = String(item.id);
 
     // urn-only ON: delay recording until we can extract an URN (filename may be empty or temporary).
@@ -381,7 +754,8 @@ chrome.downloads.onCreated.addListener((item: any) => {
         finalUrl: item.finalUrl || null,
         referrer: item.referrer || null,
         mime: item.mime || null,
-        totalBytes: typeof item.totalBytes === "number" ? item.totalBytes : null
+        totalBytes: typeof item.totalBytes === "number" ? item.totalBytes : null,
+        ...lifecycleFromItem(item)
       };
       state.pending[id] = pending;
       await saveState(state);
@@ -401,7 +775,8 @@ chrome.downloads.onCreated.addListener((item: any) => {
     }
 
     const commit: CommitRec = {
-      id,
+      id: commitIdFor(await getProfileEpoch(), item.id, item.startTime),
+      downloadId: item.id,
       sessionId,
       sessionUrl: resolvedSessionUrl,
       capturedAt: nowIso(),
@@ -415,10 +790,11 @@ chrome.downloads.onCreated.addListener((item: any) => {
       mime: item.mime || null,
       totalBytes: typeof item.totalBytes === "number" ? item.totalBytes : null,
       urn: urn.urn,
-      urnSource: urn.source
+      urnSource: urn.source,
+      ...lifecycleFromItem(item)
     };
 
-    await addCommit(commit, state);
+    await addCommit(commit);
     if (sessionId) await updateSessionStats(sessionId, state);
     await saveState(state);
     await maybeSyncSessionsIndex(state.sessions);
@@ -434,39 +810,42 @@ chrome.downloads.onChanged.addListener((delta: any) => {
     const state = await loadState();
     prunePending(state);
 
-    const idx = state.commits.findIndex((c) => c.id === id);
-    if (idx >= 0) {
+    const own = await isOwnDownloadId(delta.id);
+    const pendingHere = !!state.pending[id];
+    const cur = own || pendingHere ? null : await findLiveCommit(delta.id);
+    const target = downloadEventTarget({ own, pending: pendingHere, commit: !!cur });
+    if (target === "own" || target === "none") return;
+
+    if (target === "commit" && cur) {
       // Normal commit update
-      const cur = state.commits[idx];
-      const next: CommitRec = { ...cur };
+      const next: CommitRec = applyDownloadDelta(withLifecycleDefaults(cur), delta);
 
-      if (delta.state && delta.state.current) next.state = String(delta.state.current);
-      if (delta.filename && delta.filename.current) {
-        next.filename = String(delta.filename.current);
-        const urn = extractUrnFromFilename(next.filename);
+      if ((delta.filename && delta.filename.current) || (delta.finalUrl && delta.finalUrl.current)) {
+        const title = next.sessionId ? state.sessions[next.sessionId]?.title ?? null : null;
+        const urn = extractUrnFromDownload({ ...next, title }, urnOptsOf(settings));
         if (urn.urn) {
           next.urn = urn.urn;
           next.urnSource = urn.source;
         }
       }
-      if (delta.totalBytes && typeof delta.totalBytes.current === "number") next.totalBytes = delta.totalBytes.current;
-      if (delta.endTime && delta.endTime.current) next.endTime = String(delta.endTime.current);
+      // Deltas never carry progress; read it (and file existence) from the live item.
+      const [live] = await searchDownloads({ id: delta.id });
+      if (live) {
+        const lc = lifecycleFromItem(live);
+        if (lc.bytesReceived !== null) next.bytesReceived = lc.bytesReceived;
+        if (lc.exists !== null) next.exists = lc.exists;
+      }
 
-      state.commits[idx] = next;
+      await putCommit(next);
+      await notifyCommitsChanged([next.id]);
       await saveState(state);
       return;
     }
 
     // Pending (urn-only) download: try to promote once URN becomes detectable.
-    const pending = state.pending[id];
-    if (!pending) return;
-
-    if (delta.state && delta.state.current) pending.state = String(delta.state.current);
-    if (delta.filename && delta.filename.current) pending.filename = String(delta.filename.current);
-    if (delta.totalBytes && typeof delta.totalBytes.current === "number") pending.totalBytes = delta.totalBytes.current;
-    if (delta.endTime && delta.endTime.current) pending.endTime = String(delta.endTime.current);
+    const pending = applyDownloadDelta(withLifecycleDefaults(state.pending[id]), delta);
 
-    const urn = extractUrnFromFilename(pending.filename);
+    const urn = extractUrnFromDownload({ ...pending, title: sessionTitleOf(state, pending.sessionUrl, pending.sessionTitle) }, urnOptsOf(settings));
     const shouldAccept = !!urn.urn || !settings.urnOnly;
 
     if (shouldAccept) {
@@ -483,7 +862,8 @@ chrome.downloads.onChanged.addListener((delta: any) => {
       }
 
       const commit: CommitRec = {
-        id,
+        id: commitIdFor(await getProfileEpoch(), delta.id, pending.startTime),
+        downloadId: delta.id,
         sessionId,
         sessionUrl: resolvedSessionUrl,
         capturedAt: pending.capturedAt,
@@ -497,11 +877,18 @@ chrome.downloads.onChanged.addListener((delta: any) => {
         mime: pending.mime,
         totalBytes: pending.totalBytes,
         urn: urn.urn,
-        urnSource: urn.source
+        urnSource: urn.source,
+        error: pending.error,
+        danger: pending.danger,
+        paused: pending.paused,
+        canResume: pending.canResume,
+        bytesReceived: pending.bytesReceived,
+        exists: pending.exists,
+        erasedAt: null
       };
 
       delete state.pending[id];
-      await addCommit(commit, state);
+      await addCommit(commit);
       if (sessionId) await updateSessionStats(sessionId, state);
       await saveState(state);
       await maybeSyncSessionsIndex(state.sessions);
@@ -520,6 +907,28 @@ chrome.downloads.onChanged.addListener((delta: any) => {
   });
 });
 
+// Erasing from chrome's history keeps our commit (it is still an artifact of the session),
+// but marks it so the tree and sheet can tell it apart.
+chrome.downloads.onErased.addListener((downloadId: number) => {
+  withLock(async () => {
+    // Our own files (e.g. rotated backups) are not commits; chrome may now reuse the id.
+    if (await isOwnDownloadId(downloadId)) {
+      await forgetOwnDownload(downloadId);
+      return;
+    }
+    const state = await loadState();
+    if (state.pending[String(downloadId)]) {
+      delete state.pending[String(downloadId)];
+      await saveState(state);
+      return;
+    }
+    const cur = await findLiveCommit(downloadId);
+    if (!cur || cur.erasedAt) return;
+    await putCommit({ ...cur, erasedAt: nowIso() });
+    await notifyCommitsChanged([cur.id]);
+  });
+});
+
 chrome.tabs.onUpdated.addListener((tabId: number, info: any, tab: any) => {
   withLock(async () => {
     const url = tab?.url;